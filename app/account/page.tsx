@@ -9,6 +9,7 @@ import { useRouter } from "next/navigation"
 import { ArrowLeft } from "lucide-react"
 import { SupportCard } from "@/components/support-card"
 import { BugReportCard } from "@/components/bug-report-card"
+import { deleteUser } from "@/lib/apiClient"
 
 export default function AccountPage() {
   const { user, isLoaded } = useUser()
@@ -36,19 +37,7 @@ export default function AccountPage() {
       }
 
       // First delete user from our backend database
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5500"
-      const response = await fetch(`${API_BASE_URL}/api/auth/delete-user`, {
-        method: "DELETE",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`,
-        },
-      })
-
-      if (!response.ok) {
-        const data = await response.json()
-        throw new Error(data.error || "Failed to delete user from database")
-      }
+      await deleteUser(token)
 
       // Then delete from Clerk
       await user?.delete()
@@ -1,165 +1,116 @@
-import { type NextRequest, NextResponse } from "next/server";
-import { log, logError, logDebug } from "@/lib/logger";
-
-// Configure the route to handle large files
-export const config = {
-  api: {
-    responseLimit: false,
-  },
-};
-
-
-export async function GET(
-  request: Request,
-  context: { params: Promise<{ downloadId: string }> },
-) {
-  const { downloadId } = await context.params;
-  try {
-    log(`API route: Received download request for ID: ${downloadId}`);
-    // Determine API base URL
-    const apiBaseUrl = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060";
-    // Require session key from client request header
-    const sessionKey = request.headers.get("X-Session-Key");
-    if (!sessionKey) {
-      return NextResponse.json(
-        { success: false, error: "No session key provided" },
-        { status: 401 }
-      );
+import { passthroughHeaders, withBackend, type BackendClient } from "@/lib/backendProxy";
+import { CHECKSUM_HEADER } from "@/lib/downloadHeaders";
+import { log } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+// Only waits for the response headers; the body is streamed for as long as it takes
+const HEADERS_TIMEOUT_MS = 30_000;
+
+// Where storage and the backend put a SHA-256 of the whole file, and how it's encoded
+const CHECKSUM_SOURCES: { header: string; encoding: "hex" | "base64" }[] = [
+  { header: "x-checksum-sha256", encoding: "hex" },
+  { header: "x-amz-meta-sha256", encoding: "hex" },
+  { header: "x-amz-checksum-sha256", encoding: "base64" },
+];
+
+// Lowercase hex SHA-256 of the full file, if the upstream response reports one
+function readChecksum(response: Response): string | null {
+  for (const { header, encoding } of CHECKSUM_SOURCES) {
+    const value = response.headers.get(header)?.trim();
+    // Multipart objects report a checksum of part checksums ("<base64>-<parts>"), which can't be checked
+    if (!value || value.includes("-")) continue;
+
+    if (encoding === "hex" && /^[0-9a-f]{64}$/i.test(value)) return value.toLowerCase();
+    if (encoding === "base64") {
+      const bytes = Buffer.from(value, "base64");
+      if (bytes.length === 32) return bytes.toString("hex");
     }
-    log(`API route: Using session key from header: ${sessionKey}`);
-    const downloadUrl = `${apiBaseUrl}/download/${downloadId}`;
-    log(`API route: Using API base URL: ${apiBaseUrl}`);
-    log(`API route: Forwarding download request to: ${downloadUrl}`);
-
-    try {
-      log(`API route: Sending request to ${downloadUrl}`);
-      const response = await fetch(downloadUrl, {
-        method: "GET",
-        headers: {
-          Accept: "*/*",
-          "X-Session-Key": sessionKey,
-        },
-        redirect: "manual",
-      });
-
-      log("API route: Download response status:", response.status);
-      logDebug(
-        "API route: Download response headers", downloadId, {
-          headers: Object.fromEntries(response.headers.entries())
-        }
-      );
-
-      // If we got a redirect (to a presigned URL), return it as JSON
-      if (response.status >= 300 && response.status < 400) {
-        const location = response.headers.get("location");
-        log(`API route: Received redirect to ${location}`);
-        return NextResponse.json(
-          { signedUrl: location },
-          { status: 200 }
-        );
-      }
+  }
+  return null;
+}
 
-      // If the response is not OK, try to parse the error
-      if (!response.ok) {
-        logError("API route: Download response not OK");
-
-        // Try to get the error as text
-        const errorText = await response.text();
-        logError("API route: Download error text:", errorText);
-
-        // Try to parse as JSON if possible
-        try {
-          if (errorText && errorText.trim().startsWith("{")) {
-            const errorData = JSON.parse(errorText);
-            return NextResponse.json(
-              { error: errorData.error || errorData.message || "API error" },
-              { status: response.status },
-            );
-          } else {
-            // If not JSON, return the text as the error
-            return NextResponse.json(
-              { error: errorText || "API error" },
-              { status: response.status },
-            );
-          }
-        } catch (parseError) {
-          logError("API route: Error parsing error response:", parseError);
-          return NextResponse.json(
-            { error: errorText || "API error" },
-            { status: response.status },
-          );
-        }
+function filenameFrom(contentDisposition: string | null, fallback: string): string {
+  if (contentDisposition) {
+    const encoded = contentDisposition.match(/filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i);
+    if (encoded) {
+      try {
+        return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+      } catch {
+        // Fall through to the plain filename
       }
+    }
+    const plain = contentDisposition.match(/filename\s*=\s*"?([^";]+)"?/i);
+    if (plain) return plain[1].trim();
+  }
+  return fallback;
+}
 
-      // Get the content type and other headers
-      const contentType =
-        response.headers.get("content-type") || "application/octet-stream";
-      const contentDisposition =
-        response.headers.get("content-disposition") || "";
-
-      // Extract filename from content-disposition
-      const filenameMatch = contentDisposition.match(/filename="(.+?)"/);
-      const filename = filenameMatch
-        ? filenameMatch[1]
-        : `download-${downloadId}`;
-
-      // Ensure the content-disposition is set to attachment with the extracted filename
-      const finalContentDisposition = `attachment; filename="${filename}"`;
-
-      // Return the signed URL instead of streaming the file
-      const signedUrl = response.url; // Assuming the response URL is the signed URL
-      return NextResponse.json({ signedUrl }, { status: 200 });
-    } catch (fetchError) {
-      logError("API route: Download fetch error:", fetchError);
-
-      // Try to provide more detailed error information
-      const errorDetails = {
-        message:
-          fetchError instanceof Error ? fetchError.message : String(fetchError),
-        name: fetchError instanceof Error ? fetchError.name : "Unknown",
-        stack: fetchError instanceof Error ? fetchError.stack : undefined,
-      };
-      logError("Error details:", errorDetails);
-
-      // Check if it's a network error
-      if (
-        fetchError instanceof TypeError &&
-        fetchError.message.includes("fetch")
-      ) {
-        return NextResponse.json(
-          {
-            status: "error",
-            message:
-              "Network error: Could not connect to the download API. Please check your network connection or try again later.",
-            error: errorDetails.message,
-          },
-          { status: 503 }, // Service Unavailable
-        );
-      }
+// Both forms, so old browsers get an ASCII name and the rest get the real one
+function attachmentHeader(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// The backend either streams the file itself or redirects to a presigned storage URL
+async function fetchFile(backend: BackendClient, downloadId: string, rangeHeaders: Record<string, string>) {
+  const response = await backend.fetch(`/download/${downloadId}`, {
+    headers: { Accept: "*/*", ...rangeHeaders },
+    redirect: "manual",
+    timeoutMs: HEADERS_TIMEOUT_MS,
+  });
+
+  const location = response.headers.get("location");
+  if (response.status < 300 || response.status >= 400 || !location) return response;
 
-      return NextResponse.json(
-        {
-          error: errorDetails.message,
-          details: errorDetails,
-        },
-        { status: 500 },
-      );
+  log(`API route: Following download redirect for ${downloadId}`, { request_id: backend.requestId });
+  await response.body?.cancel();
+  return backend.fetchExternal(location, { headers: rangeHeaders, timeoutMs: HEADERS_TIMEOUT_MS });
+}
+
+/**
+ * Streams a converted file to the browser.
+ *
+ * Supports `Range` / `If-Range` so interrupted downloads can resume, always answers with an
+ * attachment `Content-Disposition`, and reports the file's SHA-256 (when storage has one) in
+ * `X-Checksum-Sha256` so the client can verify what it received.
+ */
+export const GET = withBackend<{ downloadId: string }>(
+  "API download route error",
+  async (request, backend, { downloadId }) => {
+    log(`API route: Received download request for ID: ${downloadId}`, {
+      request_id: backend.requestId,
+      range: request.headers.get("range"),
+    });
+
+    const rangeHeaders: Record<string, string> = {};
+    for (const name of ["range", "if-range"]) {
+      const value = request.headers.get(name);
+      if (value) rangeHeaders[name] = value;
+    }
+
+    const response = await fetchFile(backend, downloadId, rangeHeaders);
+
+    log("API route: Download response status:", response.status);
+
+    if (!response.ok) {
+      // 416 keeps its Content-Range so the client can tell how big the file actually is
+      return backend.forward(response);
     }
-  } catch (error) {
-    logError("API download route error:", error);
-
-    const errorDetails = {
-      message: error instanceof Error ? error.message : String(error),
-      name: error instanceof Error ? error.name : "Unknown",
-      stack: error instanceof Error ? error.stack : undefined,
-    };
-
-    return NextResponse.json(
-      {
-        error: errorDetails.message,
-        details: errorDetails,
-      },
-      { status: 500 },
+
+    const headers = passthroughHeaders(response, backend.requestId);
+    headers.set(
+      "Content-Disposition",
+      attachmentHeader(filenameFrom(response.headers.get("content-disposition"), `download-${downloadId}`)),
     );
-  }
-}
+    headers.set("Accept-Ranges", response.headers.get("accept-ranges") ?? "bytes");
+    headers.set("Cache-Control", "private, no-store");
+    headers.delete("location");
+
+    const checksum = readChecksum(response);
+    if (checksum) headers.set(CHECKSUM_HEADER, checksum);
+
+    // Streamed straight through: nothing is buffered in the route, whatever the file size
+    return new Response(response.body, { status: response.status, headers });
+  },
+);
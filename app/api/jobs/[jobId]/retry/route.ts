@@ -0,0 +1,30 @@
+import { readBackendJson, readRequestJson, withBackend } from "@/lib/backendProxy"
+import { log, logError } from "@/lib/logger"
+
+// Converts a finished job's input again as a new job, with the device profile and options in the body: retrying
+// a failure, or re-converting for another device from the history. Without options the backend keeps the job's
+// own. It answers 404 or 410 once it no longer has the uploaded file; the browser then asks for it again.
+export const POST = withBackend<{ jobId: string }>(
+  "Exception in job retry",
+  async (request, backend, { jobId }) => {
+    const body = await readRequestJson(request)
+    log("Retrying job", jobId, { request_id: backend.requestId })
+
+    const res = await backend.fetch(`/jobs/${jobId}/retry`, { method: "POST", body, timeoutMs: 30_000 })
+    if (!res.ok) {
+      logError("Backend job retry failed", jobId, {
+        request_id: backend.requestId,
+        status: res.status,
+      })
+      return backend.forward(res)
+    }
+
+    const data = await readBackendJson(res)
+    log("Job retried successfully", jobId, {
+      new_job_id: data.job_id,
+      new_status: data.status,
+    })
+
+    return backend.json(data, { from: res })
+  },
+)
@@ -1,107 +1,57 @@
-import { type NextRequest, NextResponse } from "next/server"
+import { readBackendJson, withBackend } from "@/lib/backendProxy"
+import { canStartJob } from "@/lib/jobState"
 import { log, logError } from "@/lib/logger"
 
-export async function PATCH(request: NextRequest, context: { params: { jobId: string } }) {
-  try {
-    const { jobId } = await context.params
-    const sessionKey = request.headers.get("X-Session-Key")
-
-    if (!sessionKey) {
-      return NextResponse.json({ error: "No session key provided" }, { status: 401 })
-    }
-
-    const apiBaseUrl = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_URL
-
-    if (!apiBaseUrl) {
-      console.error("API_BASE_URL or NEXT_PUBLIC_API_URL environment variable is not set")
-      return NextResponse.json({ error: "Backend API URL not configured" }, { status: 500 })
-    }
-
-    console.log("[v0] Checking job status before calling start endpoint")
-    const statusCheckRes = await fetch(`${apiBaseUrl}/status/${jobId}`, {
-      method: "GET",
-      headers: {
-        "X-Session-Key": sessionKey,
-      },
-    })
+export const PATCH = withBackend<{ jobId: string }>(
+  "Exception in job start",
+  async (_request, backend, { jobId }) => {
+    const statusCheckRes = await backend.fetch(`/status/${jobId}`, { timeoutMs: 5_000 })
 
     if (statusCheckRes.ok) {
-      const statusData = await statusCheckRes.json()
-      console.log("[v0] Current job status before start:", statusData.status)
+      const statusData = await readBackendJson(statusCheckRes)
       log("Job status before start endpoint", jobId, {
         current_status: statusData.status,
         about_to_call_start: true,
       })
 
-      // If job is not in UPLOADING status, log detailed error
-      if (statusData.status !== "UPLOADING") {
+      // Starting is only valid straight after the upload; a job that was cancelled, already started or
+      // finished must not be started again
+      if (!canStartJob(statusData.status)) {
         logError("Job is not in UPLOADING status when start was called", jobId, {
           current_status: statusData.status,
           expected_status: "UPLOADING",
           error: "Status mismatch - job may have been cancelled or changed",
         })
+        return backend.json(
+          {
+            error: `Job cannot be started while ${statusData.status ?? "in an unknown state"}`,
+            status: statusData.status,
+          },
+          { status: 409 },
+        )
       }
     } else {
-      console.log("[v0] Failed to check status before start:", statusCheckRes.status)
+      log("Failed to check status before start", jobId, { status: statusCheckRes.status })
+      await statusCheckRes.body?.cancel()
     }
 
-    log("Frontend API: Calling backend to start job", jobId, {
-      backend_url: `${apiBaseUrl}/jobs/${jobId}/start`,
-      has_session_key: !!sessionKey,
-    })
-
-    const res = await fetch(`${apiBaseUrl}/jobs/${jobId}/start`, {
-      method: "PATCH",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Session-Key": sessionKey,
-      },
-    })
+    log("Frontend API: Calling backend to start job", jobId, { request_id: backend.requestId })
 
+    const res = await backend.fetch(`/jobs/${jobId}/start`, { method: "PATCH", timeoutMs: 30_000 })
     if (!res.ok) {
-      const errorText = await res.text()
-      let errorData
-      try {
-        errorData = JSON.parse(errorText)
-      } catch {
-        errorData = { error: errorText }
-      }
-
-      console.log("[v0] Backend start failed:", {
-        status: res.status,
-        error: errorData.error || errorText,
-      })
-
       logError("Backend job start failed", jobId, {
+        request_id: backend.requestId,
         status: res.status,
         statusText: res.statusText,
-        error: errorData.error || errorText,
-        backend_response: errorData,
       })
-
-      return NextResponse.json({ error: errorData.error || "Failed to start job processing" }, { status: res.status })
+      return backend.forward(res)
     }
 
-    const data = await res.json()
-
-    console.log("[v0] Backend start successful, new status:", data.status)
-
+    const data = await readBackendJson(res)
     log("Backend job start successful", jobId, {
       new_status: data.status,
     })
 
-    return NextResponse.json(data)
-  } catch (error) {
-    console.log("[v0] Exception in job start:", error)
-
-    logError("Frontend API: Exception in job start", {
-      error: error instanceof Error ? error.message : String(error),
-      error_type: error instanceof Error ? error.constructor.name : typeof error,
-    })
-
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Internal server error" },
-      { status: 500 },
-    )
-  }
-}
+    return backend.json(data, { from: res })
+  },
+)
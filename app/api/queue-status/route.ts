@@ -0,0 +1,8 @@
+import { withBackend } from "@/lib/backendProxy"
+
+export const dynamic = "force-dynamic"
+
+// One snapshot of the session's queue, for clients that can't hold a WebSocket or event stream open
+export const GET = withBackend("Error fetching queue status", async (_request, backend) =>
+  backend.proxy("/status", { timeoutMs: 10_000 }),
+)
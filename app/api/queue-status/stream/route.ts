@@ -0,0 +1,90 @@
+import { withBackend } from "@/lib/backendProxy"
+import { logError } from "@/lib/logger"
+
+export const dynamic = "force-dynamic"
+
+// How often the backend is polled on the client's behalf
+const POLL_INTERVAL_MS = 2000
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Session queue snapshots as Server-Sent Events, for networks that block WebSocket upgrades.
+ *
+ * Polls the backend /status endpoint server-side and sends a `session_update` event whenever
+ * the snapshot changes, in the same shape as the Socket.IO event.
+ */
+export const GET = withBackend("Error opening queue status stream", async (request, backend) => {
+  const encoder = new TextEncoder()
+  let pollTimer: ReturnType<typeof setTimeout> | undefined
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearTimeout(pollTimer)
+        clearInterval(heartbeatTimer)
+        controller.close()
+      }
+
+      let lastSnapshot = ""
+
+      const poll = async () => {
+        try {
+          // No retries: the next poll is the retry
+          const response = await backend.fetch("/status", { timeoutMs: POLL_INTERVAL_MS * 5, retries: 0 })
+
+          if (response.status === 401 || response.status === 403) {
+            send(`event: error\ndata: ${JSON.stringify({ message: "Session is no longer valid" })}\n\n`)
+            close()
+            return
+          }
+
+          if (response.ok) {
+            const snapshot = await response.text()
+            // Only changed snapshots are sent; the top-level timestamp differs on every poll so it isn't compared
+            const { timestamp: _timestamp, ...comparable } = JSON.parse(snapshot)
+            const key = JSON.stringify(comparable)
+            if (key !== lastSnapshot) {
+              lastSnapshot = key
+              send(`event: session_update\ndata: ${snapshot.replace(/\n/g, "")}\n\n`)
+            }
+          }
+        } catch (error) {
+          if (request.signal.aborted) return
+          logError("[SSE] Failed to poll queue status:", error)
+        }
+
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+
+      // Tell EventSource-style clients how long to wait before reconnecting
+      send(`retry: ${POLL_INTERVAL_MS}\n\n`)
+      heartbeatTimer = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS)
+      request.signal.addEventListener("abort", close)
+      poll()
+    },
+    cancel() {
+      closed = true
+      clearTimeout(pollTimer)
+      clearInterval(heartbeatTimer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx so events arrive as they are sent
+      "X-Accel-Buffering": "no",
+      "X-Request-Id": backend.requestId,
+    },
+  })
+})
@@ -6,8 +6,10 @@ import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { Toaster } from "sonner"
 import { ConverterModeProvider } from "@/contexts/converter-mode-context"
+import { RealtimeProvider } from "@/contexts/realtime-context"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { ConditionalClerkProvider } from "@/components/conditional-clerk-provider"
+import { PwaSupport } from "@/components/pwa-support"
 
 const mplus = M_PLUS_Rounded_1c({
   weight: ["400", "700", "800"],
@@ -129,8 +131,11 @@ export default function RootLayout({
           <ErrorBoundary>
             <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
               <ConverterModeProvider>
-                {children}
-                <Toaster richColors position="top-center" />
+                <RealtimeProvider>
+                  {children}
+                  <Toaster richColors position="top-center" />
+                  <PwaSupport />
+                </RealtimeProvider>
               </ConverterModeProvider>
             </ThemeProvider>
           </ErrorBoundary>
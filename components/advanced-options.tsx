@@ -10,7 +10,7 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { HelpCircle, AlertTriangle, CheckCircle2 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
-import type { AdvancedOptionsType } from "./manga-converter"
+import type { AdvancedOptionsType } from "@/lib/advancedOptions"
 import { useConverterMode } from "@/contexts/converter-mode-context"
 
 interface AdvancedOptionsProps {
@@ -18,9 +18,17 @@ interface AdvancedOptionsProps {
   onChange: (options: Partial<AdvancedOptionsType>) => void
   deviceProfile: string
   contentType?: "comic" | "manga"
+  // Per-file overrides edit Manga Style directly instead of following the converter mode
+  editableMangaStyle?: boolean
 }
 
-export function AdvancedOptions({ options, onChange, deviceProfile, contentType = "manga" }: AdvancedOptionsProps) {
+export function AdvancedOptions({
+  options,
+  onChange,
+  deviceProfile,
+  contentType = "manga",
+  editableMangaStyle = false,
+}: AdvancedOptionsProps) {
   const { mode, setMode } = useConverterMode()
   const isMangaMode = mode === "manga"
 
@@ -227,21 +235,32 @@ export function AdvancedOptions({ options, onChange, deviceProfile, contentType
             <h3 className="text-lg font-semibold">Main Options</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-4">
-                <OptionCheckbox
-                  id="manga-style"
-                  label="Manga Style"
-                  checked={isMangaMode}
-                  onCheckedChange={() => {}}
-                  tooltip="Right-to-left reading and splitting"
-                  contentType={contentType}
-                  disabled={true}
-                  notice={
-                    isMangaMode
-                      ? "Want to convert a comic? Switch to Comic mode"
-                      : "Want to convert a manga? Switch to Manga mode"
-                  }
-                  setMode={setMode}
-                />
+                {editableMangaStyle ? (
+                  <OptionCheckbox
+                    id="manga-style"
+                    label="Manga Style"
+                    checked={options.mangaStyle}
+                    onCheckedChange={() => handleCheckboxChange("mangaStyle")}
+                    tooltip="Right-to-left reading and splitting"
+                    contentType={contentType}
+                  />
+                ) : (
+                  <OptionCheckbox
+                    id="manga-style"
+                    label="Manga Style"
+                    checked={isMangaMode}
+                    onCheckedChange={() => {}}
+                    tooltip="Right-to-left reading and splitting"
+                    contentType={contentType}
+                    disabled={true}
+                    notice={
+                      isMangaMode
+                        ? "Want to convert a comic? Switch to Comic mode"
+                        : "Want to convert a manga? Switch to Manga mode"
+                    }
+                    setMode={setMode}
+                  />
+                )}
                 <OptionCheckbox
                   id="hq"
                   label="High Quality"
@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { AlertCircle, Check, Clock, Loader2, RotateCw } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  archiveFilename,
+  BulkDownloader,
+  commonSeries,
+  type BulkDownloadEntry,
+  type BulkDownloadSource,
+} from "@/lib/bulkDownload"
+import { isApiError } from "@/lib/apiClient"
+import { openSaveTarget, type SaveTarget } from "@/lib/downloadClient"
+import { logError } from "@/lib/logger"
+import { formatFileSize } from "@/lib/utils"
+
+interface BulkDownloadDialogProps {
+  sources: BulkDownloadSource[]
+  onClose: () => void
+}
+
+const STATUS_ICONS: Record<BulkDownloadEntry["status"], React.ReactNode> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  downloading: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  done: <Check className="h-4 w-4 text-success" />,
+  failed: <AlertCircle className="h-4 w-4 text-destructive" />,
+}
+
+// Asks where to save the ZIP, then downloads the given files into it one by one
+export function BulkDownloadDialog({ sources, onClose }: BulkDownloadDialogProps) {
+  const [downloader] = useState(() => new BulkDownloader(sources))
+  const [entries, setEntries] = useState<BulkDownloadEntry[]>(() => downloader.getEntries())
+  const [series] = useState(() => commonSeries(sources))
+  const [nameAfterSeries, setNameAfterSeries] = useState(!!series)
+  const [seriesName, setSeriesName] = useState(series ?? "")
+  // Set once the save target is open; the archive is saved under this name
+  const [savingAs, setSavingAs] = useState<string | null>(null)
+  const [isFinishing, setIsFinishing] = useState(false)
+
+  useEffect(() => downloader.onChange(setEntries), [downloader])
+
+  const handleClose = () => {
+    downloader.cancel()
+    onClose()
+  }
+
+  const progress = downloader.getProgress()
+  const isRunning = entries.some((entry) => entry.status === "queued" || entry.status === "downloading")
+  const zipName = archiveFilename(nameAfterSeries ? seriesName : undefined)
+
+  const finish = async (filename: string) => {
+    try {
+      setIsFinishing(true)
+      const size = await downloader.finish()
+      const { done } = downloader.getProgress()
+      toast.success(`Downloaded ${filename}`, {
+        description: `${done} file${done !== 1 ? "s" : ""}, ${formatFileSize(size)}`,
+      })
+      onClose()
+    } catch (error) {
+      logError("[BULK DOWNLOAD] Failed to save archive", { error })
+      toast.error("Could not save the ZIP", {
+        description: error instanceof Error ? error.message : "Please try again",
+      })
+      handleClose()
+    }
+  }
+
+  const handleStart = async () => {
+    let target: SaveTarget
+    try {
+      target = await openSaveTarget(zipName, "application/zip")
+    } catch (error) {
+      // Closed the save dialog
+      if (isApiError(error, "ABORTED")) return
+      logError("[BULK DOWNLOAD] Failed to open the save target", { error })
+      toast.error("Could not create the ZIP", {
+        description: error instanceof Error ? error.message : "Please try again",
+      })
+      return
+    }
+
+    setSavingAs(target.filename)
+    await downloader.start(target)
+    // With failures, the user decides whether to retry them or save the rest
+    if (downloader.getProgress().failed === 0) await finish(target.filename)
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Download {sources.length} files as ZIP</DialogTitle>
+          <DialogDescription>
+            {!savingAs
+              ? "Choose a name, then each file is downloaded straight into the ZIP."
+              : isRunning
+                ? `Downloading ${progress.done} of ${progress.total} (${formatFileSize(progress.receivedBytes)})`
+                : progress.failed > 0
+                  ? `${progress.failed} file${progress.failed !== 1 ? "s" : ""} failed. Retry them or save the rest.`
+                  : "All files downloaded."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={progress.percentage} className="h-2" />
+
+        <ul className="flex-1 overflow-y-auto space-y-1 text-sm">
+          {entries.map((entry) => (
+            <li key={entry.key} className="flex items-center gap-2 rounded px-2 py-1.5 hover:bg-muted/50">
+              {STATUS_ICONS[entry.status]}
+              <span className="flex-1 truncate" title={entry.error ?? entry.filename}>
+                {entry.filename}
+              </span>
+              {entry.status === "downloading" && entry.totalBytes ? (
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {Math.round((entry.receivedBytes / entry.totalBytes) * 100)}%
+                </span>
+              ) : entry.status === "done" ? (
+                <span className="text-xs text-muted-foreground">{formatFileSize(entry.receivedBytes)}</span>
+              ) : null}
+              {entry.status === "failed" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => downloader.retry(entry.key)}
+                  disabled={isFinishing}
+                >
+                  <RotateCw className="h-3.5 w-3.5 mr-1" />
+                  Retry
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {savingAs ? (
+          <p className="text-xs text-muted-foreground break-all">Saving as {savingAs}</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="bulk-download-series-name"
+                checked={nameAfterSeries}
+                onCheckedChange={(checked) => setNameAfterSeries(checked === true)}
+              />
+              <Label htmlFor="bulk-download-series-name">Name the ZIP after the series</Label>
+            </div>
+            {nameAfterSeries && (
+              <Input
+                value={seriesName}
+                onChange={(e) => setSeriesName(e.target.value)}
+                placeholder="Series name"
+                aria-label="Series name"
+              />
+            )}
+            <p className="text-xs text-muted-foreground break-all">Saves as {zipName}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {!savingAs ? (
+            <Button onClick={handleStart}>Download ZIP</Button>
+          ) : (
+            <Button onClick={() => finish(savingAs)} disabled={isRunning || progress.done === 0 || isFinishing}>
+              {isFinishing || isRunning ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {isFinishing ? "Saving ZIP..." : "Downloading..."}
+                </>
+              ) : progress.failed > 0 ? (
+                `Save ZIP without ${progress.failed} failed`
+              ) : (
+                "Save ZIP"
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { useRealtime } from "@/contexts/realtime-context"
+import { FALLBACK_POLL_INTERVAL_MS, type RealtimeTransport } from "@/lib/realtimeClient"
+
+const TRANSPORT_LABELS: Record<RealtimeTransport, string> = {
+  websocket: "Live",
+  sse: "Live (event stream)",
+  polling: `Updating every ${FALLBACK_POLL_INTERVAL_MS / 1000}s`,
+}
+
+const TRANSPORT_DESCRIPTIONS: Record<RealtimeTransport, string> = {
+  websocket: "Queue updates arrive over a WebSocket connection.",
+  sse: "WebSockets look blocked on this network, so queue updates are streamed over HTTP instead.",
+  polling: "WebSockets and event streams look blocked on this network, so the queue is refreshed periodically.",
+}
+
+// Which transport is delivering queue updates, and whether it's currently healthy
+export function ConnectionIndicator() {
+  const { connection } = useRealtime()
+  if (connection.status === "idle") return null
+
+  const isHealthy = connection.status === "connected"
+  const label =
+    connection.status === "connected"
+      ? TRANSPORT_LABELS[connection.transport]
+      : connection.status === "connecting"
+        ? "Connecting..."
+        : connection.status === "disconnected"
+          ? "Offline"
+          : "Reconnecting..."
+  const title = isHealthy
+    ? TRANSPORT_DESCRIPTIONS[connection.transport]
+    : connection.lastError
+      ? `Queue updates are paused: ${connection.lastError}`
+      : "Queue updates are paused until the connection is back."
+
+  return (
+    <Badge variant="outline" className="gap-1.5 font-normal text-muted-foreground" title={title}>
+      <span
+        className={`h-2 w-2 rounded-full ${
+          isHealthy ? (connection.transport === "websocket" ? "bg-success" : "bg-warning") : "bg-muted-foreground"
+        } ${connection.status === "connecting" || connection.status === "reconnecting" ? "animate-pulse" : ""}`}
+      />
+      {label}
+    </Badge>
+  )
+}
@@ -0,0 +1,535 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertCircle,
+  ArrowRight,
+  Clock,
+  Download,
+  FileText,
+  FolderDown,
+  HardDrive,
+  Loader2,
+  RefreshCw,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react"
+import { motion, AnimatePresence } from "framer-motion"
+import { toast } from "sonner"
+import { useSession } from "@/hooks/use-session"
+import { removeSessionKey } from "@/lib/session"
+import { isApiError } from "@/lib/apiClient"
+import { saveConvertedFile } from "@/lib/downloadClient"
+import { convertedFileSource, signedUrlSource, type BulkDownloadSource } from "@/lib/bulkDownload"
+import {
+  clearConversionHistory,
+  loadConversionHistory,
+  removeConversion,
+  searchConversionHistory,
+  subscribeToConversionHistory,
+  type ConversionHistoryEntry,
+  type HistorySort,
+  type HistoryStatus,
+} from "@/lib/conversionHistory"
+import { logError } from "@/lib/logger"
+import { BulkDownloadDialog } from "./bulk-download-dialog"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DATE_RANGES: { value: string; label: string; ms?: number }[] = [
+  { value: "all", label: "Any time" },
+  { value: "day", label: "Last 24 hours", ms: DAY_MS },
+  { value: "week", label: "Last 7 days", ms: 7 * DAY_MS },
+  { value: "month", label: "Last 30 days", ms: 30 * DAY_MS },
+]
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+  COMPLETE: "Complete",
+  ERRORED: "Failed",
+  CANCELLED: "Cancelled",
+}
+
+const SORT_LABELS: Record<HistorySort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  largest: "Largest first",
+  smallest: "Smallest first",
+  longest: "Longest conversion",
+  shortest: "Shortest conversion",
+}
+
+interface ConversionHistoryProps {
+  // Signed-in users also see their converted files from other devices
+  signedIn: boolean
+  deviceProfiles: Record<string, string>
+  // Convert the entry's input again for another device
+  onReconvert?: (entry: ConversionHistoryEntry, deviceProfile: string) => void
+}
+
+export function ConversionHistory({ signedIn, deviceProfiles, onReconvert }: ConversionHistoryProps) {
+  const { sessionKey, isLoading: sessionLoading, error: sessionError } = useSession({ autoInitialize: true })
+  const [entries, setEntries] = useState<ConversionHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [text, setText] = useState("")
+  const [profileFilter, setProfileFilter] = useState("all")
+  const [statusFilter, setStatusFilter] = useState<HistoryStatus | "all">("all")
+  const [dateRange, setDateRange] = useState("all")
+  const [sort, setSort] = useState<HistorySort>("newest")
+  const [downloadingFiles, setDownloadingFiles] = useState<Record<string, boolean>>({})
+  const [selection, setSelection] = useState<Set<string>>(new Set())
+  const [bulkDownloadSources, setBulkDownloadSources] = useState<BulkDownloadSource[] | null>(null)
+
+  const fetchHistory = async () => {
+    try {
+      setError(null)
+      const history = await loadConversionHistory({ sessionKey, signedIn })
+      setEntries(history)
+      setSelection((prev) => new Set(history.filter((entry) => prev.has(entry.jobId)).map((entry) => entry.jobId)))
+    } catch (err) {
+      // If we get a 401, the session is invalid - clear it and reload
+      if (isApiError(err, "UNAUTHORIZED")) {
+        removeSessionKey()
+        toast.error("Session expired", {
+          description: "Please refresh the page to continue.",
+        })
+        setTimeout(() => window.location.reload(), 2000)
+        return
+      }
+
+      logError("[HISTORY] Could not load conversion history", err)
+      setError(err instanceof Error ? err.message : "Failed to load conversion history")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (sessionLoading) return
+    fetchHistory()
+    // Jobs finishing in this tab are added as they're recorded
+    return subscribeToConversionHistory(() => fetchHistory())
+  }, [sessionLoading, sessionKey, signedIn])
+
+  const range = DATE_RANGES.find((option) => option.value === dateRange)
+  const visible = useMemo(
+    () =>
+      searchConversionHistory(entries, {
+        text,
+        deviceProfile: profileFilter === "all" ? undefined : profileFilter,
+        status: statusFilter === "all" ? undefined : statusFilter,
+        since: range?.ms ? Date.now() - range.ms : undefined,
+        sort,
+      }),
+    [entries, text, profileFilter, statusFilter, range, sort],
+  )
+  const usedProfiles = Array.from(new Set(entries.map((entry) => entry.deviceProfile)))
+  const downloadable = visible.filter((entry) => entry.status === "COMPLETE")
+  const isFiltered = text !== "" || profileFilter !== "all" || statusFilter !== "all" || dateRange !== "all"
+
+  const formatDate = (timestamp: number) => {
+    if (!timestamp) return "Unknown date"
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    })
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return "0 Bytes"
+    const k = 1024
+    const sizes = ["Bytes", "KB", "MB", "GB"]
+    const i = Math.floor(Math.log(bytes) / Math.log(k))
+    return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+  }
+
+  const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${Math.round(seconds)}s`
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = Math.round(seconds % 60)
+    return remainingSeconds === 0 ? `${minutes}m` : `${minutes}m ${remainingSeconds}s`
+  }
+
+  const downloadSource = (entry: ConversionHistoryEntry): BulkDownloadSource | null => {
+    const filename = entry.outputFilename || entry.inputFilename
+    if (entry.downloadUrl) return signedUrlSource(entry.jobId, entry.downloadUrl, filename, entry.metadata?.series)
+    if (sessionKey) return convertedFileSource(sessionKey, entry.jobId, filename, entry.metadata?.series)
+    return null
+  }
+
+  const downloadFile = async (entry: ConversionHistoryEntry) => {
+    const filename = entry.outputFilename || entry.inputFilename
+    try {
+      setDownloadingFiles((prev) => ({ ...prev, [entry.jobId]: true }))
+      if (entry.downloadUrl) {
+        // Use the presigned URL directly
+        window.location.href = entry.downloadUrl
+      } else if (sessionKey) {
+        await saveConvertedFile(sessionKey, entry.jobId, { fallbackFilename: filename })
+      }
+      toast.success(`Downloading ${filename}`)
+    } catch (err) {
+      // Closed the save dialog
+      if (isApiError(err, "ABORTED")) return
+      logError("[HISTORY] Download failed", entry.jobId, { error: err instanceof Error ? err.message : String(err) })
+      toast.error("Download failed", {
+        description: isApiError(err, "NOT_FOUND")
+          ? "This file is no longer available."
+          : err instanceof Error
+            ? err.message
+            : "Failed to download file",
+      })
+    } finally {
+      setDownloadingFiles((prev) => ({ ...prev, [entry.jobId]: false }))
+    }
+  }
+
+  const toggleSelected = (jobId: string, selected: boolean) => {
+    setSelection((prev) => {
+      const next = new Set(prev)
+      if (selected) next.add(jobId)
+      else next.delete(jobId)
+      return next
+    })
+  }
+
+  // The selected files, or every downloadable one shown when nothing is selected
+  const openBulkDownload = () => {
+    const targets = selection.size > 0 ? downloadable.filter((entry) => selection.has(entry.jobId)) : downloadable
+    setBulkDownloadSources(
+      targets.map(downloadSource).filter((source): source is BulkDownloadSource => source !== null),
+    )
+  }
+
+  const clearFilters = () => {
+    setText("")
+    setProfileFilter("all")
+    setStatusFilter("all")
+    setDateRange("all")
+  }
+
+  if (sessionLoading || loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Conversion History</CardTitle>
+          <CardDescription>Loading your converted files...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error || sessionError) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Conversion History</CardTitle>
+          <CardDescription>Your converted files</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error || sessionError?.message}</AlertDescription>
+          </Alert>
+          <Button onClick={fetchHistory} className="mt-4">
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Conversion History</CardTitle>
+          <CardDescription>Your converted files</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-muted-foreground">
+            <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No conversions yet</p>
+            <p className="text-sm">Convert some files to see them here!</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-center gap-2">
+          <div>
+            <CardTitle>Conversion History</CardTitle>
+            <CardDescription>
+              {isFiltered ? `${visible.length} of ${entries.length}` : entries.length} conversion
+              {entries.length !== 1 ? "s" : ""} {signedIn ? "from all your devices" : "in this browser"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {downloadable.length >= 2 && (
+              <Button variant="outline" size="sm" onClick={openBulkDownload}>
+                <FolderDown className="h-4 w-4 mr-1.5" />
+                {selection.size > 0 ? `Download selected (${selection.size})` : "Download all"}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchHistory} aria-label="Refresh history">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={async () => {
+                await clearConversionHistory()
+                toast.success(signedIn ? "Cleared this browser's history" : "Conversion history cleared")
+              }}
+              aria-label="Clear history"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {/* Search, filters and sorting */}
+        <div className="flex flex-wrap items-center gap-2 pt-3">
+          <div className="relative flex-1 min-w-[180px]">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              placeholder="Search filenames, series, authors..."
+              className="h-9 pl-8"
+              aria-label="Search conversion history"
+            />
+          </div>
+          <Select value={profileFilter} onValueChange={setProfileFilter}>
+            <SelectTrigger className="h-9 w-[170px]" aria-label="Filter by device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All devices</SelectItem>
+              {usedProfiles.map((profile) => (
+                <SelectItem key={profile} value={profile}>
+                  {deviceProfiles[profile] || profile}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as HistoryStatus | "all")}>
+            <SelectTrigger className="h-9 w-[130px]" aria-label="Filter by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              {(Object.keys(STATUS_LABELS) as HistoryStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dateRange} onValueChange={setDateRange}>
+            <SelectTrigger className="h-9 w-[140px]" aria-label="Filter by date">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as HistorySort)}>
+            <SelectTrigger className="h-9 w-[170px]" aria-label="Sort by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as HistorySort[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {SORT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {visible.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No conversions match these filters</p>
+            <Button variant="link" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <AnimatePresence>
+              {visible.map((entry) => (
+                <motion.div
+                  key={entry.jobId}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="group relative rounded-lg border bg-card hover:bg-accent/50 transition-all duration-200 overflow-hidden"
+                >
+                  <div className="flex items-start gap-4 p-4">
+                    {downloadable.length >= 2 && (
+                      <Checkbox
+                        className="mt-3"
+                        checked={selection.has(entry.jobId)}
+                        disabled={entry.status !== "COMPLETE"}
+                        onCheckedChange={(checked) => toggleSelected(entry.jobId, checked === true)}
+                        aria-label={`Select ${entry.outputFilename || entry.inputFilename}`}
+                      />
+                    )}
+
+                    {/* File icon */}
+                    <div className="p-2.5 rounded-lg bg-primary/10 text-primary shrink-0">
+                      <FileText className="h-5 w-5" />
+                    </div>
+
+                    {/* File info */}
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div>
+                        <p className="font-semibold text-base truncate">
+                          {entry.outputFilename || entry.inputFilename}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                          <span>{formatDate(entry.finishedAt)}</span>
+                          <span>•</span>
+                          <Badge variant="secondary" className="text-xs font-normal">
+                            {deviceProfiles[entry.deviceProfile] || entry.deviceProfile}
+                          </Badge>
+                          {entry.status !== "COMPLETE" && (
+                            <Badge variant="destructive" className="text-xs font-normal">
+                              {STATUS_LABELS[entry.status]}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                        {entry.inputSize || entry.outputSize ? (
+                          <div className="flex items-center gap-1.5">
+                            <HardDrive className="h-3.5 w-3.5" />
+                            {entry.inputSize ? (
+                              <span className="font-medium">{formatFileSize(entry.inputSize)}</span>
+                            ) : null}
+                            {entry.inputSize && entry.outputSize ? <ArrowRight className="h-3 w-3" /> : null}
+                            {entry.outputSize ? (
+                              <span className="font-medium text-foreground">{formatFileSize(entry.outputSize)}</span>
+                            ) : null}
+                          </div>
+                        ) : null}
+                        {entry.durationSec ? (
+                          <div className="flex items-center gap-1.5">
+                            <Clock className="h-3.5 w-3.5" />
+                            <span className="font-medium">{formatDuration(entry.durationSec)}</span>
+                          </div>
+                        ) : null}
+                        {entry.error && <span className="text-xs text-destructive truncate">{entry.error}</span>}
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2 shrink-0">
+                      {onReconvert && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" aria-label={`Re-convert ${entry.inputFilename}`}>
+                              <RefreshCw className="h-4 w-4 sm:mr-1.5" />
+                              <span className="hidden sm:inline">Re-convert</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                            <DropdownMenuLabel>Convert again for</DropdownMenuLabel>
+                            {Object.entries(deviceProfiles)
+                              .filter(([profile]) => profile !== "Placeholder")
+                              .map(([profile, name]) => (
+                                <DropdownMenuItem key={profile} onSelect={() => onReconvert(entry, profile)}>
+                                  {name}
+                                  {profile === entry.deviceProfile && (
+                                    <span className="ml-auto text-xs text-muted-foreground">same</span>
+                                  )}
+                                </DropdownMenuItem>
+                              ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      {entry.status === "COMPLETE" && (
+                        <Button
+                          onClick={() => downloadFile(entry)}
+                          disabled={downloadingFiles[entry.jobId]}
+                          size="sm"
+                          className="shadow-sm"
+                          aria-label={`Download ${entry.outputFilename || entry.inputFilename}`}
+                        >
+                          {downloadingFiles[entry.jobId] ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Download className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                      {!entry.downloadUrl && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeConversion(entry.jobId)}
+                          aria-label={`Remove ${entry.inputFilename} from history`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </CardContent>
+
+      {bulkDownloadSources && (
+        <BulkDownloadDialog
+          sources={bulkDownloadSources}
+          onClose={() => {
+            setBulkDownloadSources(null)
+            setSelection(new Set())
+          }}
+        />
+      )}
+    </Card>
+  )
+}
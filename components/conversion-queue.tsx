@@ -16,14 +16,49 @@ import {
   Cog,
   CheckCircle2,
   AlertCircle,
+  Eye,
+  Sparkles,
+  Scissors,
+  Combine,
+  Tags,
+  FolderDown,
+  GripVertical,
+  Pause,
+  Play,
+  RotateCcw,
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { motion } from "framer-motion"
-import { useState, useEffect, useRef, useCallback } from "react"
-import type { PendingUpload, AdvancedOptionsType } from "./manga-converter"
-import { fetchWithLicense } from "@/lib/utils"
+import { useState, useEffect, useMemo } from "react"
+import type { PendingUpload } from "./manga-converter"
+import type { AdvancedOptionsType } from "@/lib/advancedOptions"
+import { ensureSessionKey } from "@/lib/utils"
+import { isApiError } from "@/lib/apiClient"
+import { saveConvertedFile } from "@/lib/downloadClient"
+import { convertedFileSource, type BulkDownloadSource } from "@/lib/bulkDownload"
 import { log, logError } from "@/lib/logger"
 import { toast } from "sonner"
+import { FilePreview } from "./file-preview"
+import { SplitVolumeDialog } from "./split-volume-dialog"
+import {
+  FileOptionsDialog,
+  describeOption,
+  getChangedOptions,
+  OPTION_LABELS,
+  type FileOverrides,
+} from "./file-options-dialog"
+import { Checkbox } from "@/components/ui/checkbox"
+import { canEditVolume, type SplitOptions } from "@/lib/volumeTools"
+import { MetadataDialog } from "./metadata-dialog"
+import { BulkDownloadDialog } from "./bulk-download-dialog"
+import { UploadSpeedLimit } from "./upload-speed-limit"
+import { useUploadScheduler } from "@/hooks/use-upload-scheduler"
+import { useJobEtas } from "@/hooks/use-job-etas"
+import type { JobObservation } from "@/lib/etaEngine"
+import { FAILURE_LABELS, MAX_AUTO_RETRIES, retryPlanFor, type RetryPlan } from "@/lib/jobFailure"
+import { isActiveJobState, type JobState } from "@/lib/jobState"
+import { uploadScheduler } from "@/lib/uploadScheduler"
+import type { BookMetadata } from "@/lib/bookMetadata"
 // Removed Tooltip usage on queue action buttons to avoid ref update loop
 
 interface ConversionQueueProps {
@@ -40,13 +75,32 @@ interface ConversionQueueProps {
   dismissingJobs?: Set<string>
   cancellingJobs?: Set<string>
   isUploaded?: boolean
-  currentStatus?: string
+  currentStatus?: JobState
   deviceProfiles?: Record<string, string>
   onAddMoreFiles?: () => void
   onNeedsConfiguration?: () => void
   onOpenSidebar?: () => void
   onStartConversion?: () => void
   isReadyToConvert?: () => boolean
+  onReuseDownload?: (file: PendingUpload) => void
+  onRetryJob?: (file: PendingUpload, plan: RetryPlan) => void
+  onMergeFiles?: (files: PendingUpload[]) => void
+  onSplitFile?: (file: PendingUpload, options: SplitOptions) => void
+  onUpdateFileOverrides?: (file: PendingUpload, overrides: FileOverrides) => void
+  onUpdateMetadata?: (updates: { file: PendingUpload; metadata: BookMetadata }[]) => void
+}
+
+// What the ETA engine needs to know about a queue item
+function toEtaObservation(file: PendingUpload): JobObservation {
+  return {
+    status: file.status,
+    fileSize: file.size,
+    deviceProfile: file.deviceProfileOverride || file.deviceProfile,
+    uploadedBytes: file.upload_progress?.uploaded_bytes || ((file.upload_progress?.percentage ?? 0) / 100) * file.size,
+    queuePosition: file.queue_position,
+    workerDownloadSpeedMbps: file.worker_download_speed_mbps,
+    processing: file.processing_progress,
+  }
 }
 
 export function ConversionQueue({
@@ -70,6 +124,12 @@ export function ConversionQueue({
   onOpenSidebar,
   onStartConversion,
   isReadyToConvert,
+  onReuseDownload,
+  onRetryJob,
+  onMergeFiles,
+  onSplitFile,
+  onUpdateFileOverrides,
+  onUpdateMetadata,
 }: ConversionQueueProps) {
   // Items are now directly used from pendingUploads prop instead of maintaining duplicate state
   const items = pendingUploads
@@ -81,385 +141,31 @@ export function ConversionQueue({
   }, [])
 
   const [downloadingFiles, setDownloadingFiles] = useState<Record<string, boolean>>({})
-  const [jobUploadEtas, setJobUploadEtas] = useState<Map<string, number>>(new Map())
-  const [jobUploadSpeeds, setJobUploadSpeeds] = useState<Map<string, number>>(new Map())
-  const [jobSpeedHistories, setJobSpeedHistories] = useState<Map<string, number[]>>(new Map())
-  const [jobLastSpeedEmit, setJobLastSpeedEmit] = useState<Map<string, number>>(new Map())
-  const [jobUploadStartTimes, setJobUploadStartTimes] = useState<Map<string, number>>(new Map())
-  const [jobLastUploadProgress, setJobLastUploadProgress] = useState<Map<string, number>>(new Map())
-  const [jobLastUploadTime, setJobLastUploadTime] = useState<Map<string, number>>(new Map())
-  // PROCESSING ETA comes from backend; no local countdown
-  const [uploadEta, setUploadEta] = useState<number | undefined>(undefined)
-  const [displayedUploadRemainingSec, setDisplayedUploadRemainingSec] = useState<number | null>(null)
-  const [lastUploadProgress, setLastUploadProgress] = useState<number>(0)
-  const [lastUploadTime, setLastUploadTime] = useState<number>(Date.now())
-  const [uploadSpeed, setUploadSpeed] = useState<number>(0) // bytes per second
-  const [uploadStartTime, setUploadStartTime] = useState<number>(0)
-  const [lastEtaUpdateTime, setLastEtaUpdateTime] = useState<number>(0)
-  const [speedSampleCount, setSpeedSampleCount] = useState<number>(0)
-  const uploadJobIdRef = useRef<string>("unknown")
-  const lastLoggedUploadRemainingRef = useRef<number | null>(null)
-
-  const SPEED_EMIT_INTERVAL_MS = 5000
-  const SPEED_MEDIAN_WINDOW = Number.parseInt(process.env.NEXT_PUBLIC_UPLOAD_SPEED_WINDOW || "8", 10)
-  const median = (arr: number[]) => {
-    if (arr.length === 0) return 0
-    const sorted = [...arr].sort((a, b) => a - b)
-    const mid = Math.floor(sorted.length / 2)
-    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
-  }
-
-  // Client-side PROCESSING<bos> ticker (based on backend-provided ETA at start)
-  const [processingStartTime, setProcessingStartTime] = useState<number | null>(null)
-  const [processingEtaSec, setProcessingEtaSec] = useState<number | null>(null)
-  const [clientProcessingProgress, setClientProcessingProgress] = useState<number>(0)
-  const [displayedRemainingSec, setDisplayedRemainingSec] = useState<number | null>(null)
-  // Logging refs for 10% progress steps and ETA second decrements
-  const lastLoggedProcessingTenthRef = useRef<number | null>(null)
-  const lastLoggedRemainingSecRef = useRef<number | null>(null)
-  const processingJobIdRef = useRef<string>("unknown")
-
-  // Refs to track last logged progress percentage for each job stage (to log only at 10% intervals)
-  // No queued/progress logs: handled by backend
-
-  // Removed useEffect for items state synchronization:
-  // useEffect(() => {
-  //   if (JSON.stringify(items) !== JSON.stringify(pendingUploads)) {
-  //     setItems(pendingUploads)
-  //   }
-  // }, [pendingUploads])
-
-  // No QUEUED ETA: we intentionally do not compute or display ETA while QUEUED
-
-  // No local remaining time state; rely on backend
-
-  // No QUEUED countdown: progress remains at 0% until PROCESSING
-
-  // No PROCESSING countdown; backend provides remaining_seconds
-
-  // Initialize client-side PROCESSING tickers when backend ETA is available
-  useEffect(() => {
-    const processingFile = pendingUploads.find((f) => f.status === "PROCESSING" && f.processing_progress)
-    const pp = processingFile?.processing_progress
-    if (pp?.projected_eta && pp.projected_eta > 0) {
-      // Initialize only once per processing phase to avoid Date.now()-driven loops
-      if (processingStartTime == null) {
-        const baseElapsed = pp.elapsed_seconds ?? 0
-        const startMs = Date.now() - baseElapsed * 1000
-        setProcessingStartTime(startMs)
-        setProcessingEtaSec(pp.projected_eta)
-        // Start from backend-progress if provided
-        const initialProgress =
-          pp.progress_percent != null
-            ? Math.floor(Math.max(0, Math.min(99, pp.progress_percent)))
-            : Math.floor(Math.max(0, Math.min(99, (baseElapsed / pp.projected_eta) * 100)))
-        setClientProcessingProgress(initialProgress)
-        const initialRemaining =
-          pp.remaining_seconds != null ? pp.remaining_seconds : Math.max(0, Math.ceil(pp.projected_eta - baseElapsed))
-        setDisplayedRemainingSec(initialRemaining)
-        // Track job id for logging
-        const jId = (processingFile as any)?.jobId || (processingFile as any)?.job_id
-        processingJobIdRef.current = jId || "unknown"
-        // Reset logging refs when (re)initializing ticker
-        lastLoggedProcessingTenthRef.current = null
-        lastLoggedRemainingSecRef.current = null
-      }
-    } else {
-      setProcessingStartTime(null)
-      setProcessingEtaSec(null)
-      setClientProcessingProgress(0)
-      setDisplayedRemainingSec(null)
-      processingJobIdRef.current = "unknown"
-      lastLoggedProcessingTenthRef.current = null
-      lastLoggedRemainingSecRef.current = null
-    }
-  }, [pendingUploads, processingStartTime])
-
-  // Progress ticker: update smoothly every 100ms for smooth animation
-  useEffect(() => {
-    if (processingStartTime && processingEtaSec && processingEtaSec > 0) {
-      const interval = setInterval(() => {
-        const elapsed = (Date.now() - processingStartTime) / 1000
-        const progress = (elapsed / processingEtaSec) * 100 // Keep fractional for smooth rendering
-        const next = Math.max(0, Math.min(99, progress))
-        setClientProcessingProgress((prev) => {
-          const value = Math.max(prev, next)
-          // Log on every 10% boundary crossed (10,20,...,90)
-          const currentTenth = Math.floor(value / 10) * 10
-          const lastTenth = lastLoggedProcessingTenthRef.current ?? -1
-          if (value > 0 && currentTenth !== lastTenth && currentTenth >= 10 && currentTenth <= 90) {
-            lastLoggedProcessingTenthRef.current = currentTenth
-            const jobId = processingJobIdRef.current
-            const remaining = displayedRemainingSec ?? Math.max(0, Math.ceil(processingEtaSec - elapsed))
-            log(`[UI] Converting progress (ticker): ${currentTenth}%`, {
-              progress_percent: currentTenth,
-              elapsed_seconds: Math.floor(elapsed),
-              remaining_seconds: Math.floor(remaining),
-              projected_eta: processingEtaSec,
-              job_id: jobId,
-            })
-          }
-          return value
-        })
-      }, 100) // Update every 100ms for smooth animation
-      return () => clearInterval(interval)
-    }
-  }, [processingStartTime, processingEtaSec])
-
-  // Remaining time ticker: decrement 1s each second
-  useEffect(() => {
-    if (processingStartTime) {
-      const interval = setInterval(() => {
-        setDisplayedRemainingSec((prev) => {
-          if (prev == null) return prev
-          const next = Math.max(0, prev - 1)
-          // Log each second decremented
-          const last = lastLoggedRemainingSecRef.current
-          if (last == null || next !== last) {
-            lastLoggedRemainingSecRef.current = next
-            const jobId = processingJobIdRef.current
-            log(`[UI] ETA tick: ${next}s remaining`, {
-              remaining_seconds: next,
-              job_id: jobId,
-            })
-          }
-          return next
-        })
-      }, 1000)
-      return () => clearInterval(interval)
-    }
-  }, [processingStartTime])
-
-  // Reset when status changes
-  useEffect(() => {
-    if (currentStatus === "COMPLETE") {
-      setUploadEta(undefined)
-      setLastUploadProgress(0)
-    }
-
-    // Reset PROCESSING-specific state when leaving PROCESSING
-    // No PROCESSING-specific local state to reset
-
-    // No QUEUED-specific state to reset
-
-    // Reset UPLOADING-specific state when leaving UPLOADING
-    if (currentStatus !== "UPLOADING") {
-      setUploadEta(undefined)
-      setLastUploadProgress(0)
-      setLastUploadTime(Date.now())
-      setSpeedSampleCount(0)
-    }
-  }, [currentStatus])
-
-  // Calculate upload ETA based on real-time upload speed (bytes per second)
-  useEffect(() => {
-    // Check both global status and per-file status
-    const uploadingFile = pendingUploads.find((f) => f.status === "UPLOADING")
-    const isUploading = currentStatus === "UPLOADING" || uploadingFile !== undefined
-
-    if (
-      isUploading &&
-      uploadingFile?.upload_progress?.percentage !== undefined &&
-      uploadingFile?.upload_progress?.percentage >= 0
-    ) {
-      const now = Date.now()
-      const jobId = uploadingFile.jobId || uploadingFile.job_id || "unknown"
-      const fileSize = uploadingFile.size
-      const uploadedBytes =
-        uploadingFile.upload_progress.uploaded_bytes || (uploadingFile.upload_progress.percentage / 100) * fileSize
-      const currentProgress = uploadingFile.upload_progress.percentage
-
-      // Initialize upload start time and progress tracking for this job
-      if (!jobUploadStartTimes.has(jobId) || jobUploadStartTimes.get(jobId) === 0) {
-        setJobUploadStartTimes((prev) => new Map(prev).set(jobId, now))
-        setJobLastUploadProgress((prev) => new Map(prev).set(jobId, currentProgress))
-        setJobLastUploadTime((prev) => new Map(prev).set(jobId, now))
-        // Resetting global trackers too for consistency if this is the primary uploader
-        if (uploadingFile === pendingUploads[0]) {
-          setUploadStartTime(now)
-          setLastUploadProgress(currentProgress)
-          setLastUploadTime(now)
-          setSpeedSampleCount(0)
-        }
-        return
-      }
-
-      const lastProgress = jobLastUploadProgress.get(jobId) || 0
-      const lastTime = jobLastUploadTime.get(jobId) || now
-      const progressDelta = currentProgress - lastProgress
-      const timeDelta = (now - lastTime) / 1000 // Convert to seconds
-
-      // Only update if we have meaningful progress (avoid noise from rapid updates)
-      if (progressDelta > 0.1 && timeDelta > 0.2) {
-        // Calculate instantaneous speed (bytes uploaded in this interval / time elapsed)
-        const bytesDelta = uploadedBytes - (lastProgress / 100) * fileSize
-        const instantSpeed = bytesDelta / timeDelta
-
-        // Use job-specific speed, fallback to global if necessary
-        // Accumulate instantaneous speed measurements for median calculation
-        setJobSpeedHistories((prev) => {
-          const next = new Map(prev)
-          const arr = next.get(jobId) ? [...(next.get(jobId) as number[])] : []
-          arr.push(instantSpeed)
-          while (arr.length > SPEED_MEDIAN_WINDOW) arr.shift()
-          next.set(jobId, arr)
-          return next
-        })
-        setJobLastUploadProgress((prev) => new Map(prev).set(jobId, currentProgress))
-        setJobLastUploadTime((prev) => new Map(prev).set(jobId, now))
-
-        // Also update global trackers if this is the primary uploader
-        if (uploadingFile === pendingUploads[0]) {
-          // Keep a rough instantaneous reading internally; UI uses median/5s cadence
-          setUploadSpeed(instantSpeed)
-          setLastUploadProgress(currentProgress)
-          setLastUploadTime(now)
-          setSpeedSampleCount((prev) => prev + 1)
-        }
-
-        // Speed and ETA publication handled by 5s cadence below
-      }
-    } else if (!isUploading) {
-      // Reset upload tracking when not uploading
-      setUploadStartTime(0)
-      setUploadSpeed(0)
-      setUploadEta(undefined)
-      setDisplayedUploadRemainingSec(null)
-      setSpeedSampleCount(0)
-      setJobUploadEtas(new Map())
-      setJobUploadSpeeds(new Map())
-      setJobUploadStartTimes(new Map())
-      setJobLastUploadProgress(new Map())
-      setJobLastUploadTime(new Map())
-    }
-  }, [pendingUploads, currentStatus])
-
-  // Keep displayed upload ETA in sync when a fresh estimate arrives
-  useEffect(() => {
-    if (uploadEta && uploadEta > 0) {
-      setDisplayedUploadRemainingSec(uploadEta)
-    }
-  }, [uploadEta])
-
-  // Progressive upload ETA countdown (decrement by 1s each second)
-  useEffect(() => {
-    const uploadingFile = pendingUploads.find((f) => f.status === "UPLOADING")
-    const isUploading = currentStatus === "UPLOADING" || uploadingFile !== undefined
-    if (isUploading && displayedUploadRemainingSec != null) {
-      const interval = setInterval(() => {
-        setDisplayedUploadRemainingSec((prev) => {
-          if (prev == null) return prev
-          const next = Math.max(0, prev - 1)
-          // Log each decrement
-          if (lastLoggedUploadRemainingRef.current == null || next !== lastLoggedUploadRemainingRef.current) {
-            lastLoggedUploadRemainingRef.current = next
-            const jobId = uploadJobIdRef.current // Use global ref for now
-            log(`[UI] Upload ETA tick: ${next}s remaining`, {
-              remaining_seconds: next,
-              job_id: jobId,
-            })
-          }
-          return next
-        })
-      }, 1000)
-      return () => clearInterval(interval)
-    }
-  }, [currentStatus, pendingUploads])
-
-  useEffect(() => {
-    const now = Date.now()
-
-    pendingUploads.forEach((file) => {
-      const jobId = file.jobId || ""
-      const uploadProgress = file.upload_progress?.percentage || 0
-      const uploadProgressConfirmed = (file.upload_progress as any)?.confirmed_percentage || uploadProgress
-      const eta = jobUploadEtas.get(jobId)
-      const speed = jobUploadSpeeds.get(jobId) || 0
-
-      // Initialize tracking for new uploads
-      if (uploadProgress === 0 && !jobUploadStartTimes.has(jobId)) {
-        setJobUploadStartTimes((prev) => new Map(prev).set(jobId, now))
-        setJobLastUploadProgress((prev) => new Map(prev).set(jobId, 0))
-        setJobLastUploadTime((prev) => new Map(prev).set(jobId, now))
-        setJobLastSpeedEmit((prev) => new Map(prev).set(jobId, 0))
-        setJobSpeedHistories((prev) => new Map(prev).set(jobId, []))
-        return
-      }
-
-      // Calculate instantaneous speed when progress changes
-      const lastProgress = jobLastUploadProgress.get(jobId) || 0
-      const lastTime = jobLastUploadTime.get(jobId) || now
-
-      if (uploadProgress > lastProgress && uploadProgress < 100) {
-        const timeDiff = (now - lastTime) / 1000 // seconds
-        const progressDiff = uploadProgress - lastProgress
-
-        if (timeDiff > 0 && progressDiff > 0) {
-          const totalBytes = file.size // Total size of the file
-          const uploadedBytes = (progressDiff / 100) * totalBytes // Bytes uploaded in this interval
-          const instSpeed = uploadedBytes / timeDiff
-
-          // Append sample to history
-          setJobSpeedHistories((prev) => {
-            const next = new Map(prev)
-            const arr = next.get(jobId) ? [...(next.get(jobId) as number[])] : []
-            arr.push(instSpeed)
-            while (arr.length > SPEED_MEDIAN_WINDOW) arr.shift()
-            next.set(jobId, arr)
-            return next
-          })
-
-          // Update last progress/time
-          setJobLastUploadProgress((prev) => new Map(prev).set(jobId, uploadProgress))
-          setJobLastUploadTime((prev) => new Map(prev).set(jobId, now))
-
-          // Publish every 5s using median of recent samples
-          const lastEmit = jobLastSpeedEmit.get(jobId) || 0
-          if (now - lastEmit >= SPEED_EMIT_INTERVAL_MS) {
-            const hist = jobSpeedHistories.get(jobId) || []
-            const med = median(hist)
-            setJobUploadSpeeds((prev) => new Map(prev).set(jobId, med))
-
-            const remainingBytes = totalBytes - uploadedBytes
-            const etaSeconds = med > 0 ? remainingBytes / med : 0
-            if (etaSeconds > 0 && etaSeconds < 3600) {
-              setJobUploadEtas((prev) => new Map(prev).set(jobId, Math.ceil(etaSeconds)))
-            }
-
-            setJobLastSpeedEmit((prev) => new Map(prev).set(jobId, now))
-
-            // Persist latest median upload speed for dynamic part sizing in future uploads
-            try {
-              if (med > 0) {
-                localStorage.setItem("upload_speed_bps", String(Math.floor(med)))
-              }
-            } catch {}
-          }
-        }
-      }
-    })
-  }, [pendingUploads, jobLastSpeedEmit, jobSpeedHistories])
-
-  const getJobUploadInfo = useCallback(
-    (file: PendingUpload) => {
-      const jobId = file.jobId || ""
-      const uploadProgress = file.upload_progress?.percentage || 0
-      const uploadProgressConfirmed = (file.upload_progress as any)?.confirmed_percentage || uploadProgress
-      const eta = jobUploadEtas.get(jobId)
-      const speed = jobUploadSpeeds.get(jobId) || 0
-
-      return {
-        uploadProgress,
-        uploadProgressConfirmed,
-        eta,
-        speed,
-      }
-    },
-    [jobUploadEtas, jobUploadSpeeds],
+  const [previewFile, setPreviewFile] = useState<File | null>(null)
+  const [splitTarget, setSplitTarget] = useState<PendingUpload | null>(null)
+  const [optionsTarget, setOptionsTarget] = useState<PendingUpload | null>(null)
+  const [metadataTargets, setMetadataTargets] = useState<PendingUpload[] | null>(null)
+  const [bulkDownloadSources, setBulkDownloadSources] = useState<BulkDownloadSource[] | null>(null)
+  // Files ticked for bulk actions, kept by File identity so reordering doesn't lose them
+  const [selection, setSelection] = useState<Set<File>>(new Set())
+  // Drag-to-reorder: the row being dragged and the row it would land on
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  const scheduler = useUploadScheduler()
+  // Per-job ETAs for every running job (see etaEngine), re-read several times a second
+  const etaObservations = useMemo(
+    () =>
+      pendingUploads.flatMap((file) =>
+        file.jobId && isActiveJobState(file.status) ? [{ jobId: file.jobId, observation: toEtaObservation(file) }] : [],
+      ),
+    [pendingUploads],
   )
+  const etas = useJobEtas(etaObservations, {
+    speedWindow: Number.parseInt(process.env.NEXT_PUBLIC_UPLOAD_SPEED_WINDOW || "8", 10),
+  })
 
   const isJobRunning = (file: PendingUpload) => {
-    return file.status === "UPLOADING" || file.status === "QUEUED" || file.status === "PROCESSING"
+    return isActiveJobState(file.status)
   }
 
   const hasActiveJobs = () => {
@@ -648,7 +354,7 @@ export function ConversionQueue({
 
     if (status === "QUEUED") {
       // WebSocket emits QUEUED after upload completes and before processing
-      // Show as queued without progress - worker will pick it up when ready
+      // Show as queued without progress - the expected wait is shown next to it (see formatQueueWait)
       return {
         stage: 0.5, // queued at converting position
         progress: 0, // No progress shown during queue wait
@@ -665,36 +371,33 @@ export function ConversionQueue({
       const uploadPct = file.upload_progress?.percentage || 0 // Use per-file upload progress
       const safeUploadPct = Math.min(100, uploadPct) // Only enforce maximum, allow 0%
       let label = `Uploading - ${Math.round(safeUploadPct)}%`
-      const currentJobSpeed = jobUploadSpeeds.get(file.jobId || file.job_id || "") || 0
-      if (currentJobSpeed > 0) {
-        label += ` (@${formatUploadSpeed(currentJobSpeed)})`
+      const estimate = etas.estimate(file.jobId)
+      if (estimate?.uploadSpeedBps) {
+        label += ` (@${formatUploadSpeed(estimate.uploadSpeedBps)})`
       }
-      const currentJobEta = jobUploadEtas.get(file.jobId || file.job_id || "")
       return {
         stage: 0,
         progress: safeUploadPct,
         label,
-        eta: currentJobEta ?? null,
+        eta: estimate?.stageRemainingSec ?? null,
         isError: false,
       }
     }
 
     // Stage 1: Converting
     if (status === "PROCESSING") {
-      // Check if this file is the one currently being processed with active ticker
-      const isActiveProcessingFile = file.processing_progress && processingStartTime && processingEtaSec
-
-      // Use client-side ticker if available (continuous updates)
-      if (isActiveProcessingFile) {
+      // Backend progress carried forward between updates, so every processing job moves smoothly
+      const estimate = etas.estimate(file.jobId)
+      if (estimate?.stage === "processing") {
         return {
           stage: 1,
-          progress: Math.max(0, Math.min(99, clientProcessingProgress)),
+          progress: estimate.stageProgress,
           label: "Converting",
-          eta: displayedRemainingSec ?? null,
+          eta: estimate.stageRemainingSec,
           isError: false,
         }
       }
-      // Fallback to backend-provided processing_progress if ticker not initialized
+      // Fallback to backend-provided processing_progress until the engine has seen the job
       if (file.processing_progress) {
         const { progress_percent, remaining_seconds } = file.processing_progress
         const safeProgress = Math.max(0, Math.min(99, progress_percent || 0))
@@ -753,8 +456,25 @@ export function ConversionQueue({
     }
   }
 
+  // "#3 · 4m–7m" while queued: place in line and the likely wait, from how long recent conversions took
+  const formatQueueWait = (file: PendingUpload) => {
+    const estimate = etas.estimate(file.jobId)
+    if (estimate?.stage === "worker_download") return "Starting"
+
+    const parts: string[] = []
+    if (file.queue_position) parts.push(`#${file.queue_position}`)
+    const range = estimate?.stage === "queued" ? estimate.stageRange : undefined
+    if (range && range.high >= 1) {
+      const low = formatTime(range.low)
+      const high = formatTime(range.high)
+      parts.push(low === high ? `~${high}` : `${low}–${high}`)
+    }
+    return parts.length > 0 ? parts.join(" · ") : null
+  }
+
   const renderTimeline = (file: PendingUpload, index: number, actionButtons?: React.ReactNode) => {
     const { stage, progress, label, eta, isError } = getTimelineStage(file, index)
+    const queueWait = file.status === "QUEUED" ? formatQueueWait(file) : null
 
     const stages = [
       { icon: Upload, label: "Upload", shortLabel: "Upload", active: stage >= 0 },
@@ -842,6 +562,9 @@ export function ConversionQueue({
                         >
                           {isQueued && i === displayStage ? "Queued" : s.shortLabel}
                         </span>
+                        {isQueued && i === displayStage && queueWait && (
+                          <span className="text-[10px] text-muted-foreground block">{queueWait}</span>
+                        )}
                       </div>
                     </div>
                   )
@@ -908,7 +631,7 @@ export function ConversionQueue({
                       })()}
                     </span>
                     {(() => {
-                      const speed = jobUploadSpeeds.get(file.jobId || file.job_id || "") ?? 0
+                      const speed = etas.estimate(file.jobId)?.uploadSpeedBps ?? 0
                       return speed > 0 ? <span className="hidden xs:inline">{formatUploadSpeed(speed)}</span> : null
                     })()}
                   </>
@@ -988,6 +711,9 @@ export function ConversionQueue({
                         >
                           {isQueued && i === displayStage ? "Queued" : s.label}
                         </span>
+                        {isQueued && i === displayStage && queueWait && (
+                          <div className="text-[10px] text-muted-foreground mt-0.5">{queueWait}</div>
+                        )}
 
                         {isCurrentStage && !isQueued && (
                           <div className="text-[10px] text-muted-foreground mt-0.5">
@@ -1056,7 +782,7 @@ export function ConversionQueue({
                           })()}
                         </span>
                         {(() => {
-                          const speed = jobUploadSpeeds.get(file.jobId || file.job_id || "") ?? 0
+                          const speed = etas.estimate(file.jobId)?.uploadSpeedBps ?? 0
                           return speed > 0 ? <span className="hidden xs:inline">{formatUploadSpeed(speed)}</span> : null
                         })()}
                       </>
@@ -1084,10 +810,12 @@ export function ConversionQueue({
   const getProgressInfo = (file: PendingUpload, index: number) => {
     // Check file's own status property first (from session update)
     if (file.status === "PROCESSING") {
-      if (processingStartTime && processingEtaSec) {
+      const estimate = etas.estimate(file.jobId)
+      if (estimate?.stage === "processing") {
         return {
-          progress: Math.max(0, Math.min(100, clientProcessingProgress)),
-          label: displayedRemainingSec != null ? `${formatTime(displayedRemainingSec)} remaining` : "Converting",
+          progress: estimate.stageProgress,
+          label:
+            estimate.stageRemainingSec != null ? `${formatTime(estimate.stageRemainingSec)} remaining` : "Converting",
           showProgress: true,
         }
       }
@@ -1107,7 +835,9 @@ export function ConversionQueue({
       const safePercentage = Math.max(0, Math.min(100, percentage))
       let uploadLabel = `Uploading - ${Math.round(safePercentage)}%`
 
-      const { uploadProgressConfirmed, eta, speed } = getJobUploadInfo(file)
+      const estimate = etas.estimate(file.jobId)
+      const speed = estimate?.uploadSpeedBps ?? 0
+      const eta = estimate?.stageRemainingSec
 
       // Add ETA with speed in parentheses
       if (speed > 0 && eta) {
@@ -1125,9 +855,10 @@ export function ConversionQueue({
 
     if (file.status === "QUEUED") {
       // No progress shown - just waiting for worker to pick up the job
+      const queueWait = formatQueueWait(file)
       return {
         progress: 0,
-        label: "Queued",
+        label: queueWait ? `Queued · ${queueWait}` : "Queued",
         showProgress: false,
       }
     }
@@ -1146,6 +877,9 @@ export function ConversionQueue({
         let uploadLabel = `Uploading - ${Math.round(safeUploadProgress)}%`
 
         // Add ETA with speed in parentheses
+        const estimate = etas.estimate(file.jobId)
+        const uploadSpeed = estimate?.uploadSpeedBps ?? 0
+        const uploadEta = estimate?.stageRemainingSec
         if (uploadSpeed > 0 && uploadEta) {
           uploadLabel += ` • ${formatTime(uploadEta)} remaining (@${formatUploadSpeed(uploadSpeed)})`
         } else if (uploadSpeed > 0) {
@@ -1187,18 +921,13 @@ export function ConversionQueue({
     try {
       setDownloadingFiles((prev) => ({ ...prev, [file.name]: true }))
 
-      const response = await fetchWithLicense(`/api/download/${file.downloadId}`)
-      if (!response.ok) {
-        const errText = await response.text()
-        throw new Error(errText || "Failed to get download URL")
-      }
-      const data = await response.json()
-      if (!data.signedUrl) {
-        throw new Error(data.error || "No download URL returned")
-      }
-      window.location.href = data.signedUrl
-      toast.success(`Downloading ${file.convertedName || file.name}`)
+      const saved = await saveConvertedFile(await ensureSessionKey(), file.downloadId, {
+        fallbackFilename: file.convertedName || file.name,
+      })
+      toast.success(`Downloaded ${saved.filename}`)
     } catch (error) {
+      // Closed the save dialog
+      if (isApiError(error, "ABORTED")) return
       logError("Download error", file.downloadId, { error: error.message, fileName: file.name })
       toast.error("Download failed", {
         description: error instanceof Error ? error.message : "Failed to download file",
@@ -1210,6 +939,103 @@ export function ConversionQueue({
     }
   }
 
+  // Merge/split only applies to CBZ/ZIP files that haven't been uploaded yet
+  const isVolumeEditable = (file: PendingUpload) =>
+    !isConverting && !file.jobId && !file.isConverted && file.file.size > 0 && canEditVolume(file.file)
+
+  // Metadata can be edited until the file is uploaded
+  const isEditableBeforeUpload = (file: PendingUpload) =>
+    !isConverting &&
+    !file.jobId &&
+    !file.isConverted &&
+    (!!onUpdateMetadata || (!!onMergeFiles && isVolumeEditable(file)))
+
+  const isDownloadable = (file: PendingUpload) => !!file.isConverted && !!file.downloadId
+
+  // Pending files are selected for metadata/merge, converted ones for a bulk download
+  const isSelectable = (file: PendingUpload) => isEditableBeforeUpload(file) || isDownloadable(file)
+
+  // In queue order, which is the chapter order of a merged volume and the numbering order for metadata
+  const selectedFiles = items.filter((file) => selection.has(file.file) && isSelectable(file))
+  const selectedPending = selectedFiles.filter(isEditableBeforeUpload)
+  const selectedDownloads = selectedFiles.filter(isDownloadable)
+  const downloadableFiles = items.filter(isDownloadable)
+  const canMergeSelection = selectedPending.length >= 2 && selectedPending.every(isVolumeEditable)
+
+  // Queue order is also upload priority (see uploadScheduler), so moving a file up uploads it first
+  const canReorder = !!onReorder && items.length > 1
+  const moveItem = (from: number, to: number) => {
+    if (!onReorder || from === to || to < 0 || to >= items.length) return
+    const next = [...items]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    onReorder(next)
+  }
+
+  const openBulkDownload = async (files: PendingUpload[]) => {
+    try {
+      const sessionKey = await ensureSessionKey()
+      setBulkDownloadSources(
+        files.map((file) =>
+          convertedFileSource(sessionKey, file.downloadId!, file.convertedName || file.name, file.metadata?.series),
+        ),
+      )
+    } catch (error) {
+      logError("Bulk download error", { error })
+      toast.error("Download failed", {
+        description: error instanceof Error ? error.message : "Failed to start the download",
+      })
+    }
+  }
+
+  // "Series v03" style summary of the metadata the output will carry
+  const getMetadataSummary = (file: PendingUpload) => {
+    const { series, volume, title } = file.metadata ?? {}
+    const name = series || title
+    if (!name) return undefined
+    return volume !== undefined ? `${name} v${String(volume).padStart(2, "0")}` : name
+  }
+
+  // Labels for the settings this file doesn't share with the global configuration
+  const getOverrideLabels = (file: PendingUpload) => {
+    const labels: string[] = []
+    if (file.deviceProfileOverride && file.deviceProfileOverride !== selectedProfile) {
+      labels.push(deviceProfiles[file.deviceProfileOverride] || file.deviceProfileOverride)
+    }
+    if (globalAdvancedOptions) {
+      labels.push(...getChangedOptions(file.optionOverrides, globalAdvancedOptions).map((key) => OPTION_LABELS[key]))
+    }
+    return labels
+  }
+
+  // Analyzer suggestions that differ from what the file would currently be converted with
+  const getPendingSuggestions = (file: PendingUpload): Partial<AdvancedOptionsType> => {
+    const suggested = file.contentAnalysis?.suggestedOptions
+    if (!suggested || !globalAdvancedOptions) return {}
+    const effective = { ...globalAdvancedOptions, ...file.optionOverrides }
+    return Object.fromEntries(
+      Object.entries(suggested).filter(([key, value]) => effective[key as keyof AdvancedOptionsType] !== value),
+    )
+  }
+
+  // How a failed job would be retried, given the options it was converted with
+  const getRetryPlan = (file: PendingUpload): RetryPlan | null => {
+    if (!file.failure || !globalAdvancedOptions) return null
+    return retryPlanFor(file.failure.category, { ...globalAdvancedOptions, ...file.optionOverrides })
+  }
+
+  const toggleSelection = (file: PendingUpload, checked: boolean) => {
+    setSelection((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(file.file)
+      } else {
+        next.delete(file.file)
+      }
+      return next
+    })
+  }
+
   return (
     <div className="space-y-3">
       {onAddMoreFiles && onOpenSidebar && onStartConversion && (
@@ -1275,11 +1101,81 @@ export function ConversionQueue({
         </div>
       )}
 
+      {items.some((file) => !file.isConverted) && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-muted-foreground">
+            {etas.batchDoneAt !== null && (
+              <>
+                All files done in about {formatTime(Math.max(0, (etas.batchDoneAt - Date.now()) / 1000))}
+                <span className="hidden sm:inline">
+                  {" "}
+                  (around{" "}
+                  {new Date(etas.batchDoneAt).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })})
+                </span>
+              </>
+            )}
+          </span>
+          <UploadSpeedLimit />
+        </div>
+      )}
+
+      {selectedFiles.length > 0 && (
+        <div className="flex items-center gap-3 rounded-lg border bg-muted/50 px-4 py-2 text-sm">
+          <span className="flex-1">
+            {selectedFiles.length} file{selectedFiles.length !== 1 ? "s" : ""} selected
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setSelection(new Set())}>
+            Clear
+          </Button>
+          {selectedDownloads.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => openBulkDownload(selectedDownloads)}>
+              <FolderDown className="h-4 w-4 mr-1.5" />
+              Download selected
+            </Button>
+          )}
+          {onUpdateMetadata && selectedPending.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setMetadataTargets(selectedPending)}>
+              <Tags className="h-4 w-4 mr-1.5" />
+              Edit metadata
+            </Button>
+          )}
+          {onMergeFiles && selectedPending.length > 0 && (
+            <Button
+              size="sm"
+              disabled={!canMergeSelection}
+              title={canMergeSelection ? undefined : "Select two or more CBZ/ZIP files to merge"}
+              onClick={() => {
+                onMergeFiles(selectedPending)
+                setSelection(new Set())
+              }}
+            >
+              <Combine className="h-4 w-4 mr-1.5" />
+              Merge selected
+            </Button>
+          )}
+        </div>
+      )}
+
+      {selectedFiles.length === 0 && downloadableFiles.length >= 2 && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => openBulkDownload(downloadableFiles)}>
+            <FolderDown className="h-4 w-4 mr-1.5" />
+            Download all ({downloadableFiles.length}) as ZIP
+          </Button>
+        </div>
+      )}
+
       {items.map((file, index) => {
         const progressInfo = getProgressInfo(file, index)
         const isActive = isConverting && index === 0
         const jobRunning = isJobRunning(file)
         const { stage, progress, label, eta, isError } = getTimelineStage(file, index)
+        // Same content queued earlier in the list (only relevant before upload)
+        const queuedDuplicate =
+          file.contentHash && !file.jobId && !file.isConverted
+            ? items.slice(0, index).find((other) => other.contentHash === file.contentHash && !other.error)
+            : undefined
+        const retryPlan = file.jobId && onRetryJob ? getRetryPlan(file) : null
 
         return (
           <motion.div
@@ -1287,6 +1183,18 @@ export function ConversionQueue({
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: index * 0.05 }}
+            onDragOver={(e: React.DragEvent) => {
+              if (dragIndex === null) return
+              e.preventDefault()
+              setDropIndex(index)
+            }}
+            onDrop={(e: React.DragEvent) => {
+              e.preventDefault()
+              if (dragIndex !== null) moveItem(dragIndex, index)
+              setDragIndex(null)
+              setDropIndex(null)
+            }}
+            className={dropIndex === index && dragIndex !== index ? "rounded-xl ring-2 ring-primary/50" : undefined}
           >
             <Card
               className={`
@@ -1304,6 +1212,39 @@ export function ConversionQueue({
                 {/* Header: Filename and metadata */}
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex items-center gap-3 flex-1 min-w-0">
+                    {canReorder && (
+                      <button
+                        type="button"
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move"
+                          e.dataTransfer.setData("text/plain", file.name)
+                          setDragIndex(index)
+                        }}
+                        onDragEnd={() => {
+                          setDragIndex(null)
+                          setDropIndex(null)
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+                            e.preventDefault()
+                            moveItem(index, e.key === "ArrowUp" ? index - 1 : index + 1)
+                          }
+                        }}
+                        className="-ml-1 cursor-grab text-muted-foreground/60 hover:text-muted-foreground active:cursor-grabbing"
+                        aria-label={`Move ${file.name} (drag, or use the arrow keys)`}
+                        title="Drag to change the order; files higher up upload first"
+                      >
+                        <GripVertical className="h-4 w-4" />
+                      </button>
+                    )}
+                    {isSelectable(file) && (
+                      <Checkbox
+                        checked={selection.has(file.file)}
+                        onCheckedChange={(checked) => toggleSelection(file, checked === true)}
+                        aria-label={`Select ${file.name}`}
+                      />
+                    )}
                     <div
                       className={`
                       w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0
@@ -1356,6 +1297,42 @@ export function ConversionQueue({
                                 </span>
                               </>
                             )}
+                            {file.validationReport?.archive && (
+                              <>
+                                <span>•</span>
+                                <span className="whitespace-nowrap">
+                                  {file.validationReport.archive.imageCount} images
+                                </span>
+                              </>
+                            )}
+                            {getMetadataSummary(file) && (
+                              <>
+                                <span>•</span>
+                                <span className="whitespace-nowrap truncate max-w-[12rem]" title="Metadata">
+                                  {getMetadataSummary(file)}
+                                </span>
+                              </>
+                            )}
+                            {getOverrideLabels(file).length > 0 && (
+                              <>
+                                <span>•</span>
+                                <Badge
+                                  variant="outline"
+                                  className="h-5 px-1.5 text-[11px] font-normal"
+                                  title={`Differs from global settings: ${getOverrideLabels(file).join(", ")}`}
+                                >
+                                  Custom: {getOverrideLabels(file).join(", ")}
+                                </Badge>
+                              </>
+                            )}
+                            {file.hashProgress !== undefined && (
+                              <>
+                                <span>•</span>
+                                <span className="whitespace-nowrap">
+                                  Checking for duplicates {Math.floor(file.hashProgress)}%
+                                </span>
+                              </>
+                            )}
                           </>
                         )}
                       </div>
@@ -1372,7 +1349,123 @@ export function ConversionQueue({
                 {file.error && (
                   <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/5 rounded-lg p-3">
                     <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
-                    <span>{file.error}</span>
+                    {file.failure ? (
+                      <div className="flex-1 space-y-0.5">
+                        <p className="font-medium">{FAILURE_LABELS[file.failure.category]}</p>
+                        <p>{file.error}</p>
+                        {file.retryAt !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            Retrying automatically (attempt {(file.retryCount ?? 0) + 1} of {MAX_AUTO_RETRIES})
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <span>{file.error}</span>
+                    )}
+                    {retryPlan && (
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => onRetryJob?.(file, retryPlan)}>
+                        <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+                        {Object.keys(retryPlan.options).length > 0
+                          ? `Retry with ${Object.entries(retryPlan.options)
+                              .map(([key, value]) => describeOption(key as keyof AdvancedOptionsType, value))
+                              .join(", ")}`
+                          : file.retryAt !== undefined
+                            ? "Retry now"
+                            : "Retry"}
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {/* Content validation findings (before upload) */}
+                {file.validationReport && !file.jobId && !file.isConverted && (
+                  <>
+                    {file.validationReport.errors.map((issue) => (
+                      <div
+                        key={issue.code}
+                        className="flex items-start gap-2 text-sm text-destructive bg-destructive/5 rounded-lg p-3"
+                      >
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                        <span>{issue.message}</span>
+                      </div>
+                    ))}
+                    {file.validationReport.warnings.map((issue) => (
+                      <div key={issue.code} className="flex items-start gap-2 text-sm bg-muted rounded-lg p-3">
+                        <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                        <span>{issue.message}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
+
+                {/* Content analyzer suggestions (before upload) */}
+                {!file.jobId &&
+                  !file.isConverted &&
+                  file.contentAnalysis &&
+                  onUpdateFileOverrides &&
+                  Object.keys(getPendingSuggestions(file)).length > 0 && (
+                    <div className="flex items-start gap-2 text-sm bg-muted rounded-lg p-3">
+                      <Sparkles className="h-4 w-4 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                      <div className="flex-1 space-y-0.5">
+                        <p>
+                          {file.contentAnalysis.detectedType === "unknown"
+                            ? "Suggested settings"
+                            : `Looks like a ${file.contentAnalysis.detectedType}`}
+                          : {Object.entries(getPendingSuggestions(file))
+                            .map(([key, value]) => describeOption(key as keyof AdvancedOptionsType, value))
+                            .join(", ")}
+                        </p>
+                        {file.contentAnalysis.reasons.map((reason) => (
+                          <p key={reason} className="text-xs text-muted-foreground">
+                            {reason}
+                          </p>
+                        ))}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() =>
+                          onUpdateFileOverrides(file, {
+                            deviceProfileOverride: file.deviceProfileOverride,
+                            optionOverrides: { ...file.optionOverrides, ...getPendingSuggestions(file) },
+                          })
+                        }
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  )}
+
+                {/* Duplicate content warnings */}
+                {queuedDuplicate && (
+                  <div className="flex items-start gap-2 text-sm bg-muted rounded-lg p-3">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                    <span className="flex-1">
+                      Same content as &quot;{queuedDuplicate.name}&quot;, which is already in the queue.
+                    </span>
+                    {onRemoveFile && (
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => onRemoveFile(file)}>
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {!queuedDuplicate && file.convertedDuplicate && !file.isConverted && !file.jobId && (
+                  <div className="flex items-start gap-2 text-sm bg-muted rounded-lg p-3">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                    <span className="flex-1">
+                      This file was already converted with the same device and options
+                      {file.convertedDuplicate.output_filename && (
+                        <> as &quot;{file.convertedDuplicate.output_filename}&quot;</>
+                      )}
+                      .
+                    </span>
+                    {onReuseDownload && (
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => onReuseDownload(file)}>
+                        Use earlier download
+                      </Button>
+                    )}
                   </div>
                 )}
 
@@ -1392,60 +1485,138 @@ export function ConversionQueue({
                         const isButtonDisabled = isDismissing || isAnyCancellationInProgress
 
                         if (file.error || jobRunning) {
+                          const isScheduledUpload =
+                            file.status === "UPLOADING" && !!file.jobId && scheduler.uploads.includes(file.jobId)
+                          const isPaused = !!file.jobId && scheduler.paused.has(file.jobId)
                           return (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => {
-                                if (jobRunning && onCancelJob) {
-                                  log("[v0] Dismiss button clicked (cancelling job):", file.jobId)
-                                  onCancelJob(file)
-                                } else {
-                                  onDismissJob?.(file)
-                                }
-                              }}
-                              disabled={isButtonDisabled}
-                              className={`
-                                h-9 px-3
-                                text-muted-foreground
-                                hover:text-destructive hover:bg-destructive/10
-                                active:bg-destructive/20
-                                transition-colors duration-150
-                                ${isButtonDisabled ? "opacity-60 pointer-events-none" : ""}
-                              `}
-                              aria-label={isDismissing ? "Dismissing..." : isAnyCancellationInProgress ? "Please wait..." : "Dismiss"}
-                              title={isDismissing ? "Dismissing..." : isAnyCancellationInProgress ? "Another cancellation in progress" : "Dismiss"}
-                            >
-                              {isDismissing ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <XCircle className="h-4 w-4" />
+                            <>
+                              {isScheduledUpload && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() =>
+                                    isPaused ? uploadScheduler.resume(file.jobId!) : uploadScheduler.pause(file.jobId!)
+                                  }
+                                  className="h-9 px-3 text-muted-foreground transition-colors duration-150"
+                                  aria-label={isPaused ? "Resume upload" : "Pause upload"}
+                                  title={
+                                    isPaused ? "Resume upload" : "Pause upload (parts already sending finish first)"
+                                  }
+                                >
+                                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                  <span className="hidden sm:inline ml-1.5 text-sm font-medium">
+                                    {isPaused ? "Resume" : "Pause"}
+                                  </span>
+                                </Button>
                               )}
-                              <span className="hidden sm:inline ml-1.5 text-sm font-medium">
-                                {isDismissing ? "Dismissing" : "Dismiss"}
-                              </span>
-                            </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  if (jobRunning && onCancelJob) {
+                                    log("[v0] Dismiss button clicked (cancelling job):", file.jobId)
+                                    onCancelJob(file)
+                                  } else {
+                                    onDismissJob?.(file)
+                                  }
+                                }}
+                                disabled={isButtonDisabled}
+                                className={`
+                                  h-9 px-3
+                                  text-muted-foreground
+                                  hover:text-destructive hover:bg-destructive/10
+                                  active:bg-destructive/20
+                                  transition-colors duration-150
+                                  ${isButtonDisabled ? "opacity-60 pointer-events-none" : ""}
+                                `}
+                                aria-label={isDismissing ? "Dismissing..." : isAnyCancellationInProgress ? "Please wait..." : "Dismiss"}
+                                title={isDismissing ? "Dismissing..." : isAnyCancellationInProgress ? "Another cancellation in progress" : "Dismiss"}
+                              >
+                                {isDismissing ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <XCircle className="h-4 w-4" />
+                                )}
+                                <span className="hidden sm:inline ml-1.5 text-sm font-medium">
+                                  {isDismissing ? "Dismissing" : "Dismiss"}
+                                </span>
+                              </Button>
+                            </>
                           )
                         } else if (!isActive && !jobRunning) {
                           // Not started - use same Dismiss-style button as converting state, but locally remove from queue
                           return (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => onRemoveFile?.(file)}
-                              className="
-                                h-9 px-3
-                                text-muted-foreground
-                                hover:text-destructive hover:bg-destructive/10
-                                active:bg-destructive/20
-                                transition-colors duration-150
-                              "
-                              aria-label="Dismiss"
-                              title="Dismiss"
-                            >
-                              <XCircle className="h-4 w-4" />
-                              <span className="hidden sm:inline ml-1.5 text-sm font-medium">Dismiss</span>
-                            </Button>
+                            <>
+                              {file.file.size > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setPreviewFile(file.file)}
+                                  className="h-9 px-3 text-muted-foreground transition-colors duration-150"
+                                  aria-label="Preview pages"
+                                  title="Preview pages"
+                                >
+                                  <Eye className="h-4 w-4" />
+                                  <span className="hidden sm:inline ml-1.5 text-sm font-medium">Preview</span>
+                                </Button>
+                              )}
+                              {onUpdateFileOverrides && globalAdvancedOptions && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setOptionsTarget(file)}
+                                  className="h-9 px-3 text-muted-foreground transition-colors duration-150"
+                                  aria-label="Options for this file"
+                                  title="Options for this file"
+                                >
+                                  <Settings className="h-4 w-4" />
+                                  <span className="hidden sm:inline ml-1.5 text-sm font-medium">Options</span>
+                                </Button>
+                              )}
+                              {onUpdateMetadata && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setMetadataTargets([file])}
+                                  className="h-9 px-3 text-muted-foreground transition-colors duration-150"
+                                  aria-label="Edit metadata"
+                                  title="Edit metadata"
+                                >
+                                  <Tags className="h-4 w-4" />
+                                  <span className="hidden sm:inline ml-1.5 text-sm font-medium">Metadata</span>
+                                </Button>
+                              )}
+                              {onSplitFile && isVolumeEditable(file) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setSplitTarget(file)}
+                                  className="h-9 px-3 text-muted-foreground transition-colors duration-150"
+                                  aria-label="Split into volumes"
+                                  title="Split into volumes"
+                                >
+                                  <Scissors className="h-4 w-4" />
+                                  <span className="hidden sm:inline ml-1.5 text-sm font-medium">Split</span>
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onRemoveFile?.(file)}
+                                className="
+                                  h-9 px-3
+                                  text-muted-foreground
+                                  hover:text-destructive hover:bg-destructive/10
+                                  active:bg-destructive/20
+                                  transition-colors duration-150
+                                "
+                                aria-label="Dismiss"
+                                title="Dismiss"
+                              >
+                                <XCircle className="h-4 w-4" />
+                                <span className="hidden sm:inline ml-1.5 text-sm font-medium">Dismiss</span>
+                              </Button>
+                            </>
                           )
                         }
                         return null
@@ -1508,6 +1679,52 @@ export function ConversionQueue({
           </motion.div>
         )
       })}
+
+      {previewFile && <FilePreview file={previewFile} onClose={() => setPreviewFile(null)} />}
+      {optionsTarget && globalAdvancedOptions && (
+        <FileOptionsDialog
+          file={optionsTarget}
+          globalProfile={selectedProfile}
+          globalOptions={globalAdvancedOptions}
+          deviceProfiles={deviceProfiles}
+          onClose={() => setOptionsTarget(null)}
+          onSave={(file, overrides) => {
+            onUpdateFileOverrides?.(file, overrides)
+            setOptionsTarget(null)
+          }}
+        />
+      )}
+      {bulkDownloadSources && (
+        <BulkDownloadDialog
+          sources={bulkDownloadSources}
+          onClose={() => {
+            setBulkDownloadSources(null)
+            setSelection(new Set())
+          }}
+        />
+      )}
+
+      {metadataTargets && (
+        <MetadataDialog
+          files={metadataTargets}
+          onClose={() => setMetadataTargets(null)}
+          onSave={(updates) => {
+            onUpdateMetadata?.(updates)
+            setMetadataTargets(null)
+            setSelection(new Set())
+          }}
+        />
+      )}
+      {splitTarget && (
+        <SplitVolumeDialog
+          fileName={splitTarget.name}
+          onClose={() => setSplitTarget(null)}
+          onSplit={(options) => {
+            onSplitFile?.(splitTarget, options)
+            setSplitTarget(null)
+          }}
+        />
+      )}
     </div>
   )
 }
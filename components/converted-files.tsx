@@ -1,14 +1,18 @@
 "use client"
 
 import { useState, useRef } from "react"
-import { fetchWithLicense } from "@/lib/utils"
+import { ensureSessionKey } from "@/lib/utils"
+import { isApiError } from "@/lib/apiClient"
+import { saveConvertedFile } from "@/lib/downloadClient"
 import { logError } from "@/lib/logger"
+import { convertedFileSource, type BulkDownloadSource } from "@/lib/bulkDownload"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Download, FileText, Check, Loader2, X, Clock, ArrowRight, HardDrive } from "lucide-react"
+import { Download, FileText, Check, Loader2, X, Clock, ArrowRight, HardDrive, FolderDown } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
+import { BulkDownloadDialog } from "./bulk-download-dialog"
 
 export type ConvertedFileInfo = {
   id: string
@@ -30,6 +34,7 @@ interface ConvertedFilesProps {
 
 export function ConvertedFiles({ files, onClearAll, onRemoveFile }: ConvertedFilesProps) {
   const [downloadingFiles, setDownloadingFiles] = useState<Record<string, boolean>>({})
+  const [bulkDownloadSources, setBulkDownloadSources] = useState<BulkDownloadSource[] | null>(null)
   // Use a ref to store download links to prevent them from being garbage collected
   const downloadLinksRef = useRef<HTMLAnchorElement[]>([])
 
@@ -79,20 +84,13 @@ export function ConvertedFiles({ files, onClearAll, onRemoveFile }: ConvertedFil
     try {
       setDownloadingFiles((prev) => ({ ...prev, [file.id]: true }))
 
-      // Request a signed download URL from the API
-      const response = await fetchWithLicense(`/api/download/${file.downloadId}`)
-      if (!response.ok) {
-        const errText = await response.text()
-        throw new Error(errText || "Failed to get download URL")
-      }
-      const data = await response.json()
-      if (!data.signedUrl) {
-        throw new Error(data.error || "No download URL returned")
-      }
-      // Redirect browser to the signed URL to download
-      window.location.href = data.signedUrl
-      toast.success(`Downloading ${file.convertedName}`)
+      const saved = await saveConvertedFile(await ensureSessionKey(), file.downloadId, {
+        fallbackFilename: file.convertedName,
+      })
+      toast.success(`Downloaded ${saved.filename}`)
     } catch (error) {
+      // Closed the save dialog
+      if (isApiError(error, "ABORTED")) return
       logError("Download error", file.downloadId, { error: error.message, error, fileId: file.id })
       toast.error("Download failed", {
         description: error instanceof Error ? error.message : "Failed to download file",
@@ -105,6 +103,18 @@ export function ConvertedFiles({ files, onClearAll, onRemoveFile }: ConvertedFil
     }
   }
 
+  const downloadAll = async () => {
+    try {
+      const sessionKey = await ensureSessionKey()
+      setBulkDownloadSources(files.map((file) => convertedFileSource(sessionKey, file.downloadId, file.convertedName)))
+    } catch (error) {
+      logError("Bulk download error", { error })
+      toast.error("Download failed", {
+        description: error instanceof Error ? error.message : "Failed to start the download",
+      })
+    }
+  }
+
   return (
     <Card className="mb-8">
       <CardHeader className="pb-3">
@@ -115,14 +125,22 @@ export function ConvertedFiles({ files, onClearAll, onRemoveFile }: ConvertedFil
             </div>
             <CardTitle>Converted Files</CardTitle>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onClearAll}
-            disabled={Object.values(downloadingFiles).some((v) => v)}
-          >
-            Clear All
-          </Button>
+          <div className="flex items-center gap-2">
+            {files.length >= 2 && (
+              <Button variant="outline" size="sm" onClick={downloadAll}>
+                <FolderDown className="h-4 w-4 mr-1.5" />
+                Download all
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClearAll}
+              disabled={!!bulkDownloadSources || Object.values(downloadingFiles).some((v) => v)}
+            >
+              Clear All
+            </Button>
+          </div>
         </div>
         <CardDescription>Your successfully converted files ready for download</CardDescription>
       </CardHeader>
@@ -228,6 +246,10 @@ export function ConvertedFiles({ files, onClearAll, onRemoveFile }: ConvertedFil
           </AnimatePresence>
         </div>
       </CardContent>
+
+      {bulkDownloadSources && (
+        <BulkDownloadDialog sources={bulkDownloadSources} onClose={() => setBulkDownloadSources(null)} />
+      )}
     </Card>
   )
 }
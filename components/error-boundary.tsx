@@ -2,6 +2,7 @@
 
 import { useEffect } from "react"
 import { log, logError, logWarn, logDebug } from "@/lib/logger"
+import { isApiError } from "@/lib/apiClient"
 
 /**
  * Global error handler component that suppresses expected errors from appearing in console
@@ -12,7 +13,7 @@ export function ErrorBoundary({ children }: { children: React.ReactNode }) {
     // Handle unhandled promise rejections
     const handleUnhandledRejection = (event: PromiseRejectionEvent) => {
       // Suppress "Upload cancelled by user" errors - these are expected
-      if (event.reason?.message?.includes("cancelled by user") || event.reason?.message?.includes("Upload cancelled")) {
+      if (isApiError(event.reason, "ABORTED", "JOB_CANCELLED")) {
         event.preventDefault() // Prevents console error
         log("[ErrorBoundary] Suppressed expected cancellation error")
         return
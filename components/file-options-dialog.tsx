@@ -0,0 +1,146 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { AdvancedOptions } from "./advanced-options"
+import { DeviceSelector } from "./device-selector"
+import type { PendingUpload } from "./manga-converter"
+import type { AdvancedOptionsType } from "@/lib/advancedOptions"
+import { useConverterMode } from "@/contexts/converter-mode-context"
+
+export interface FileOverrides {
+  deviceProfileOverride?: string
+  optionOverrides?: Partial<AdvancedOptionsType>
+}
+
+export const OPTION_LABELS: Record<keyof AdvancedOptionsType, string> = {
+  mangaStyle: "Manga Style",
+  hq: "High Quality",
+  twoPanel: "Two Panel",
+  webtoon: "Webtoon",
+  targetSize: "Target Size",
+  noProcessing: "No Processing",
+  upscale: "Upscale",
+  stretch: "Stretch",
+  splitter: "Splitter",
+  gamma: "Gamma",
+  outputFormat: "Output Format",
+  author: "Author",
+  noKepub: "No Kepub",
+  customWidth: "Custom Width",
+  customHeight: "Custom Height",
+}
+
+const SPLITTER_LABELS = ["Split", "Rotate", "Both"]
+
+/**
+ * Short human-readable form of an option value, e.g. "Webtoon on" or "Splitter: Rotate"
+ */
+export function describeOption<K extends keyof AdvancedOptionsType>(key: K, value: AdvancedOptionsType[K]): string {
+  if (typeof value === "boolean") return `${OPTION_LABELS[key]} ${value ? "on" : "off"}`
+  if (key === "splitter") return `${OPTION_LABELS[key]}: ${SPLITTER_LABELS[value as number] ?? value}`
+  return `${OPTION_LABELS[key]}: ${value}`
+}
+
+/**
+ * Options whose override differs from the global value, in display order
+ */
+export function getChangedOptions(
+  overrides: Partial<AdvancedOptionsType> | undefined,
+  globalOptions: AdvancedOptionsType,
+): (keyof AdvancedOptionsType)[] {
+  if (!overrides) return []
+  return (Object.keys(OPTION_LABELS) as (keyof AdvancedOptionsType)[]).filter(
+    (key) => key in overrides && overrides[key] !== globalOptions[key],
+  )
+}
+
+interface FileOptionsDialogProps {
+  file: PendingUpload
+  globalProfile: string
+  globalOptions: AdvancedOptionsType
+  deviceProfiles: Record<string, string>
+  onSave: (file: PendingUpload, overrides: FileOverrides) => void
+  onClose: () => void
+}
+
+export function FileOptionsDialog({
+  file,
+  globalProfile,
+  globalOptions,
+  deviceProfiles,
+  onSave,
+  onClose,
+}: FileOptionsDialogProps) {
+  const { mode } = useConverterMode()
+  const [profile, setProfile] = useState(file.deviceProfileOverride ?? globalProfile)
+  const [options, setOptions] = useState<AdvancedOptionsType>({ ...globalOptions, ...file.optionOverrides })
+
+  // Same webtoon/target size coupling as the global options panel
+  const handleOptionsChange = (newOptions: Partial<AdvancedOptionsType>) => {
+    setOptions((prev) => ({
+      ...prev,
+      ...newOptions,
+      targetSize: newOptions.webtoon !== undefined ? (newOptions.webtoon ? 100 : 400) : prev.targetSize,
+    }))
+  }
+
+  const handleSave = () => {
+    const changed = getChangedOptions(options, globalOptions)
+    const optionOverrides: Partial<AdvancedOptionsType> = Object.fromEntries(changed.map((key) => [key, options[key]]))
+
+    onSave(file, {
+      deviceProfileOverride: profile !== globalProfile && profile !== "Placeholder" ? profile : undefined,
+      optionOverrides: changed.length > 0 ? optionOverrides : undefined,
+    })
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options for this file</DialogTitle>
+          <DialogDescription className="break-all">
+            {file.name}. Settings that match the global configuration follow it when it changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label className="text-base font-semibold">E-Reader Device</Label>
+            <DeviceSelector selectedProfile={profile} onProfileChange={setProfile} deviceProfiles={deviceProfiles} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-base font-semibold">Advanced Options</Label>
+            <AdvancedOptions
+              options={options}
+              onChange={handleOptionsChange}
+              deviceProfile={profile}
+              contentType={mode}
+              editableMangaStyle={true}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => onSave(file, {})}>
+            Reset to global
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
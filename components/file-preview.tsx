@@ -1,49 +1,120 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { X, ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { openPreviewDocument, type PreviewDocument } from "@/lib/pagePreview"
+import { logWarn } from "@/lib/logger"
+import { formatFileSize } from "@/lib/utils"
 
 interface FilePreviewProps {
   file: File
   onClose: () => void
 }
 
+// Width thumbnails are rendered at (PDF pages); images are scaled by CSS
+const THUMBNAIL_WIDTH = 160
+
 export function FilePreview({ file, onClose }: FilePreviewProps) {
   const [isLoading, setIsLoading] = useState(true)
-  const [pages, setPages] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [previewDoc, setPreviewDoc] = useState<PreviewDocument | null>(null)
+  const [pageUrls, setPageUrls] = useState<Record<number, string>>({})
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<number, string>>({})
   const [currentPage, setCurrentPage] = useState(0)
 
+  // Pages already requested (or rendered), keyed by "page:<i>" / "thumb:<i>"
+  const requestedRef = useRef<Set<string>>(new Set())
+  const objectUrlsRef = useRef<string[]>([])
+  const thumbnailStripRef = useRef<HTMLDivElement>(null)
+
+  const pageCount = previewDoc?.pages.length ?? 0
+
   useEffect(() => {
-    // This is a simplified preview that works for image files
-    // In a real app, you'd need more sophisticated handling for CBZ, PDF, etc.
-    if (file.type.startsWith("image/")) {
-      const url = URL.createObjectURL(file)
-      setPages([url])
-      setIsLoading(false)
-
-      return () => {
-        URL.revokeObjectURL(url)
-      }
-    } else {
-      // Simulate loading pages from a comic/manga file
-      setIsLoading(true)
-
-      // This is just a simulation - in a real app you'd extract pages from CBZ/PDF
-      setTimeout(() => {
-        // Create dummy pages for preview
-        const dummyPages = Array(5)
-          .fill(0)
-          .map((_, i) => `/placeholder.svg?height=800&width=600&text=Page ${i + 1}`)
-        setPages(dummyPages)
-        setIsLoading(false)
-      }, 1500)
+    let cancelled = false
+    let openedDoc: PreviewDocument | null = null
+
+    setIsLoading(true)
+    setError(null)
+    setPreviewDoc(null)
+    setPageUrls({})
+    setThumbnailUrls({})
+    setCurrentPage(0)
+    requestedRef.current = new Set()
+
+    openPreviewDocument(file)
+      .then((doc) => {
+        if (cancelled) {
+          doc?.destroy()
+          return
+        }
+        openedDoc = doc
+        setPreviewDoc(doc)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        logWarn("[PREVIEW] Failed to open file for preview", {
+          filename: file.name,
+          error: err instanceof Error ? err.message : String(err),
+        })
+        setError(err instanceof Error ? err.message : "Failed to read file")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      openedDoc?.destroy()
+      objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+      objectUrlsRef.current = []
     }
   }, [file])
 
+  // Render a page (or its thumbnail) once; later calls are no-ops
+  const loadPage = useCallback(
+    (index: number, thumbnail: boolean) => {
+      if (!previewDoc || index < 0 || index >= previewDoc.pages.length) return
+      const key = `${thumbnail ? "thumb" : "page"}:${index}`
+      if (requestedRef.current.has(key)) return
+      requestedRef.current.add(key)
+
+      previewDoc.pages[index]
+        .render(thumbnail ? THUMBNAIL_WIDTH : undefined)
+        .then((blob) => {
+          const url = URL.createObjectURL(blob)
+          objectUrlsRef.current.push(url)
+          const setUrls = thumbnail ? setThumbnailUrls : setPageUrls
+          setUrls((prev) => ({ ...prev, [index]: url }))
+        })
+        .catch((err) => {
+          logWarn("[PREVIEW] Failed to render page", {
+            filename: file.name,
+            page: index + 1,
+            error: err instanceof Error ? err.message : String(err),
+          })
+        })
+    },
+    [previewDoc, file.name],
+  )
+
+  // Load the current page plus its neighbours so paging feels instant
+  useEffect(() => {
+    loadPage(currentPage, false)
+    loadPage(currentPage + 1, false)
+    loadPage(currentPage - 1, false)
+  }, [currentPage, loadPage])
+
+  // Keep the active thumbnail in view
+  useEffect(() => {
+    const strip = thumbnailStripRef.current
+    const active = strip?.querySelector<HTMLElement>(`[data-page-index="${currentPage}"]`)
+    active?.scrollIntoView({ block: "nearest", inline: "nearest" })
+  }, [currentPage])
+
   const nextPage = () => {
-    if (currentPage < pages.length - 1) {
+    if (currentPage < pageCount - 1) {
       setCurrentPage((prev) => prev + 1)
     }
   }
@@ -57,10 +128,14 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
   // Set up keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "ArrowRight") {
+      if (e.key === "ArrowRight" || e.key === "PageDown") {
         nextPage()
-      } else if (e.key === "ArrowLeft") {
+      } else if (e.key === "ArrowLeft" || e.key === "PageUp") {
         prevPage()
+      } else if (e.key === "Home") {
+        setCurrentPage(0)
+      } else if (e.key === "End" && pageCount > 0) {
+        setCurrentPage(pageCount - 1)
       } else if (e.key === "Escape") {
         onClose()
       }
@@ -68,21 +143,23 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
 
     window.addEventListener("keydown", handleKeyDown)
     return () => window.removeEventListener("keydown", handleKeyDown)
-  }, [currentPage, pages.length, onClose])
+  }, [currentPage, pageCount, onClose])
+
+  const currentUrl = pageUrls[currentPage]
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
         <DialogHeader className="flex flex-row items-center justify-between">
-          <DialogTitle>
-            {file.name} {pages.length > 1 && `(Page ${currentPage + 1}/${pages.length})`}
+          <DialogTitle className="truncate">
+            {file.name} {pageCount > 1 && `(Page ${currentPage + 1}/${pageCount})`}
           </DialogTitle>
           <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close preview">
             <X className="h-4 w-4" />
           </Button>
         </DialogHeader>
 
-        <div className="flex-1 overflow-hidden relative flex items-center justify-center bg-black/5 dark:bg-white/5 rounded-md">
+        <div className="flex-1 min-h-[50vh] overflow-hidden relative flex items-center justify-center bg-black/5 dark:bg-white/5 rounded-md">
           {isLoading ? (
             <div className="flex flex-col items-center gap-2">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -90,19 +167,28 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
             </div>
           ) : (
             <>
-              {pages.length > 0 ? (
-                <img
-                  src={pages[currentPage] || "/placeholder.svg"}
-                  alt={`Page ${currentPage + 1} of ${file.name}`}
-                  className="max-h-[70vh] max-w-full object-contain"
-                />
+              {error ? (
+                <div className="text-center p-8">
+                  <p>Could not read this file</p>
+                  <p className="text-sm text-muted-foreground mt-1">{error}</p>
+                </div>
+              ) : pageCount > 0 ? (
+                currentUrl ? (
+                  <img
+                    src={currentUrl}
+                    alt={`Page ${currentPage + 1} of ${file.name}`}
+                    className="max-h-[60vh] max-w-full object-contain"
+                  />
+                ) : (
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                )
               ) : (
                 <div className="text-center p-8">
-                  <p>Preview not available for this file type</p>
+                  <p>{previewDoc ? "No pages found in this file" : "Preview not available for this file type"}</p>
                 </div>
               )}
 
-              {pages.length > 1 && (
+              {pageCount > 1 && (
                 <>
                   <Button
                     variant="ghost"
@@ -120,7 +206,7 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
                     size="icon"
                     className="absolute right-2 top-1/2 -translate-y-1/2 bg-background/80 hover:bg-background"
                     onClick={nextPage}
-                    disabled={currentPage === pages.length - 1}
+                    disabled={currentPage === pageCount - 1}
                     aria-label="Next page"
                   >
                     <ChevronRight className="h-6 w-6" />
@@ -131,24 +217,29 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
           )}
         </div>
 
-        <div className="flex justify-between items-center pt-4">
+        {pageCount > 1 && (
+          <div ref={thumbnailStripRef} className="flex gap-2 overflow-x-auto pt-3 pb-1">
+            {previewDoc!.pages.map((page, i) => (
+              <PageThumbnail
+                key={i}
+                index={i}
+                label={page.label}
+                url={thumbnailUrls[i]}
+                active={i === currentPage}
+                root={thumbnailStripRef.current}
+                onVisible={() => loadPage(i, true)}
+                onSelect={() => setCurrentPage(i)}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center pt-2">
           <div className="text-sm text-muted-foreground">
             {file.type || "Unknown file type"} • {formatFileSize(file.size)}
           </div>
-
-          {pages.length > 1 && (
-            <div className="flex gap-1">
-              {pages.map((_, i) => (
-                <div
-                  key={i}
-                  className={`h-1.5 w-3 rounded-full cursor-pointer ${i === currentPage ? "bg-primary" : "bg-muted"}`}
-                  onClick={() => setCurrentPage(i)}
-                  role="button"
-                  tabIndex={0}
-                  aria-label={`Go to page ${i + 1}`}
-                />
-              ))}
-            </div>
+          {pageCount > 1 && (
+            <div className="text-sm text-muted-foreground truncate ml-4">{previewDoc!.pages[currentPage].label}</div>
           )}
         </div>
       </DialogContent>
@@ -156,10 +247,55 @@ export function FilePreview({ file, onClose }: FilePreviewProps) {
   )
 }
 
-function formatFileSize(bytes: number) {
-  if (bytes === 0) return "0 Bytes"
-  const k = 1024
-  const sizes = ["Bytes", "KB", "MB", "GB"]
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+interface PageThumbnailProps {
+  index: number
+  label: string
+  url?: string
+  active: boolean
+  root: HTMLElement | null
+  onVisible: () => void
+  onSelect: () => void
+}
+
+// Thumbnail that asks for its image only once it scrolls into the strip's view
+function PageThumbnail({ index, label, url, active, root, onVisible, onSelect }: PageThumbnailProps) {
+  const ref = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || url) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisible()
+          observer.disconnect()
+        }
+      },
+      { root, rootMargin: "200px" },
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [url, root, onVisible])
+
+  return (
+    <button
+      ref={ref}
+      type="button"
+      data-page-index={index}
+      onClick={onSelect}
+      title={label}
+      aria-label={`Go to page ${index + 1}`}
+      aria-current={active ? "page" : undefined}
+      className={`relative h-24 w-16 flex-shrink-0 rounded border-2 overflow-hidden bg-muted flex items-center justify-center ${
+        active ? "border-primary" : "border-transparent hover:border-muted-foreground/30"
+      }`}
+    >
+      {url ? (
+        <img src={url} alt="" className="h-full w-full object-cover" />
+      ) : (
+        <span className="text-xs text-muted-foreground">{index + 1}</span>
+      )}
+    </button>
+  )
 }
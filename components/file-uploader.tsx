@@ -2,14 +2,32 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
-import { Upload, FileUp } from "lucide-react"
+import { useState, useRef, useCallback } from "react"
+import { Upload, FileUp, FolderUp } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import { motion } from "framer-motion"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
 import { validateFileExtension, UnsupportedFileFormatError } from "@/lib/fileValidation"
+import {
+  collectDroppedItems,
+  groupImageFolders,
+  imagesFromDirectoryInput,
+  packImageFolder,
+  type FolderImage,
+  type FolderPackMode,
+  type ImageFolder,
+} from "@/lib/folderPacker"
+import { logError } from "@/lib/logger"
 
 interface FileUploaderProps {
   onFilesSelected: (files: File[]) => void
@@ -32,7 +50,10 @@ export function FileUploader({
 }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isHoveringIcon, setIsHoveringIcon] = useState(false)
+  const [pendingFolders, setPendingFolders] = useState<ImageFolder[] | null>(null)
+  const [isPacking, setIsPacking] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -43,91 +64,144 @@ export function FileUploader({
     setIsDragging(false)
   }
 
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault()
-    setIsDragging(false)
+  // Extension and size checks shared by every way files can arrive
+  const acceptFiles = (files: File[]) => {
+    const validExtensionFiles = files.filter((file) => {
+      try {
+        validateFileExtension(file.name)
+        return true
+      } catch (error) {
+        if (error instanceof UnsupportedFileFormatError) {
+          toast.error("Invalid file", {
+            description: error.message,
+          })
+          return false
+        }
+        throw error
+      }
+    })
+
+    if (validExtensionFiles.length === 0) {
+      return
+    }
 
-    if (disabled) return
+    const validSizeFiles = validExtensionFiles.filter((file) => {
+      if (file.size > maxFileSize) {
+        toast.error(`File too large: ${file.name}`, {
+          description: `Maximum file size is ${formatFileSize(maxFileSize)}`,
+        })
+        return false
+      }
+      return true
+    })
 
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const files = Array.from(e.dataTransfer.files)
-
-      const validExtensionFiles = files.filter((file) => {
-        try {
-          validateFileExtension(file.name)
-          return true
-        } catch (error) {
-          if (error instanceof UnsupportedFileFormatError) {
-            toast.error("Invalid file", {
-              description: error.message,
+    if (validSizeFiles.length > 0) {
+      onFilesSelected(validSizeFiles)
+      toast.success(`${validSizeFiles.length} file${validSizeFiles.length !== 1 ? "s" : ""} added`)
+    }
+  }
+
+  const packFolders = async (folders: ImageFolder[], mode: FolderPackMode) => {
+    setIsPacking(true)
+    const toastId = toast.loading("Packing folders into CBZ...")
+
+    try {
+      const volumes: File[] = []
+      for (const [index, folder] of folders.entries()) {
+        volumes.push(
+          ...(await packImageFolder(folder, mode, (percentage) => {
+            toast.loading(`Packing ${folder.name}... ${Math.round(percentage)}%`, {
+              id: toastId,
+              description: folders.length > 1 ? `Folder ${index + 1} of ${folders.length}` : undefined,
             })
-            return false
-          }
-          throw error
-        }
+          })),
+        )
+      }
+      toast.dismiss(toastId)
+      acceptFiles(volumes)
+    } catch (error) {
+      logError("[FOLDER] Failed to pack folder", error)
+      toast.error("Could not pack folder", {
+        id: toastId,
+        description: error instanceof Error ? error.message : "Failed to read the folder contents",
       })
+    } finally {
+      setIsPacking(false)
+    }
+  }
 
-      if (validExtensionFiles.length === 0) {
-        return
-      }
+  const handleFolderImages = (images: FolderImage[]) => {
+    const folders = groupImageFolders(images)
+    if (folders.length === 0) {
+      toast.error("No images found", {
+        description: "Folders must contain JPG, PNG, GIF, WebP, BMP or AVIF pages",
+      })
+      return
+    }
 
-      const validSizeFiles = validExtensionFiles.filter((file) => {
-        if (file.size > maxFileSize) {
-          toast.error(`File too large: ${file.name}`, {
-            description: `Maximum file size is ${formatFileSize(maxFileSize)}`,
+    // Only ask how to split when some folder actually has several chapters
+    if (folders.some((folder) => folder.chapters.length > 1)) {
+      setPendingFolders(folders)
+    } else {
+      packFolders(folders, "merged")
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+
+    if (disabled || isPacking) return
+
+    const hasDirectories = Array.from(e.dataTransfer.items || []).some(
+      (item) => item.kind === "file" && item.webkitGetAsEntry()?.isDirectory,
+    )
+
+    if (hasDirectories) {
+      collectDroppedItems(e.dataTransfer.items)
+        .then(({ files, images }) => {
+          if (files.length > 0) acceptFiles(files)
+          if (images.length > 0 || files.length === 0) handleFolderImages(images)
+        })
+        .catch((error) => {
+          logError("[FOLDER] Failed to read dropped folder", error)
+          toast.error("Could not read folder", {
+            description: error instanceof Error ? error.message : undefined,
           })
-          return false
-        }
-        return true
-      })
+        })
+      return
+    }
 
-      if (validSizeFiles.length > 0) {
-        onFilesSelected(validSizeFiles)
-        toast.success(`${validSizeFiles.length} file${validSizeFiles.length !== 1 ? "s" : ""} added`)
-      }
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      acceptFiles(Array.from(e.dataTransfer.files))
     }
   }
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files)
-
-      // Validate file extensions first
-      const validExtensionFiles = files.filter((file) => {
-        try {
-          validateFileExtension(file.name)
-          return true
-        } catch (error) {
-          if (error instanceof UnsupportedFileFormatError) {
-            toast.error("Invalid file", {
-              description: error.message,
-            })
-            return false
-          }
-          throw error
-        }
-      })
+      acceptFiles(Array.from(e.target.files))
+    }
+  }
 
-      if (validExtensionFiles.length === 0) {
-        return
-      }
+  const handleFolderInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      handleFolderImages(imagesFromDirectoryInput(Array.from(e.target.files)))
+    }
+    // Allow picking the same folder again
+    e.target.value = ""
+  }
 
-      // Then validate file sizes
-      const validSizeFiles = validExtensionFiles.filter((file) => {
-        if (file.size > maxFileSize) {
-          toast.error(`File too large: ${file.name}`, {
-            description: `Maximum file size is ${formatFileSize(maxFileSize)}`,
-          })
-          return false
-        }
-        return true
-      })
+  // `webkitdirectory` isn't in React's input typings, so set it on the element directly
+  const setFolderInput = useCallback((input: HTMLInputElement | null) => {
+    folderInputRef.current = input
+    input?.setAttribute("webkitdirectory", "")
+  }, [])
 
-      if (validSizeFiles.length > 0) {
-        onFilesSelected(validSizeFiles)
-        toast.success(`${validSizeFiles.length} file${validSizeFiles.length !== 1 ? "s" : ""} added`)
-      }
+  const handleFolderButtonClick = () => {
+    if (disabled || isPacking) {
+      return
     }
+    folderInputRef.current?.click()
   }
 
   const handleButtonClick = () => {
@@ -158,6 +232,54 @@ export function FileUploader({
 </svg>
   )
 
+  const folderInput = (
+    <input
+      type="file"
+      ref={setFolderInput}
+      onChange={handleFolderInputChange}
+      multiple
+      className="hidden"
+      disabled={disabled || isPacking}
+    />
+  )
+
+  const chapterCount = pendingFolders?.reduce((sum, folder) => sum + folder.chapters.length, 0) ?? 0
+
+  const folderModeDialog = (
+    <Dialog open={pendingFolders !== null} onOpenChange={(open) => !open && setPendingFolders(null)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pack chapters</DialogTitle>
+          <DialogDescription>
+            Found {chapterCount} chapter folders. Convert each chapter as its own volume, or merge them into one volume
+            per dropped folder?
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              const folders = pendingFolders!
+              setPendingFolders(null)
+              packFolders(folders, "merged")
+            }}
+          >
+            Merge into one volume
+          </Button>
+          <Button
+            onClick={() => {
+              const folders = pendingFolders!
+              setPendingFolders(null)
+              packFolders(folders, "per-chapter")
+            }}
+          >
+            One volume per chapter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+
   if (compact) {
     return (
       <div
@@ -195,13 +317,19 @@ export function FileUploader({
             </div>
             <div>
               <p className="text-sm font-medium">Add more files</p>
-              <p className="text-xs text-muted-foreground">Drag & drop or click to browse</p>
+              <p className="text-xs text-muted-foreground">Drag & drop files or folders, or click to browse</p>
             </div>
           </div>
-          <Button onClick={handleButtonClick} disabled={disabled} size="sm" variant="outline">
-            <FileUp className="mr-2 h-3 w-3" />
-            Browse
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button onClick={handleFolderButtonClick} disabled={disabled || isPacking} size="sm" variant="ghost">
+              <FolderUp className="mr-2 h-3 w-3" />
+              Folder
+            </Button>
+            <Button onClick={handleButtonClick} disabled={disabled} size="sm" variant="outline">
+              <FileUp className="mr-2 h-3 w-3" />
+              Browse
+            </Button>
+          </div>
         </div>
         <input
           type="file"
@@ -212,6 +340,8 @@ export function FileUploader({
           className="hidden"
           disabled={disabled}
         />
+        {folderInput}
+        {folderModeDialog}
       </div>
     )
   }
@@ -251,17 +381,28 @@ export function FileUploader({
             )}
           </motion.div>
           <div className="text-center">
-            <p className="text-lg font-medium">{isDragging ? "Drop files here" : "Drag and drop your files here"}</p>
+            <p className="text-lg font-medium">
+              {isDragging ? "Drop files or folders here" : "Drag and drop your files here"}
+            </p>
             <p className="text-sm text-muted-foreground mt-1">Supported formats: {acceptedTypes.join(", ")}</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Folders of images are packed into CBZ volumes in your browser
+            </p>
             <p className="text-sm text-muted-foreground mt-1">Maximum {maxFiles} files at once</p>
             <p className="text-sm text-muted-foreground mt-1">
               Maximum file size: <span className="font-medium text-primary">{formatFileSize(maxFileSize)}</span>
             </p>
           </div>
-          <Button onClick={handleButtonClick} disabled={disabled} className="mt-2" size="lg">
-            <FileUp className="mr-2 h-4 w-4" />
-            Choose files
-          </Button>
+          <div className="flex flex-wrap justify-center gap-2 mt-2">
+            <Button onClick={handleButtonClick} disabled={disabled} size="lg">
+              <FileUp className="mr-2 h-4 w-4" />
+              Choose files
+            </Button>
+            <Button onClick={handleFolderButtonClick} disabled={disabled || isPacking} variant="outline" size="lg">
+              <FolderUp className="mr-2 h-4 w-4" />
+              Choose folder
+            </Button>
+          </div>
           <input
             type="file"
             ref={fileInputRef}
@@ -271,8 +412,10 @@ export function FileUploader({
             className="hidden"
             disabled={disabled}
           />
+          {folderInput}
         </div>
       </CardContent>
+      {folderModeDialog}
     </Card>
   )
 }
@@ -6,26 +6,42 @@ import { useState, useEffect, useRef, useCallback } from "react" // Added useCal
 import { toast } from "sonner"
 import { uploadFileAndConvert } from "@/lib/uploadFileAndConvert" // make sure you import it
 import { ConversionQueue } from "./conversion-queue"
+import { getChangedOptions, type FileOverrides } from "./file-options-dialog"
 import { Footer } from "./footer"
 import { DEVICE_PROFILES } from "@/lib/device-profiles"
-import { fetchWithLicense, ensureSessionKey } from "@/lib/utils"
+import { ensureSessionKey } from "@/lib/utils"
 import { log, logError, logWarn } from "@/lib/logger"
+import { cancelJob, dismissJob, isApiError, retryJob as retryJobRequest } from "@/lib/apiClient"
+import { requestJobNotifications } from "@/lib/jobNotifications"
+import { autoRetryAt, classifyJobFailure, retryPlanFor, type JobFailure, type RetryPlan } from "@/lib/jobFailure"
+import { isActiveJobState, nextJobState, type JobState } from "@/lib/jobState"
+import { recordConversionDuration } from "@/lib/queueWait"
+import { recordConversion, type ConversionHistoryEntry, type HistoryStatus } from "@/lib/conversionHistory"
+import { uploadScheduler } from "@/lib/uploadScheduler"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { LoaderIcon, ChevronsRight, BookOpenText, BookText } from "lucide-react" // Added BookOpenText and BookText
 import { AdvancedOptions } from "./advanced-options"
 import { FileUploader } from "./file-uploader"
-import { ALL_SUPPORTED_EXTENSIONS } from "@/lib/fileValidation"
+import { ALL_SUPPORTED_EXTENSIONS, validateFileContents, type ValidationReport } from "@/lib/fileValidation"
+import { hashFile, findConvertedDuplicate, type ConvertedDuplicate } from "@/lib/fileHash"
+import { mergeVolumes, splitVolume, type SplitOptions } from "@/lib/volumeTools"
+import { analyzeContent, type ContentAnalysis } from "@/lib/contentAnalyzer"
+import { detectMetadata, toBackendMetadata, type BookMetadata } from "@/lib/bookMetadata"
 import { DeviceSelector } from "./device-selector"
+import { PresetSelector } from "./preset-selector"
+import { ConnectionIndicator } from "./connection-indicator"
+import type { OptionPreset } from "@/lib/presets"
+import type { AdvancedOptionsType } from "@/lib/advancedOptions"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
 import { useConverterMode } from "@/contexts/converter-mode-context"
-import { useQueuePolling, type QueueJob } from "@/hooks/useQueuePolling"
-import { useJobWebSocket } from "@/hooks/useJobWebSocket" // Imported JobStatusData
-import { MyDownloads } from "./my-downloads"
+import type { QueueJob } from "@/lib/realtimeClient"
+import { useJobStatuses, useRealtime, useSessionUpdates } from "@/contexts/realtime-context"
+import { ConversionHistory } from "./conversion-history"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
-import { ChevronDown, ChevronUp, Download } from "lucide-react"
+import { ChevronDown, ChevronUp, Download, History } from "lucide-react"
 import { useUser, SignUpButton } from "@clerk/nextjs"
 import { cn } from "@/lib/utils" // Imported cn for conditional styling
 
@@ -35,9 +51,9 @@ export type PendingUpload = {
   file: File
   error?: string
   jobId?: string
-  status?: string
+  status?: JobState
   isMonitoring?: boolean
-  isConverted?: boolean // Flag to indicate this is a converted file
+  isConverted?: boolean // Set together with status COMPLETE, never on its own
   convertedName?: string // Output filename after conversion
   downloadId?: string // ID for downloading the converted file
   convertedTimestamp?: number // When the conversion completed
@@ -60,25 +76,33 @@ export type PendingUpload = {
     confirmed_percentage?: number // Added confirmed percentage
   }
   worker_download_speed_mbps?: number // Worker download speed for simulating Reading File stage
+  queue_position?: number // Place in the conversion queue while QUEUED (1 = next)
   downloadUrl?: string // URL for downloading the converted file
+  contentHash?: string // SHA-256 of the file content (computed in a worker after the file is added)
+  hashProgress?: number // Hashing progress 0-100 while the hash is being computed
+  convertedDuplicate?: ConvertedDuplicate // Earlier conversion of the same content with the same settings
+  duplicateCheckKey?: string // Hash + settings the duplicate lookup last ran for
+  validationReport?: ValidationReport // Content checks run when the file is added (magic bytes, archive scan)
+  deviceProfile?: string // Device profile selected when the file was added
+  advancedOptions?: AdvancedOptionsType // Options snapshot taken when the file was added
+  contentAnalysis?: ContentAnalysis // Manga/comic/webtoon guess and suggested options from sampled pages
+  metadata?: BookMetadata // Series/volume/title etc. sent with the job; pre-filled from the file, editable in the queue
+  deviceProfileOverride?: string // Device profile for this file only, instead of the global one
+  optionOverrides?: Partial<AdvancedOptionsType> // Options for this file only, layered over the global options
+  failure?: JobFailure // Why the job ended ERRORED, once the backend has said
+  retryCount?: number // Times this file's conversion has been retried after failing
+  retryAt?: number // When a transient failure is retried automatically (epoch ms)
 }
 
-export type AdvancedOptionsType = {
-  mangaStyle: boolean
-  hq: boolean
-  twoPanel: boolean
-  webtoon: boolean
-  targetSize: number
-  noProcessing: boolean
-  upscale: boolean
-  stretch: boolean
-  splitter: number
-  gamma: number
-  outputFormat: string
-  author: string
-  noKepub: boolean
-  customWidth: number
-  customHeight: number
+// A job that ended ERRORED: the error on its card, and an automatic retry when the failure is transient
+function withFailure(file: PendingUpload, failure: JobFailure): PendingUpload {
+  return {
+    ...file,
+    status: "ERRORED",
+    error: failure.message,
+    failure,
+    retryAt: autoRetryAt(failure, file.retryCount ?? 0),
+  }
 }
 
 // Helper function to convert frontend options to backend format
@@ -114,7 +138,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
   // No separate converted files list; rely on live session updates only
   // </CHANGE> Removed shared progress state - now tracked per-job in PendingUpload objects
   const [isUploaded, setIsUploaded] = useState<boolean>(false)
-  const [currentStatus, setCurrentStatus] = useState<string | undefined>(undefined)
+  const [currentStatus, setCurrentStatus] = useState<JobState | undefined>(undefined)
 
   // Track last logged progress percent for logging changes
   const lastLoggedProgressRef = useRef<number>(-1)
@@ -170,23 +194,9 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
 
   const MAX_FILES = Number(process.env.NEXT_PUBLIC_MAX_FILES) || 10
 
-  // Initialize WebSocket for queue status updates
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060"
-  const {
-    queueStatus,
-    isPolling: isConnecting,
-    error: wsError,
-  } = useQueuePolling(
-    undefined,
-    true, // always listen when component is mounted
-  )
-
-  const {
-    connected: jobWsConnected,
-    subscribeToJob,
-    unsubscribeFromJob, // Imported unsubscribeFromJob
-    jobStatuses, // Added jobStatuses from useJobWebSocket hook
-  } = useJobWebSocket(apiUrl)
+  // Queue status updates over the shared realtime connection (see RealtimeProvider)
+  const { client: realtimeClient } = useRealtime()
+  const queueStatus = useSessionUpdates()
 
   const fileInputRef = useRef<HTMLInputElement>(null)
   const completionToastsShown = useRef<Set<string>>(new Set()) // Track which jobs have shown completion toast
@@ -319,6 +329,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
             processing_progress: job.processing_progress,
             upload_progress: job.upload_progress,
             worker_download_speed_mbps: job.worker_download_speed_mbps,
+            queue_position: job.queue_position,
           }
 
           // If job is already complete, mark it as converted
@@ -334,6 +345,14 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
             return [...prev, newUpload]
           }
 
+          if (job.status === "ERRORED") {
+            // Without the backend's error yet, the job status subscription below fills in the failure
+            const failed = job.error
+              ? withFailure(newUpload, classifyJobFailure(job.error))
+              : { ...newUpload, error: "Conversion failed" }
+            return [...prev, failed]
+          }
+
           return [...prev, newUpload]
         }
 
@@ -348,6 +367,12 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
               return null // Will be filtered out below
             }
 
+            // A snapshot older than what we already show (e.g. QUEUED after COMPLETE) changes nothing
+            if (nextJobState(f.status, job.status) !== job.status) {
+              log(`[WEBSOCKET] Ignoring stale ${job.status} for job ${job.job_id}, already ${f.status}`)
+              return f
+            }
+
             // Log status changes
             if (f.status !== job.status) {
               log(`[STATUS CHANGE] Job ${job.job_id}: ${f.status || "NEW"} → ${job.status}`, {
@@ -374,6 +399,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
               processing_progress: job.processing_progress,
               upload_progress: job.upload_progress,
               worker_download_speed_mbps: job.worker_download_speed_mbps,
+              queue_position: job.queue_position,
               // Set queuedAt timestamp when job first enters QUEUED status
               queuedAt: job.status === "QUEUED" && f.status !== "QUEUED" ? Date.now() : f.queuedAt,
             }
@@ -390,6 +416,12 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
               // Suppress completion toast
             }
 
+            if (job.status === "ERRORED" && !f.failure) {
+              return job.error
+                ? withFailure(updated, classifyJobFailure(job.error))
+                : { ...updated, error: updated.error ?? "Conversion failed" }
+            }
+
             return updated
           })
           .filter((f): f is PendingUpload => f !== null) // Remove cancelled jobs
@@ -421,89 +453,82 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     })
   }, [queueStatus, cancellingJobs, dismissingJobs])
 
-  // Update useEffect to use jobStatuses from useJobWebSocket hook
-  useEffect(() => {
-    if (!jobStatuses) return
-
-    // Process updates from individual job WebSockets
-    Object.entries(jobStatuses).forEach(([jobId, statusData]) => {
-      setPendingUploads((prev) =>
-        prev.map((f) => {
-          if (f.jobId !== jobId) return f
-
-          // If job was cancelled, remove it from pending uploads
-          if (statusData.status === "CANCELLED") {
-            log(`[JOB WS] Job ${jobId} was cancelled, removing from UI`)
-            return null // Will be filtered out below
-          }
-
-          // Log status changes
-          if (f.status !== statusData.status) {
-            log(`[STATUS CHANGE] Job ${jobId}: ${f.status || "NEW"} → ${statusData.status}`, {
-              job_id: jobId,
-              filename: f.name,
-              old_status: f.status || "NEW",
-              new_status: statusData.status,
-              device_profile: statusData.device_profile,
-              dismissed_at: statusData.dismissed_at || null,
-              completed_at: statusData.completed_at || null,
-            })
-
-            // Reset stage progress between phases
-            if (statusData.status === "QUEUED" || statusData.status === "PROCESSING") {
-              // </CHANGE> Removed conversionProgress and eta/remainingTime resets
-              // They are now handled within handleConvert and the job status updates
-              lastLoggedProgressRef.current = -1
-            }
-          }
-
-          const updated: PendingUpload = {
-            ...f,
-            status: statusData.status,
-            processing_progress: statusData.processing_progress,
-            upload_progress: statusData.upload_progress,
-            worker_download_speed_mbps: statusData.worker_download_speed_mbps,
-            // Set queuedAt timestamp when job first enters QUEUED status
-            queuedAt: statusData.status === "QUEUED" && f.status !== "QUEUED" ? Date.now() : f.queuedAt,
-          }
-
-          // Handle completion
-          if (statusData.status === "COMPLETE") {
-            updated.isConverted = true
-            updated.convertedName = statusData.output_filename || f.name
-            updated.downloadId = jobId
-            updated.convertedTimestamp = statusData.completed_at
-              ? new Date(statusData.completed_at).getTime()
-              : Date.now()
-            updated.outputFileSize = statusData.file_size
-            updated.inputFileSize = statusData.input_file_size
-            updated.actualDuration = statusData.actual_duration
-            updated.downloadUrl = statusData.download_url // Added download URL
-
-            // Only show toast if just completed (within last 10s) and not yet shown
-            // Suppress completion toast
-          }
+  // Session updates drive every status change; per-job events only add the completion details and failure
+  // reasons they lack
+  const jobsAwaitingDetails = pendingUploads
+    .filter((f) => f.jobId && (f.status === "ERRORED" ? !f.failure : f.outputFileSize === undefined))
+    .map((f) => f.jobId!)
+
+  // Finished jobs go into the conversion history; recording a job again updates its entry
+  const recordFinishedJob = (
+    file: PendingUpload | undefined,
+    status: HistoryStatus,
+    details: Partial<ConversionHistoryEntry> = {},
+  ) => {
+    if (!file?.jobId) return
+    recordConversion({
+      jobId: file.jobId,
+      inputFilename: file.name,
+      deviceProfile: file.deviceProfileOverride || file.deviceProfile || selectedProfile,
+      status,
+      inputSize: file.size || undefined,
+      finishedAt: file.convertedTimestamp ?? Date.now(),
+      metadata: file.metadata,
+      advancedOptions: file.advancedOptions,
+      ...details,
+    })
+  }
 
-          return updated
-        }),
+  useJobStatuses(jobsAwaitingDetails, (statusData) => {
+    if (statusData.status === "ERRORED") {
+      const failure = classifyJobFailure(statusData.error, statusData.failure_category)
+      log("[RETRY] Job failed", statusData.job_id, { category: failure.category, error: failure.message })
+      recordFinishedJob(
+        pendingUploads.find((f) => f.jobId === statusData.job_id),
+        "ERRORED",
+        { error: failure.message },
       )
-
-      // Remove jobs that are no longer present in the jobStatuses update
-      // This ensures jobs that complete or are cancelled via other means are removed
       setPendingUploads((prev) =>
-        prev.filter((file) => {
-          if (!file.jobId) return true // Keep files not yet uploaded
-          if (jobStatuses.hasOwnProperty(file.jobId)) return true // Keep files being monitored
-          if (cancellingJobs.has(file.jobId)) return true // Keep files being cancelled
-          if (dismissingJobs.has(file.jobId)) return true // Keep files being dismissed
-
-          // Remove all other jobs that are missing from this update
-          log(`[JOB WS] Removing job ${file.jobId} (${file.name}) - no longer in session update`)
-          return false
-        }),
+        prev.map((f) =>
+          f.jobId === statusData.job_id && !f.failure && nextJobState(f.status, "ERRORED") === "ERRORED"
+            ? withFailure(f, failure)
+            : f,
+        ),
       )
+      return
+    }
+    if (statusData.status !== "COMPLETE") return
+    // Feeds the queue wait estimates for later jobs
+    const finished = pendingUploads.find((f) => f.jobId === statusData.job_id)
+    if (finished && statusData.actual_duration) {
+      recordConversionDuration({
+        jobId: statusData.job_id,
+        deviceProfile: finished.deviceProfileOverride || finished.deviceProfile || selectedProfile,
+        inputSize: statusData.input_file_size ?? finished.size,
+        durationSec: statusData.actual_duration,
+      })
+    }
+    recordFinishedJob(finished, "COMPLETE", {
+      inputFilename: statusData.input_filename || finished?.name,
+      outputFilename: statusData.output_filename,
+      inputSize: statusData.input_file_size ?? finished?.size,
+      outputSize: statusData.output_file_size,
+      durationSec: statusData.actual_duration,
     })
-  }, [jobStatuses, cancellingJobs, dismissingJobs])
+    setPendingUploads((prev) =>
+      prev.map((f) =>
+        f.jobId === statusData.job_id
+          ? {
+              ...f,
+              outputFileSize: statusData.output_file_size ?? f.outputFileSize,
+              inputFileSize: statusData.input_file_size ?? f.inputFileSize,
+              actualDuration: statusData.actual_duration ?? f.actualDuration,
+              downloadUrl: statusData.download_url,
+            }
+          : f,
+      ),
+    )
+  })
 
   // Removed monitored_jobs persistence; no-op placeholders left for safety
   const saveJobToStorage = (_jobId: string, _name: string, _size: number, _status: string, _additionalData?: any) => {}
@@ -520,7 +545,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
 
     log("[v0] Dismiss job:", file.jobId, "file:", file.name)
 
-    unsubscribeFromJob(file.jobId)
+    realtimeClient?.unsubscribeFromJob(file.jobId)
 
     // Mark job as being dismissed (show spinner)
     setDismissingJobs((prev) => new Set(prev).add(file.jobId!))
@@ -534,37 +559,29 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
 
     // Call backend to set dismissed_at timestamp (for all job statuses)
     try {
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060"
       const sessionKey = await ensureSessionKey()
 
       log(`Dismissing job ${file.jobId}`, { filename: file.name, status: file.status })
 
-      const response = await fetch(`${API_BASE_URL}/jobs/${file.jobId}/dismiss`, {
-        method: "POST",
-        headers: {
-          "X-Session-Key": sessionKey,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (response.ok) {
-        log(`Job ${file.jobId} dismissed successfully - session update will reflect dismissal`)
-        toast.success(`Dismissed: ${file.name}`)
-      } else if (response.status === 401) {
+      await dismissJob(sessionKey, file.jobId!)
+      log(`Job ${file.jobId} dismissed successfully - session update will reflect dismissal`)
+      toast.success(`Dismissed: ${file.name}`)
+    } catch (error) {
+      if (isApiError(error, "UNAUTHORIZED")) {
         // Session expired - clear it and reload page
-        console.warn("[MangaConverter] 401 on cancel - clearing session")
+        console.warn("[MangaConverter] 401 on dismiss - clearing session")
         localStorage.removeItem("mangaconverter_session_key")
         toast.error("Session expired", {
           description: "Please refresh the page to continue.",
         })
         setTimeout(() => window.location.reload(), 2000)
-      } else {
-        logError(`Failed to dismiss job ${file.jobId}:`, await response.text())
+      } else if (isApiError(error) && error.status !== undefined) {
+        logError(`Failed to dismiss job ${file.jobId}:`, error.message)
         toast.error(`Failed to dismiss: ${file.name}`)
+      } else {
+        logError(`Error dismissing job ${file.jobId}:`, error)
+        toast.error(`Error dismissing: ${file.name}`)
       }
-    } catch (error) {
-      logError(`Error dismissing job ${file.jobId}:`, error)
-      toast.error(`Error dismissing: ${file.name}`)
     } finally {
       // Remove from dismissing state
       setDismissingJobs((prev) => {
@@ -590,6 +607,191 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     return () => clearInterval(interval)
   }, [])
 
+  // A failed job that has been retried: stop following it and take it out of the session's queue
+  const retireFailedJob = (jobId: string) => {
+    realtimeClient?.unsubscribeFromJob(jobId)
+    recentlyDismissedRef.current.set(jobId, Date.now())
+    ensureSessionKey()
+      .then((sessionKey) => dismissJob(sessionKey, jobId))
+      .catch((error) => {
+        logWarn("[RETRY] Could not dismiss failed job", {
+          job_id: jobId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+  }
+
+  // Convert a failed job again with the plan's option changes. The backend converts the copy it already
+  // has when it still has one; otherwise the file goes back to the queue to be uploaded again.
+  const handleRetryJob = async (file: PendingUpload, plan: RetryPlan) => {
+    const failedJobId = file.jobId
+    if (!failedJobId) return
+
+    const settings = getFileSettings(file)
+    const optionOverrides =
+      Object.keys(plan.options).length > 0 ? { ...file.optionOverrides, ...plan.options } : file.optionOverrides
+    const retryCount = (file.retryCount ?? 0) + 1
+    const updateFailedJob = (update: (f: PendingUpload) => PendingUpload) =>
+      setPendingUploads((prev) => prev.map((f) => (f.jobId === failedJobId ? update(f) : f)))
+
+    log("[RETRY] Retrying failed job", failedJobId, {
+      filename: file.name,
+      category: file.failure?.category,
+      attempt: retryCount,
+      automatic: plan.automatic,
+      options: plan.options,
+      reuse_upload: plan.reuseUpload,
+    })
+    // No automatic retry while this one is under way
+    updateFailedJob((f) => ({ ...f, retryAt: undefined }))
+
+    if (plan.reuseUpload) {
+      try {
+        const sessionKey = await ensureSessionKey()
+        const { job_id } = await retryJobRequest(sessionKey, failedJobId, {
+          device_profile: settings.deviceProfile,
+          advanced_options: convertAdvancedOptionsToBackend({ ...settings.advancedOptions, ...plan.options }),
+        })
+        log("[RETRY] Job queued again from the uploaded file", job_id, { failed_job_id: failedJobId })
+
+        retireFailedJob(failedJobId)
+        updateFailedJob((f) => ({
+          ...f,
+          jobId: job_id,
+          status: "QUEUED",
+          isMonitoring: true,
+          queuedAt: Date.now(),
+          error: undefined,
+          failure: undefined,
+          retryCount,
+          optionOverrides,
+          advancedOptions: { ...settings.advancedOptions, ...plan.options },
+          processing_progress: undefined,
+          queue_position: undefined,
+          worker_download_speed_mbps: undefined,
+        }))
+        if (!plan.automatic) toast.success(`Retrying ${file.name}`)
+        return
+      } catch (error) {
+        if (!isApiError(error, "NOT_FOUND")) {
+          logError("[RETRY] Retry request failed", failedJobId, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+          // An automatic retry tries again after a longer wait; a manual one leaves the job as it was
+          updateFailedJob((f) => ({ ...f, retryCount, retryAt: f.failure && autoRetryAt(f.failure, retryCount) }))
+          if (!plan.automatic) {
+            toast.error(`Could not retry ${file.name}`, {
+              description: error instanceof Error ? error.message : String(error),
+            })
+          }
+          return
+        }
+        log("[RETRY] Uploaded file is no longer available, it has to be uploaded again", failedJobId)
+      }
+    }
+
+    // Only a file added in this tab can be uploaded again (jobs from other sessions have a placeholder)
+    if (file.file.size === 0) {
+      toast.error(`Add ${file.name} again to retry it`, {
+        description: "The uploaded copy is no longer available.",
+      })
+      return
+    }
+
+    retireFailedJob(failedJobId)
+    updateFailedJob((f) => ({
+      ...f,
+      jobId: undefined,
+      status: undefined,
+      isMonitoring: false,
+      queuedAt: undefined,
+      error: undefined,
+      failure: undefined,
+      retryCount,
+      optionOverrides,
+      upload_progress: undefined,
+      processing_progress: undefined,
+      queue_position: undefined,
+      worker_download_speed_mbps: undefined,
+    }))
+    toast.info(`${file.name} will be uploaded again`, { description: "Start the conversion to send it." })
+  }
+
+  // Convert a job from the history again for another device, from the copy the backend still has. Only the
+  // device changes: the job's own options are sent when we know them, else the backend keeps the ones it has.
+  const handleReconvert = async (entry: ConversionHistoryEntry, deviceProfile: string) => {
+    const deviceName = DEVICE_PROFILES[deviceProfile as keyof typeof DEVICE_PROFILES] || deviceProfile
+    log("[HISTORY] Re-converting", entry.jobId, { filename: entry.inputFilename, device_profile: deviceProfile })
+
+    try {
+      const sessionKey = await ensureSessionKey()
+      const { job_id } = await retryJobRequest(sessionKey, entry.jobId, {
+        device_profile: deviceProfile,
+        advanced_options: entry.advancedOptions && convertAdvancedOptionsToBackend(entry.advancedOptions),
+      })
+
+      // Only the options that differ from the current ones are this file's own, as if set in its options dialog
+      const entryOptions = entry.advancedOptions
+      const changed = entryOptions ? getChangedOptions(entryOptions, advancedOptions) : []
+      const optionOverrides: Partial<AdvancedOptionsType> | undefined =
+        entryOptions && changed.length > 0
+          ? Object.fromEntries(changed.map((key) => [key, entryOptions[key]]))
+          : undefined
+
+      const reconverted: PendingUpload = {
+        name: entry.inputFilename,
+        size: entry.inputSize ?? 0,
+        file: new File([], entry.inputFilename), // Placeholder file for monitoring
+        jobId: job_id,
+        status: "QUEUED",
+        isMonitoring: true,
+        queuedAt: Date.now(),
+        deviceProfile,
+        deviceProfileOverride: deviceProfile !== selectedProfile ? deviceProfile : undefined,
+        advancedOptions: entry.advancedOptions,
+        optionOverrides,
+        metadata: entry.metadata,
+      }
+      setPendingUploads((prev) => (prev.some((f) => f.jobId === job_id) ? prev : [...prev, reconverted]))
+      toast.success(`Converting ${entry.inputFilename} for ${deviceName}`)
+    } catch (error) {
+      if (isApiError(error, "NOT_FOUND")) {
+        toast.error(`${entry.inputFilename} is no longer stored`, {
+          description: "Add the file again to convert it for another device.",
+        })
+        return
+      }
+      logError("[HISTORY] Re-convert failed", entry.jobId, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      toast.error(`Could not re-convert ${entry.inputFilename}`, {
+        description: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  // Transient failures are retried on their own once their backoff has passed. The timers only follow the
+  // scheduled retries, so progress updates don't reset them; the file and handler are looked up when one fires.
+  const scheduledRetries = pendingUploads
+    .flatMap((f) => (f.jobId && f.failure && f.retryAt !== undefined ? [`${f.jobId}@${f.retryAt}`] : []))
+    .join(",")
+  const runAutoRetryRef = useRef<(jobId: string) => void>(() => {})
+  useEffect(() => {
+    runAutoRetryRef.current = (jobId) => {
+      const file = pendingUploads.find((f) => f.jobId === jobId)
+      if (!file?.failure || file.retryAt === undefined) return
+      handleRetryJob(file, retryPlanFor(file.failure.category, getFileSettings(file).advancedOptions))
+    }
+  })
+  useEffect(() => {
+    if (!scheduledRetries) return
+    const timers = scheduledRetries.split(",").map((retry) => {
+      const [jobId, retryAt] = retry.split("@")
+      return setTimeout(() => runAutoRetryRef.current(jobId), Math.max(0, Number(retryAt) - Date.now()))
+    })
+    return () => timers.forEach(clearTimeout)
+  }, [scheduledRetries])
+
   // WebSocket-based job monitoring
   const startJobMonitoring = (jobId: string, filename: string) => {
     log(`[WEBSOCKET] Monitoring job ${jobId} via session updates`)
@@ -622,6 +824,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     }))
 
     setPendingUploads((prev) => [...prev, ...newUploads])
+    newUploads.forEach((upload) => startFileChecks(upload.file))
 
     // Auto-open configuration panel only if files are unconfigured (no device selected yet)
     if (selectedProfile === "Placeholder") {
@@ -629,13 +832,277 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     }
   }
 
-  const getFileSettings = () => {
+  // Background work for a newly queued file; each check updates the queue item when it finishes
+  const startFileChecks = (file: File) => {
+    startValidation(file)
+    startContentHash(file)
+    startContentAnalysis(file)
+    startMetadataDetection(file)
+  }
+
+  // Pre-fill metadata from the archive and filename; anything the user already typed wins
+  const startMetadataDetection = (file: File) => {
+    detectMetadata(file)
+      .then((detected) => {
+        setPendingUploads((prev) =>
+          prev.map((f) => (f.file === file ? { ...f, metadata: { ...detected, ...f.metadata } } : f)),
+        )
+      })
+      .catch((error) => {
+        logWarn("[METADATA] Failed to detect metadata", {
+          filename: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+  }
+
+  const handleUpdateMetadata = (updates: { file: PendingUpload; metadata: BookMetadata }[]) => {
+    log("[METADATA] Metadata updated", { files: updates.map((u) => u.file.name) })
+    setPendingUploads((prev) =>
+      prev.map((f) => {
+        const update = updates.find((u) => u.file === f)
+        return update ? { ...f, metadata: update.metadata } : f
+      }),
+    )
+  }
+
+  // Check file content before upload so renamed or broken files don't waste an upload
+  const startValidation = (file: File) => {
+    validateFileContents(file)
+      .then((validationReport) => {
+        if (validationReport.errors.length > 0 || validationReport.warnings.length > 0) {
+          log("[VALIDATION] File content issues found", {
+            filename: file.name,
+            detected_format: validationReport.detectedFormat,
+            errors: validationReport.errors.map((e) => e.code),
+            warnings: validationReport.warnings.map((w) => w.code),
+          })
+        }
+        setPendingUploads((prev) => prev.map((f) => (f.file === file ? { ...f, validationReport } : f)))
+      })
+      .catch((error) => {
+        logWarn("[VALIDATION] Failed to validate file content", {
+          filename: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+  }
+
+  // Sample pages and metadata to suggest manga/comic/webtoon options before conversion
+  const startContentAnalysis = (file: File) => {
+    analyzeContent(file)
+      .then((contentAnalysis) => {
+        if (!contentAnalysis) return
+        log("[ANALYZER] Content analyzed", {
+          filename: file.name,
+          detected_type: contentAnalysis.detectedType,
+          sampled_pages: contentAnalysis.sampledPages,
+          suggested: Object.keys(contentAnalysis.suggestedOptions),
+        })
+        setPendingUploads((prev) => prev.map((f) => (f.file === file ? { ...f, contentAnalysis } : f)))
+      })
+      .catch((error) => {
+        logWarn("[ANALYZER] Failed to analyze file content", {
+          filename: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+  }
+
+  // Hash file content in the background so duplicates can be spotted before uploading
+  const startContentHash = (file: File) => {
+    hashFile(file, (percentage) => {
+      setPendingUploads((prev) => prev.map((f) => (f.file === file ? { ...f, hashProgress: percentage } : f)))
+    })
+      .then((contentHash) => {
+        log("[HASH] Content hash computed", { filename: file.name, content_hash: contentHash })
+        setPendingUploads((prev) =>
+          prev.map((f) => (f.file === file ? { ...f, contentHash, hashProgress: undefined } : f)),
+        )
+      })
+      .catch((error) => {
+        logWarn("[HASH] Failed to hash file, duplicate detection disabled for it", {
+          filename: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+        setPendingUploads((prev) => prev.map((f) => (f.file === file ? { ...f, hashProgress: undefined } : f)))
+      })
+  }
+
+  // Look up earlier conversions of the same content whenever hashes or settings change
+  useEffect(() => {
+    // Key each lookup by content plus the file's effective settings (global + per-file overrides)
+    const checkKey = (f: PendingUpload) => {
+      const settings = getFileSettings(f)
+      if (settings.deviceProfile === "Placeholder") return undefined
+      const backendOptions = convertAdvancedOptionsToBackend(settings.advancedOptions)
+      return `${f.contentHash}|${settings.deviceProfile}|${JSON.stringify(backendOptions)}`
+    }
+
+    const toCheck = pendingUploads
+      .filter((f) => f.contentHash && !f.jobId && !f.isConverted)
+      .map((f) => ({ upload: f, key: checkKey(f) }))
+      .filter(({ upload, key }) => key !== undefined && upload.duplicateCheckKey !== key)
+    if (toCheck.length === 0) return
+
+    // Mark as checked up front so re-renders don't start duplicate lookups
+    setPendingUploads((prev) =>
+      prev.map((f) => {
+        const check = toCheck.find((c) => c.upload.file === f.file)
+        return check ? { ...f, duplicateCheckKey: check.key } : f
+      }),
+    )
+
+    ensureSessionKey()
+      .then((sessionKey) =>
+        Promise.all(
+          toCheck.map(async ({ upload, key }) => {
+            const settings = getFileSettings(upload)
+            return {
+              file: upload.file,
+              key,
+              duplicate: await findConvertedDuplicate(
+                upload.contentHash!,
+                settings.deviceProfile,
+                convertAdvancedOptionsToBackend(settings.advancedOptions),
+                sessionKey,
+              ),
+            }
+          }),
+        ),
+      )
+      .then((results) => {
+        setPendingUploads((prev) =>
+          prev.map((f) => {
+            const result = results.find((r) => r.file === f.file)
+            if (!result || f.duplicateCheckKey !== result.key) return f
+            return { ...f, convertedDuplicate: result.duplicate ?? undefined }
+          }),
+        )
+      })
+      .catch((error) => {
+        logWarn("[HASH] Duplicate lookup skipped", { error: error instanceof Error ? error.message : String(error) })
+      })
+  }, [pendingUploads, selectedProfile, advancedOptions])
+
+  // Use an earlier conversion's download instead of uploading the same content again
+  const handleReuseDownload = (file: PendingUpload) => {
+    const duplicate = file.convertedDuplicate
+    if (!duplicate) return
+
+    log("[HASH] Reusing earlier conversion", duplicate.job_id, {
+      filename: file.name,
+      content_hash: file.contentHash,
+    })
+
+    setPendingUploads((prev) =>
+      prev.map((f) =>
+        f === file
+          ? {
+              ...f,
+              status: "COMPLETE",
+              isConverted: true,
+              convertedName: duplicate.output_filename || f.name,
+              downloadId: duplicate.job_id,
+              convertedTimestamp: duplicate.completed_at ? new Date(duplicate.completed_at).getTime() : Date.now(),
+              inputFileSize: f.size,
+              convertedDuplicate: undefined,
+            }
+          : f,
+      ),
+    )
+    toast.success(`Reusing earlier conversion of ${file.name}`)
+  }
+
+  // Replace `sources` with `volumes` at the position of the first source, keeping its settings
+  const replaceWithVolumes = (sources: PendingUpload[], volumes: File[]) => {
+    const template = sources[0]
+    const newUploads: PendingUpload[] = volumes.map((file) => ({
+      name: file.name,
+      size: file.size,
+      file,
+      deviceProfile: template.deviceProfile,
+      advancedOptions: template.advancedOptions,
+      deviceProfileOverride: template.deviceProfileOverride,
+      optionOverrides: template.optionOverrides,
+    }))
+
+    setPendingUploads((prev) => {
+      const remaining = prev.filter((f) => !sources.includes(f))
+      const insertAt = prev.indexOf(template)
+      const position =
+        insertAt === -1 ? remaining.length : prev.slice(0, insertAt).filter((f) => !sources.includes(f)).length
+      return [...remaining.slice(0, position), ...newUploads, ...remaining.slice(position)]
+    })
+    newUploads.forEach((upload) => startFileChecks(upload.file))
+  }
+
+  const handleMergeFiles = async (files: PendingUpload[]) => {
+    const toastId = toast.loading(`Merging ${files.length} files...`)
+    try {
+      const volume = await mergeVolumes(
+        files.map((f) => f.file),
+        (percentage) => toast.loading(`Merging ${files.length} files... ${Math.round(percentage)}%`, { id: toastId }),
+      )
+      replaceWithVolumes(files, [volume])
+      toast.success(`Merged into ${volume.name}`, { id: toastId })
+    } catch (error) {
+      logError("[VOLUMES] Merge failed", { error: error instanceof Error ? error.message : String(error) })
+      toast.error("Could not merge files", {
+        id: toastId,
+        description: error instanceof Error ? error.message : "Failed to read the archives",
+      })
+    }
+  }
+
+  const handleSplitFile = async (file: PendingUpload, options: SplitOptions) => {
+    const toastId = toast.loading(`Splitting ${file.name}...`)
+    try {
+      const volumes = await splitVolume(file.file, options, (percentage) =>
+        toast.loading(`Splitting ${file.name}... ${Math.round(percentage)}%`, { id: toastId }),
+      )
+      if (volumes.length === 1) {
+        toast.info("Nothing to split", { id: toastId, description: "The file already fits in a single volume." })
+        return
+      }
+      replaceWithVolumes([file], volumes)
+      toast.success(`Split into ${volumes.length} volumes`, { id: toastId })
+    } catch (error) {
+      logError("[VOLUMES] Split failed", { error: error instanceof Error ? error.message : String(error) })
+      toast.error("Could not split file", {
+        id: toastId,
+        description: error instanceof Error ? error.message : "Failed to read the archive",
+      })
+    }
+  }
+
+  // Global settings with the file's own overrides applied
+  const getFileSettings = (file: PendingUpload) => {
     return {
-      deviceProfile: selectedProfile,
-      advancedOptions: advancedOptions,
+      deviceProfile: file.deviceProfileOverride ?? selectedProfile,
+      advancedOptions: { ...advancedOptions, ...file.optionOverrides },
     }
   }
 
+  const handleUpdateFileOverrides = (file: PendingUpload, overrides: FileOverrides) => {
+    log("[OPTIONS] Per-file overrides updated", {
+      filename: file.name,
+      device_profile: overrides.deviceProfileOverride,
+      options: overrides.optionOverrides ? Object.keys(overrides.optionOverrides) : [],
+    })
+    setPendingUploads((prev) =>
+      prev.map((f) =>
+        f === file
+          ? {
+              ...f,
+              deviceProfileOverride: overrides.deviceProfileOverride,
+              optionOverrides: overrides.optionOverrides,
+            }
+          : f,
+      ),
+    )
+  }
+
   const areSettingsValid = () => {
     // Check if device is selected
     if (selectedProfile === "Placeholder") {
@@ -661,9 +1128,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
 
   const hasActiveJobs = () => {
     // Check if any jobs are currently uploading, queued, or processing
-    return pendingUploads.some(
-      (file) => file.status === "UPLOADING" || file.status === "QUEUED" || file.status === "PROCESSING",
-    )
+    return pendingUploads.some((file) => isActiveJobState(file.status))
   }
 
   const handleApplySettings = () => {
@@ -697,7 +1162,16 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
       return
     }
 
-    const filesToConvert = pendingUploads.filter((file) => !file.isConverted)
+    const invalidFiles = pendingUploads.filter(
+      (file) => !file.isConverted && !file.jobId && (file.validationReport?.errors.length ?? 0) > 0,
+    )
+    const filesToConvert = pendingUploads.filter((file) => !file.isConverted && !invalidFiles.includes(file))
+
+    if (invalidFiles.length > 0) {
+      toast.warning(`Skipping ${invalidFiles.length} invalid file${invalidFiles.length !== 1 ? "s" : ""}`, {
+        description: invalidFiles.map((file) => file.name).join(", "),
+      })
+    }
 
     if (filesToConvert.length === 0) {
       toast.info("All files already converted", {
@@ -706,32 +1180,40 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
       return
     }
 
-    if (selectedProfile === "Placeholder") {
+    // Each file is checked with its own settings, so a per-file device counts even without a global one
+    const filesToStart = filesToConvert.filter((file) => !(file.isMonitoring && file.jobId))
+    const withoutDevice = filesToStart.filter((file) => getFileSettings(file).deviceProfile === "Placeholder")
+    if (withoutDevice.length > 0) {
       setNeedsConfiguration(true)
       toast.warning("No device selected", {
-        description: "Please select your E-Reader device before starting the conversion.",
+        description:
+          withoutDevice.length === filesToStart.length
+            ? "Please select your E-Reader device before starting the conversion."
+            : `Select a device for ${withoutDevice.map((file) => file.name).join(", ")} before starting the conversion.`,
       })
       return
     }
 
-    // Validate advanced options for OTHER profile
-    if (selectedProfile === "OTHER") {
+    // Validate advanced options for files using the OTHER profile
+    for (const file of filesToStart) {
+      const { deviceProfile, advancedOptions: fileOptions } = getFileSettings(file)
+      if (deviceProfile !== "OTHER") continue
+
       if (
-        !advancedOptions.customWidth ||
-        !advancedOptions.customHeight ||
-        !advancedOptions.outputFormat ||
-        advancedOptions.outputFormat === "Auto"
+        !fileOptions.customWidth ||
+        !fileOptions.customHeight ||
+        !fileOptions.outputFormat ||
+        fileOptions.outputFormat === "Auto"
       ) {
         toast.warning("Missing required settings", {
-          description:
-            "Custom width, height, and output format (not 'Auto') are required when using 'Other' device profile. Please configure them in Advanced Options.",
+          description: `File "${file.name}": Custom width, height, and output format (not 'Auto') are required when using 'Other' device profile. Please configure them in Advanced Options.`,
         })
         return
       }
 
-      if (advancedOptions.customWidth <= 0 || advancedOptions.customHeight <= 0) {
+      if (fileOptions.customWidth <= 0 || fileOptions.customHeight <= 0) {
         toast.warning("Invalid dimensions", {
-          description: "Custom width and height must be greater than 0.",
+          description: `File "${file.name}": Custom width and height must be greater than 0.`,
         })
         return
       }
@@ -793,34 +1275,10 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
         maxUploadProgressRef.current = 0 // Reset max upload progress for this file
 
         const filename = currentFile.name
-        const fileSettings = getFileSettings()
+        const fileSettings = getFileSettings(currentFile)
         const fileDeviceProfile = fileSettings.deviceProfile
         const fileAdvancedOptions = fileSettings.advancedOptions
 
-        // Validate advanced options for OTHER profile
-        if (fileDeviceProfile === "OTHER") {
-          if (
-            !fileAdvancedOptions.customWidth ||
-            !fileAdvancedOptions.customHeight ||
-            !fileAdvancedOptions.outputFormat ||
-            fileAdvancedOptions.outputFormat === "Auto"
-          ) {
-            toast.warning("Missing required settings", {
-              description: `File "${currentFile.name}": Custom width, height, and output format (not 'Auto') are required when using 'Other' device profile.`,
-            })
-            hasErrors = true
-            return // Return early in map, equivalent to continue in for loop
-          }
-
-          if (fileAdvancedOptions.customWidth <= 0 || fileAdvancedOptions.customHeight <= 0) {
-            toast.warning("Invalid dimensions", {
-              description: `File "${currentFile.name}": Custom width and height must be greater than 0.`,
-            })
-            hasErrors = true
-            return // Return early in map, equivalent to continue in for loop
-          }
-        }
-
         // Set initial upload state immediately (prevents "ready" flash before upload starts)
         // </CHANGE> Removed shared progress states, now handled per job
         // setUploadProgress(0)
@@ -924,6 +1382,9 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
                 initialStatus: "UPLOADING",
               })
             },
+            undefined, // Upload progress is reported by the backend, not over WebSocket
+            currentFile.contentHash,
+            toBackendMetadata(currentFile.metadata),
           )
         } catch (uploadInitError) {
           logError("Failed to initialize upload", {
@@ -992,15 +1453,8 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
         // setRemainingTime(undefined)
         // setCurrentStatus(undefined)
       } catch (error) {
-        const actualErrorMessage = error instanceof Error ? error.message : String(error)
-
         // Check if this was a user cancellation (don't show error toast or log as error)
-        if (
-          actualErrorMessage.includes("cancelled by user") ||
-          actualErrorMessage.includes("Upload cancelled") ||
-          actualErrorMessage.includes("Upload aborted") ||
-          actualErrorMessage.includes("Job cancelled")
-        ) {
+        if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
           log("[v0] Job cancelled by user, cleaning up...")
           log("Job cancelled by user", jobId, { filename: currentFile.name })
 
@@ -1071,6 +1525,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
 
     // Mark job as being cancelled (show spinner)
     setCancellingJobs((prev) => new Set(prev).add(file.jobId!))
+    recordFinishedJob(file, "CANCELLED")
 
     // Log in background (don't block UI)
     log("Cancel button clicked", file.jobId, {
@@ -1088,7 +1543,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
       })
       .catch((error) => {
         // Silently handle expected cancellation errors
-        if (error?.message?.includes("Upload cancelled")) {
+        if (isApiError(error, "ABORTED")) {
           log("[v0] Upload cancellation handled gracefully")
         } else {
           logError("[v0] Unexpected error during upload abort:", error)
@@ -1117,7 +1572,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     setPendingUploads((prev) => prev.filter((f) => f.jobId !== file.jobId))
 
     // Unsubscribe from job WebSocket updates
-    unsubscribeFromJob(file.jobId)
+    realtimeClient?.unsubscribeFromJob(file.jobId)
 
     // Show immediate feedback
     toast.success(`Cancelled ${file.name}`)
@@ -1128,39 +1583,8 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
 
-      const response = await fetchWithLicense(`/api/jobs/${file.jobId}/cancel`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        signal: controller.signal,
-      }).finally(() => clearTimeout(timeoutId))
-
-      if (!response.ok) {
-        // Handle 429 - another cancellation in progress
-        if (response.status === 429) {
-          const error = await response.json()
-          logWarn("[v0] Cancellation rejected by backend: another cancellation in progress", {
-            job_id: file.jobId,
-            active_job: error.active_job_id,
-          })
-          toast.warning("Please wait", {
-            description: error.message || "Another cancellation is in progress on the server.",
-          })
-          // Don't proceed with UI removal for 429
-          setCancellingJobs((prev) => {
-            const newSet = new Set(prev)
-            newSet.delete(file.jobId!)
-            return newSet
-          })
-          return
-        }
-
-        const error = await response.json()
-        throw new Error(error.error || "Failed to cancel job")
-      }
-
-      const data = await response.json()
+      const sessionKey = await ensureSessionKey()
+      const data = await cancelJob(sessionKey, file.jobId, controller.signal).finally(() => clearTimeout(timeoutId))
 
       log("Job cancellation confirmed by backend", file.jobId, {
         filename: file.name,
@@ -1174,8 +1598,17 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
         return newSet
       })
     } catch (error) {
-      // Log backend errors but don't show to user (job already removed from UI)
-      if (error instanceof Error && error.name === "AbortError") {
+      if (isApiError(error, "RATE_LIMITED")) {
+        // Another cancellation is in progress on the server
+        logWarn("[v0] Cancellation rejected by backend: another cancellation in progress", {
+          job_id: file.jobId,
+          active_job: error.details?.active_job_id,
+        })
+        toast.warning("Please wait", {
+          description: error.message || "Another cancellation is in progress on the server.",
+        })
+      } else if (isApiError(error, "ABORTED")) {
+        // Log backend errors but don't show to user (job already removed from UI)
         logWarn("[v0] Backend cancel timed out (job already removed from UI)", file.jobId)
       } else {
         logError("[v0] Backend cancel failed (job already removed from UI):", error)
@@ -1197,15 +1630,25 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     }))
   }
 
+  const handleApplyPreset = (preset: OptionPreset) => {
+    log("[PRESETS] Applying preset", { name: preset.name, device_profile: preset.deviceProfile })
+    setSelectedProfile(preset.deviceProfile)
+    setAdvancedOptions({ ...preset.options })
+  }
+
   const handleReorder = (newOrder: PendingUpload[]) => {
     setPendingUploads(newOrder)
   }
 
   // Converted files management removed
 
+  // Unconverted files with neither a device of their own nor a global one
+  const hasFilesWithoutDevice = () =>
+    pendingUploads.some((file) => !file.isConverted && getFileSettings(file).deviceProfile === "Placeholder")
+
   const isReadyToConvert = () => {
     const hasFilesToConvert = pendingUploads.some((file) => !file.isConverted)
-    return hasFilesToConvert && selectedProfile !== "Placeholder" && !isConverting
+    return hasFilesToConvert && !hasFilesWithoutDevice() && !isConverting
   }
 
   const getValidFileCount = () => {
@@ -1219,9 +1662,11 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     }
 
     if (isReadyToConvert()) {
+      // Asked here because browsers only allow the prompt during a click
+      requestJobNotifications()
       handleConvert()
     } else {
-      if (selectedProfile === "Placeholder") {
+      if (hasFilesWithoutDevice()) {
         handleGlobalConfigPulsate()
       }
 
@@ -1229,7 +1674,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
         toast.warning("No files to convert", {
           description: "Please upload at least one file to start conversion.",
         })
-      } else if (selectedProfile === "Placeholder") {
+      } else if (hasFilesWithoutDevice()) {
         toast.warning("No device selected", {
           description: "Please select your E-Reader device before starting the conversion.",
         })
@@ -1284,6 +1729,12 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
     queueRef.current = [...pendingUploads]
   }, [pendingUploads])
 
+  // Part slots go to uploads in the order the queue shows them
+  const uploadOrder = pendingUploads.flatMap((file) => (file.jobId ? [file.jobId] : [])).join(",")
+  useEffect(() => {
+    uploadScheduler.setPriority(uploadOrder ? uploadOrder.split(",") : [])
+  }, [uploadOrder])
+
   useEffect(() => {
     if (sidebarOpen || selectedProfile !== "Placeholder") {
       setNeedsConfiguration(false)
@@ -1362,21 +1813,23 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
           </Alert>
         )}
 
-        {/* My Downloads - Collapsible for logged-in users */}
-        {isUserLoaded && user && (
+        {/* Conversion history - this browser's for everyone, plus other devices' for logged-in users */}
+        {isUserLoaded && (
           <Collapsible open={downloadsOpen} onOpenChange={setDownloadsOpen}>
             <CollapsibleTrigger asChild>
               <Card className="cursor-pointer hover:border-primary/50 transition-colors">
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
-                      <Download className="h-5 w-5" />
+                      <History className="h-5 w-5" />
                       <div>
-                        <CardTitle>My Downloads</CardTitle>
+                        <CardTitle>Conversion History</CardTitle>
                         <CardDescription className="mt-1">
                           {downloadsOpen
                             ? "Click to collapse"
-                            : "All your converted files across devices • Files available for 24 hours"}
+                            : user
+                              ? "All your converted files across devices • Files available for 24 hours"
+                              : "Files converted in this browser • Search, download or convert again"}
                         </CardDescription>
                       </div>
                     </div>
@@ -1390,7 +1843,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
               </Card>
             </CollapsibleTrigger>
             <CollapsibleContent className="mt-3">
-              <MyDownloads limit={50} />
+              <ConversionHistory signedIn={!!user} deviceProfiles={DEVICE_PROFILES} onReconvert={handleReconvert} />
             </CollapsibleContent>
           </Collapsible>
         )}
@@ -1406,6 +1859,7 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
                     : "Upload your comic or manga files to get started"}
                 </CardDescription>
               </div>
+              <ConnectionIndicator />
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -1444,6 +1898,12 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
                   onOpenSidebar={() => setSidebarOpen(true)}
                   onStartConversion={handleConvertButtonClick}
                   isReadyToConvert={isReadyToConvert}
+                  onReuseDownload={handleReuseDownload}
+                  onRetryJob={handleRetryJob}
+                  onMergeFiles={handleMergeFiles}
+                  onUpdateFileOverrides={handleUpdateFileOverrides}
+                  onUpdateMetadata={handleUpdateMetadata}
+                  onSplitFile={handleSplitFile}
                 />
                 <input
                   type="file"
@@ -1480,6 +1940,14 @@ export function MangaConverter({ contentType }: { contentType: "comic" | "manga"
           </SheetHeader>
 
           <div className="space-y-6 mt-6 pb-32">
+            {/* Presets */}
+            <PresetSelector
+              selectedProfile={selectedProfile}
+              options={advancedOptions}
+              deviceProfiles={DEVICE_PROFILES}
+              onApplyPreset={handleApplyPreset}
+            />
+
             {/* Device Selector */}
             <div className="space-y-2">
               <Label className="text-base font-semibold">E-Reader Device</Label>
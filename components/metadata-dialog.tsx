@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { PendingUpload } from "./manga-converter"
+import { METADATA_FIELDS, type BookMetadata } from "@/lib/bookMetadata"
+
+const FIELD_LABELS: Record<keyof BookMetadata, string> = {
+  series: "Series",
+  volume: "Volume",
+  title: "Title",
+  writer: "Writer",
+  publisher: "Publisher",
+  language: "Language (ISO code)",
+  year: "Year",
+}
+
+const NUMERIC_FIELDS: (keyof BookMetadata)[] = ["volume", "year"]
+
+type FormValues = Record<keyof BookMetadata, string>
+
+interface MetadataDialogProps {
+  // One file edits its values; several files apply the filled-in fields to all of them
+  files: PendingUpload[]
+  onSave: (updates: { file: PendingUpload; metadata: BookMetadata }[]) => void
+  onClose: () => void
+}
+
+// Values shared by every file start filled in; fields that differ start empty ("keep as is")
+function initialValues(files: PendingUpload[]): FormValues {
+  return Object.fromEntries(
+    METADATA_FIELDS.map((field) => {
+      const values = new Set(files.map((file) => file.metadata?.[field]))
+      const [value] = Array.from(values)
+      return [field, values.size === 1 && value !== undefined ? String(value) : ""]
+    }),
+  ) as FormValues
+}
+
+function parseField(field: keyof BookMetadata, value: string): string | number | undefined {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+  if (NUMERIC_FIELDS.includes(field)) {
+    const number = Number.parseFloat(trimmed)
+    return Number.isFinite(number) ? number : undefined
+  }
+  return trimmed
+}
+
+export function MetadataDialog({ files, onSave, onClose }: MetadataDialogProps) {
+  const isBulk = files.length > 1
+  const [values, setValues] = useState<FormValues>(() => initialValues(files))
+  const [autoNumber, setAutoNumber] = useState(false)
+  const [firstVolume, setFirstVolume] = useState("1")
+
+  const handleSave = () => {
+    const start = Number.parseInt(firstVolume, 10) || 1
+    const edited: BookMetadata = Object.fromEntries(
+      METADATA_FIELDS.flatMap((field) => {
+        const value = parseField(field, values[field])
+        return value === undefined ? [] : [[field, value]]
+      }),
+    )
+
+    onSave(
+      files.map((file, index) => {
+        // In bulk mode an empty field keeps each file's own value
+        const metadata: BookMetadata = isBulk ? { ...file.metadata, ...edited } : edited
+        return { file, metadata: autoNumber ? { ...metadata, volume: start + index } : metadata }
+      }),
+    )
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isBulk ? `Edit metadata for ${files.length} files` : "Edit metadata"}</DialogTitle>
+          <DialogDescription className="break-all">
+            {isBulk
+              ? "Filled-in fields are applied to every selected file. Empty fields keep each file's own value."
+              : files[0].name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {METADATA_FIELDS.map((field) => (
+            <div
+              key={field}
+              className={`space-y-1.5 ${field === "series" || field === "title" ? "sm:col-span-2" : ""}`}
+            >
+              <Label htmlFor={`metadata-${field}`}>{FIELD_LABELS[field]}</Label>
+              <Input
+                id={`metadata-${field}`}
+                type={NUMERIC_FIELDS.includes(field) ? "number" : "text"}
+                value={values[field]}
+                onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+                placeholder={isBulk ? "Keep as is" : undefined}
+                disabled={field === "volume" && autoNumber}
+              />
+            </div>
+          ))}
+        </div>
+
+        {isBulk && (
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="metadata-auto-number"
+              checked={autoNumber}
+              onCheckedChange={(checked) => setAutoNumber(checked === true)}
+            />
+            <Label htmlFor="metadata-auto-number" className="flex-1">
+              Number volumes in queue order, starting at
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              value={firstVolume}
+              onChange={(e) => setFirstVolume(e.target.value)}
+              disabled={!autoNumber}
+              className="w-20"
+              aria-label="First volume number"
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
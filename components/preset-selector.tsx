@@ -0,0 +1,188 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Bookmark, Download, Save, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import type { AdvancedOptionsType } from "@/lib/advancedOptions"
+import { useOptionPresets } from "@/hooks/useOptionPresets"
+import { PresetImportError, type OptionPreset } from "@/lib/presets"
+import { logError } from "@/lib/logger"
+
+interface PresetSelectorProps {
+  selectedProfile: string
+  options: AdvancedOptionsType
+  deviceProfiles: Record<string, string>
+  onApplyPreset: (preset: OptionPreset) => void
+}
+
+export function PresetSelector({ selectedProfile, options, deviceProfiles, onApplyPreset }: PresetSelectorProps) {
+  const { presets, savePreset, deletePreset, importPresets, exportPresets } = useOptionPresets()
+  const [activePresetId, setActivePresetId] = useState<string>("")
+  const [isNaming, setIsNaming] = useState(false)
+  const [presetName, setPresetName] = useState("")
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const activePreset = presets.find((preset) => preset.id === activePresetId)
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((p) => p.id === id)
+    if (!preset) return
+    setActivePresetId(id)
+    onApplyPreset(preset)
+    toast.success(`Preset "${preset.name}" applied`)
+  }
+
+  const handleSave = () => {
+    if (selectedProfile === "Placeholder") {
+      toast.warning("No device selected", { description: "Select an e-reader before saving a preset." })
+      return
+    }
+    if (!presetName.trim()) return
+
+    try {
+      const preset = savePreset(presetName, selectedProfile, options)
+      setActivePresetId(preset.id)
+      setIsNaming(false)
+      setPresetName("")
+      toast.success(`Preset "${preset.name}" saved`)
+    } catch (error) {
+      logError("[PRESETS] Failed to save preset", error)
+      toast.error("Could not save preset", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  const handleDelete = () => {
+    if (!activePreset) return
+    deletePreset(activePreset.id)
+    setActivePresetId("")
+    toast.success(`Preset "${activePreset.name}" deleted`)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets()], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "mangaconverter-presets.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const count = importPresets(await file.text())
+      if (count === 0) {
+        toast.info("Presets already up to date", { description: "The file has no new or newer presets." })
+      } else {
+        toast.success(`Imported ${count} preset${count !== 1 ? "s" : ""}`)
+      }
+    } catch (error) {
+      if (error instanceof PresetImportError) {
+        toast.error("Invalid preset file", { description: error.message })
+        return
+      }
+      logError("[PRESETS] Failed to import presets", error)
+      toast.error("Could not import presets")
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Bookmark className="h-5 w-5 text-muted-foreground" />
+        <label htmlFor="preset-selector" className="text-base font-medium">
+          Presets
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={activePresetId} onValueChange={handleSelect}>
+          <SelectTrigger id="preset-selector" className="flex-1">
+            <SelectValue placeholder={presets.length > 0 ? "Apply a preset" : "No saved presets"} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {deviceProfiles[preset.deviceProfile] || preset.deviceProfile}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleDelete}
+          disabled={!activePreset}
+          aria-label="Delete preset"
+          title="Delete preset"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isNaming ? (
+        <div className="flex gap-2">
+          <Input
+            autoFocus
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave()
+              if (e.key === "Escape") setIsNaming(false)
+            }}
+            placeholder="Preset name, e.g. Kindle Scribe manga HQ"
+            maxLength={80}
+            aria-label="Preset name"
+          />
+          <Button onClick={handleSave} disabled={!presetName.trim()}>
+            Save
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setPresetName(activePreset?.name ?? "")
+              setIsNaming(true)
+            }}
+          >
+            <Save className="mr-2 h-3 w-3" />
+            Save current settings
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-3 w-3" />
+            Import
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleExport} disabled={presets.length === 0}>
+            <Download className="mr-2 h-3 w-3" />
+            Export
+          </Button>
+        </div>
+      )}
+
+      <input
+        type="file"
+        ref={importInputRef}
+        onChange={handleImportFile}
+        accept="application/json,.json"
+        className="hidden"
+      />
+    </div>
+  )
+}
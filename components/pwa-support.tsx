@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useSessionUpdates } from "@/contexts/realtime-context"
+import { isFinishedStatus, notifyJobFinished } from "@/lib/jobNotifications"
+import { log, logWarn } from "@/lib/logger"
+import type { QueueJob } from "@/lib/realtimeClient"
+
+// Registers the service worker and announces jobs that finish while the tab is in the background.
+// Production only: in development the worker would keep serving stale builds.
+export function PwaSupport() {
+  const sessionStatus = useSessionUpdates()
+  const lastStatuses = useRef<Map<string, QueueJob["status"]> | null>(null)
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker.register("/sw.js").then(
+      (registration) => log("[PWA] Service worker registered", { scope: registration.scope }),
+      (error) =>
+        logWarn("[PWA] Service worker registration failed", {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+    )
+  }, [])
+
+  useEffect(() => {
+    if (!sessionStatus) return
+    const previous = lastStatuses.current
+    lastStatuses.current = new Map(sessionStatus.jobs.map((job) => [job.job_id, job.status]))
+
+    // The first update is where the queue stood, not a change; a visible tab shows its own toasts
+    if (!previous || document.visibilityState === "visible") return
+    for (const job of sessionStatus.jobs) {
+      const before = previous.get(job.job_id)
+      if (before && before !== job.status && isFinishedStatus(job.status)) {
+        notifyJobFinished(job, job.status)
+      }
+    }
+  }, [sessionStatus])
+
+  return null
+}
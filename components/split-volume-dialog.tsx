@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { SplitMode, SplitOptions } from "@/lib/volumeTools"
+
+interface SplitVolumeDialogProps {
+  fileName: string
+  onSplit: (options: SplitOptions) => void
+  onClose: () => void
+}
+
+const DEFAULT_PAGES_PER_VOLUME = 200
+const DEFAULT_MB_PER_VOLUME = 200
+
+export function SplitVolumeDialog({ fileName, onSplit, onClose }: SplitVolumeDialogProps) {
+  const [mode, setMode] = useState<SplitMode>("pages")
+  const [pages, setPages] = useState(DEFAULT_PAGES_PER_VOLUME)
+  const [megabytes, setMegabytes] = useState(DEFAULT_MB_PER_VOLUME)
+
+  const limit = mode === "pages" ? pages : megabytes * 1024 * 1024
+  const isValid = mode === "pages" ? pages >= 1 : megabytes >= 1
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Split into volumes</DialogTitle>
+          <DialogDescription className="break-all">{fileName}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as SplitMode)} className="gap-4">
+          <div className="flex items-center gap-3">
+            <RadioGroupItem value="pages" id="split-pages" />
+            <Label htmlFor="split-pages" className="flex-1">
+              Pages per volume
+            </Label>
+            <Input
+              type="number"
+              min={1}
+              value={pages}
+              onChange={(e) => setPages(Number.parseInt(e.target.value, 10) || 0)}
+              disabled={mode !== "pages"}
+              className="w-28"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <RadioGroupItem value="size" id="split-size" />
+            <Label htmlFor="split-size" className="flex-1">
+              Maximum size per volume (MB)
+            </Label>
+            <Input
+              type="number"
+              min={1}
+              value={megabytes}
+              onChange={(e) => setMegabytes(Number.parseInt(e.target.value, 10) || 0)}
+              disabled={mode !== "size"}
+              className="w-28"
+            />
+          </div>
+        </RadioGroup>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSplit({ mode, limit })} disabled={!isValid}>
+            Split
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { Gauge } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useUploadScheduler } from "@/hooks/use-upload-scheduler"
+import { uploadScheduler } from "@/lib/uploadScheduler"
+
+const MB = 1024 * 1024
+
+// Bytes per second; "0" means no cap
+const LIMIT_OPTIONS = [
+  { value: "0", label: "Unlimited" },
+  { value: String(0.5 * MB), label: "512 KB/s" },
+  { value: String(1 * MB), label: "1 MB/s" },
+  { value: String(2 * MB), label: "2 MB/s" },
+  { value: String(5 * MB), label: "5 MB/s" },
+  { value: String(10 * MB), label: "10 MB/s" },
+]
+
+// Caps total upload speed so a big batch doesn't use up the whole connection
+export function UploadSpeedLimit() {
+  const { bandwidthLimitBps } = useUploadScheduler()
+  const value = String(bandwidthLimitBps ?? 0)
+  // A limit saved from elsewhere (or an older option list) still shows up
+  const options = LIMIT_OPTIONS.some((option) => option.value === value)
+    ? LIMIT_OPTIONS
+    : [...LIMIT_OPTIONS, { value, label: `${(Number(value) / MB).toFixed(1)} MB/s` }]
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Gauge className="h-4 w-4" />
+      <span id="upload-speed-limit-label">Upload speed</span>
+      <Select value={value} onValueChange={(next) => uploadScheduler.setBandwidthLimit(Number(next) || null)}>
+        <SelectTrigger className="h-8 w-[130px]" aria-labelledby="upload-speed-limit-label">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
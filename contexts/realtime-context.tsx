@@ -0,0 +1,69 @@
+"use client"
+
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react"
+import { useSession } from "@/hooks/use-session"
+import { RealtimeClient, type ConnectionState, type JobStatus, type QueueStatus } from "@/lib/realtimeClient"
+
+interface RealtimeContextType {
+  client: RealtimeClient | null
+  connection: ConnectionState
+}
+
+const RealtimeContext = createContext<RealtimeContextType>({
+  client: null,
+  connection: { status: "idle", attempt: 0, transport: "websocket" },
+})
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { sessionKey, isLoading } = useSession()
+  const [client] = useState(() => new RealtimeClient(process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060"))
+  const [connection, setConnection] = useState<ConnectionState>(() => client.getState())
+
+  useEffect(() => client.onStateChange(setConnection), [client])
+
+  // The socket authenticates with the session key, so (re)connect whenever it changes
+  useEffect(() => {
+    if (isLoading || !sessionKey) return
+    client.connect(sessionKey)
+  }, [client, sessionKey, isLoading])
+
+  useEffect(() => () => client.disconnect(), [client])
+
+  return <RealtimeContext.Provider value={{ client, connection }}>{children}</RealtimeContext.Provider>
+}
+
+export function useRealtime() {
+  return useContext(RealtimeContext)
+}
+
+/**
+ * Latest session-wide queue status, or null until the first update arrives
+ */
+export function useSessionUpdates(): QueueStatus | null {
+  const { client } = useRealtime()
+  const [status, setStatus] = useState<QueueStatus | null>(() => client?.getSessionStatus() ?? null)
+
+  useEffect(() => client?.onSessionUpdate(setStatus), [client])
+
+  return status
+}
+
+/**
+ * Status updates for the given jobs, delivered to `onStatus` until the jobs leave the list
+ */
+export function useJobStatuses(jobIds: string[], onStatus: (status: JobStatus) => void) {
+  const { client } = useRealtime()
+  const handlerRef = useRef(onStatus)
+  handlerRef.current = onStatus
+
+  // Sorted so reordering the queue doesn't resubscribe
+  const key = [...jobIds].sort().join(",")
+
+  useEffect(() => {
+    if (!client || !key) return
+    const unsubscribers = key
+      .split(",")
+      .map((jobId) => client.subscribeToJob(jobId, (status) => handlerRef.current(status)))
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [client, key])
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { EtaEngine, type JobEta, type JobObservation } from "@/lib/etaEngine"
+import { estimateQueueWait } from "@/lib/queueWait"
+
+// How often estimates are re-read while a job is running, so bars and countdowns move between updates
+const TICK_MS = 250
+
+export interface TrackedJobObservation {
+  jobId: string
+  observation: JobObservation
+}
+
+export interface JobEtas {
+  estimate: (jobId: string | undefined) => JobEta | null
+  // Epoch ms when every running job should be converted
+  batchDoneAt: number | null
+}
+
+/**
+ * Live per-job ETAs for the given jobs. Pass a memoized list: every new list is fed to the engine.
+ */
+export function useJobEtas(jobs: TrackedJobObservation[], options: { speedWindow?: number } = {}): JobEtas {
+  const engineRef = useRef<EtaEngine | null>(null)
+  if (!engineRef.current) {
+    engineRef.current = new EtaEngine({
+      speedWindow: options.speedWindow,
+      // From the queue position and how long recent conversions like this one took
+      estimateQueueWait: (_, observation) =>
+        estimateQueueWait(observation.queuePosition ?? 0, observation.deviceProfile, observation.fileSize),
+    })
+  }
+  const engine = engineRef.current
+
+  const [, setTick] = useState(0)
+
+  useEffect(() => {
+    for (const { jobId, observation } of jobs) engine.observe(jobId, observation)
+    engine.retain(jobs.map((job) => job.jobId))
+    setTick((tick) => tick + 1)
+  }, [engine, jobs])
+
+  const running = jobs.length > 0
+  useEffect(() => {
+    if (!running) return
+    const interval = setInterval(() => setTick((tick) => tick + 1), TICK_MS)
+    return () => clearInterval(interval)
+  }, [running])
+
+  return {
+    estimate: (jobId) => (jobId ? engine.estimate(jobId) : null),
+    batchDoneAt: engine.batchDoneAt(),
+  }
+}
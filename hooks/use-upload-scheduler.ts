@@ -0,0 +1,11 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { uploadScheduler, type UploadSchedulerSnapshot } from "@/lib/uploadScheduler"
+
+/**
+ * Paused uploads, upload priority and the bandwidth cap, re-rendering when any of them change
+ */
+export function useUploadScheduler(): UploadSchedulerSnapshot {
+  return useSyncExternalStore(uploadScheduler.subscribe, uploadScheduler.getSnapshot, uploadScheduler.getSnapshot)
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useUser } from '@clerk/nextjs'
+import type { AdvancedOptionsType } from '@/lib/advancedOptions'
+import { log, logWarn } from '@/lib/logger'
+import {
+  createPreset,
+  loadLocalPresets,
+  loadLocalTombstones,
+  mergePresets,
+  mergeTombstones,
+  parsePresetExport,
+  sanitizePresets,
+  sanitizeTombstones,
+  saveLocalPresets,
+  saveLocalTombstones,
+  serializePresetExport,
+  type OptionPreset,
+  type PresetTombstone,
+} from '@/lib/presets'
+
+// Keys in the Clerk user's unsafeMetadata (client-writable) that hold synced presets and deletions
+const ACCOUNT_METADATA_KEY = 'optionPresets'
+const ACCOUNT_DELETED_KEY = 'optionPresetsDeleted'
+
+/**
+ * Named device + options presets, kept in localStorage and mirrored to the
+ * signed-in user's Clerk metadata so they follow the account across devices.
+ * Deletions are synced too, so a preset deleted on one device doesn't come back from another.
+ */
+export function useOptionPresets() {
+  const { isSignedIn, user } = useUser()
+  const [presets, setPresets] = useState<OptionPreset[]>([])
+  const [deleted, setDeleted] = useState<PresetTombstone[]>([])
+  const syncedUserIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    setPresets(loadLocalPresets())
+    setDeleted(loadLocalTombstones())
+  }, [])
+
+  const pushToAccount = useCallback(
+    async (next: OptionPreset[], nextDeleted: PresetTombstone[]) => {
+      if (!isSignedIn || !user) return
+      try {
+        await user.update({
+          unsafeMetadata: {
+            ...user.unsafeMetadata,
+            [ACCOUNT_METADATA_KEY]: next,
+            [ACCOUNT_DELETED_KEY]: nextDeleted,
+          },
+        })
+      } catch (error) {
+        logWarn('[PRESETS] Failed to sync presets to account', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    },
+    [isSignedIn, user],
+  )
+
+  // On sign-in, merge account presets with local ones, minus the deleted ones, and write the result back to both
+  useEffect(() => {
+    if (!isSignedIn || !user || syncedUserIdRef.current === user.id) return
+    syncedUserIdRef.current = user.id
+
+    const local = loadLocalPresets()
+    const remote = sanitizePresets(user.unsafeMetadata?.[ACCOUNT_METADATA_KEY])
+    const remoteDeleted = sanitizeTombstones(user.unsafeMetadata?.[ACCOUNT_DELETED_KEY])
+    const mergedDeleted = mergeTombstones(loadLocalTombstones(), remoteDeleted)
+    const merged = mergePresets(local, remote, mergedDeleted)
+    log('[PRESETS] Synced presets with account', {
+      local: local.length,
+      remote: remote.length,
+      deleted: mergedDeleted.length,
+    })
+    setPresets(merged)
+    setDeleted(mergedDeleted)
+    saveLocalPresets(merged)
+    saveLocalTombstones(mergedDeleted)
+    if (
+      JSON.stringify(merged) !== JSON.stringify(mergePresets(remote, [])) ||
+      mergedDeleted.some((t) => !remoteDeleted.some((r) => r.id === t.id && r.deletedAt === t.deletedAt))
+    ) {
+      pushToAccount(merged, mergedDeleted)
+    }
+  }, [isSignedIn, user, pushToAccount])
+
+  const commit = useCallback(
+    (next: OptionPreset[], nextDeleted: PresetTombstone[] = deleted) => {
+      setPresets(next)
+      setDeleted(nextDeleted)
+      saveLocalPresets(next)
+      saveLocalTombstones(nextDeleted)
+      pushToAccount(next, nextDeleted)
+    },
+    [deleted, pushToAccount],
+  )
+
+  const savePreset = useCallback(
+    (name: string, deviceProfile: string, options: AdvancedOptionsType) => {
+      // Saving under an existing name updates that preset
+      const existing = presets.find((p) => p.name.toLowerCase() === name.trim().toLowerCase())
+      const preset = createPreset(name.trim(), deviceProfile, options)
+      const saved = existing ? { ...preset, id: existing.id } : preset
+      commit(mergePresets(presets.filter((p) => p.id !== saved.id), [saved]))
+      return saved
+    },
+    [presets, commit],
+  )
+
+  const deletePreset = useCallback(
+    (id: string) => {
+      commit(
+        presets.filter((p) => p.id !== id),
+        mergeTombstones(deleted, [{ id, deletedAt: Date.now() }]),
+      )
+    },
+    [presets, deleted, commit],
+  )
+
+  // Throws PresetImportError for invalid files; returns how many presets were added or updated
+  const importPresets = useCallback(
+    (text: string) => {
+      // Importing a deleted preset brings it back
+      const deletedIds = new Set(deleted.map((tombstone) => tombstone.id))
+      const now = Date.now()
+      const imported = parsePresetExport(text).map((p) => (deletedIds.has(p.id) ? { ...p, updatedAt: now } : p))
+      const merged = mergePresets(presets, imported, deleted)
+      commit(merged)
+      // Older copies of presets we already have lose the merge
+      return imported.filter((p) => merged.includes(p)).length
+    },
+    [presets, deleted, commit],
+  )
+
+  const exportPresets = useCallback(() => serializePresetExport(presets), [presets])
+
+  return { presets, savePreset, deletePreset, importPresets, exportPresets }
+}
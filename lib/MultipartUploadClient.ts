@@ -1,4 +1,30 @@
+import {
+  abortMultipartUpload,
+  ApiError,
+  BACKEND_URL,
+  completeMultipartPart,
+  finalizeMultipartUpload,
+  getMultipartPartUrls,
+  initiateMultipartUpload,
+  isApiError,
+  listUploadedParts,
+  type PartsBatch,
+} from "./apiClient"
+import {
+  canUploadInBackground,
+  clearBackgroundUpload,
+  registerBackgroundUpload,
+  releaseBackgroundUpload,
+} from "./backgroundUploads"
 import { log, logError } from "./logger"
+import { multipartChecksum, partChecksum } from "./uploadChecksums"
+import { uploadScheduler, type UploadScheduler } from "./uploadScheduler"
+import { UploadTuner, type UploadTuningState } from "./uploadTuner"
+import { clearUploadState, saveUploadState, type CompletedPart, type MultipartUploadState } from "./uploadStateStore"
+
+// Upload lock heartbeat; a lock that hasn't been refreshed for LOCK_STALE_MS belongs to a closed tab
+const LOCK_HEARTBEAT_MS = 10000
+const LOCK_STALE_MS = 30000
 
 interface MultipartUploadConfig {
   partSize?: number
@@ -6,6 +32,10 @@ interface MultipartUploadConfig {
   retryAttempts?: number
   retryDelay?: number
   uploadTimeoutMs?: number
+  // Hands out part slots across every upload in the tab; defaults to the shared one
+  scheduler?: UploadScheduler
+  // Throughput measured while uploading, for keeping the stored speed estimate current
+  onThroughput?: (bytesPerSecond: number) => void
 }
 
 interface UploadPart {
@@ -13,26 +43,48 @@ interface UploadPart {
   url: string
   blob: Blob
   etag?: string
+  // Base64 MD5 sent as Content-MD5; null when it couldn't be computed, undefined until it's tried
+  checksum?: string | null
   uploaded: boolean
 }
 
+interface UploadLock {
+  sessionId: string
+  timestamp: number
+  jobId: string
+  released?: boolean
+  progress?: {
+    completed: number
+    total: number
+  }
+}
+
+interface ResumeOptions {
+  fingerprint?: string | null
+  savedState?: MultipartUploadState | null
+}
+
 interface UploadProgress {
   completedParts: number
   totalParts: number
   uploadedBytes: number
   totalBytes: number
   percentage: number
+  // The adaptive concurrency controller's current view, for debugging
+  tuning?: UploadTuningState
 }
 
 export class MultipartUploadClient {
-  private apiBaseUrl: string
   private sessionKey: string
-  private config: Required<MultipartUploadConfig>
+  private config: Required<Omit<MultipartUploadConfig, "scheduler" | "onThroughput">>
+  private scheduler: UploadScheduler
+  private tuner: UploadTuner
+  // Checksums of the parts the backend has confirmed, for the whole upload's checksum at finalize
+  private partChecksums = new Map<number, string>()
   private aborted = false
   private uploadSessionId: string
 
-  constructor(apiBaseUrl: string, sessionKey: string, config: MultipartUploadConfig = {}) {
-    this.apiBaseUrl = apiBaseUrl
+  constructor(sessionKey: string, config: MultipartUploadConfig = {}) {
     this.sessionKey = sessionKey
 
     // Get max concurrent parts from env var, fallback to config, then default
@@ -57,105 +109,294 @@ export class MultipartUploadClient {
 
     // Generate unique upload session ID to prevent duplicate uploads from multiple tabs
     this.uploadSessionId = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    this.scheduler = config.scheduler ?? uploadScheduler
+    // The scheduler decides which upload gets the slots; the tuner only finds how many this one can use
+    const scheduler = this.scheduler
+    this.tuner = new UploadTuner({
+      initialConcurrency: this.config.maxConcurrentParts,
+      budget: () => scheduler.getMaxParts(),
+      partTimeoutMs: this.config.uploadTimeoutMs,
+      onThroughput: config.onThroughput,
+      label: this.uploadSessionId,
+    })
   }
 
   /**
-   * Upload a file using S3 multipart upload
+   * Upload a file using S3 multipart upload.
+   * With a fingerprint, progress is saved to IndexedDB so the upload can be resumed after a reload;
+   * with a saved state, only the parts the backend doesn't have yet are uploaded.
    */
-  async uploadFile(file: File, jobId: string, onProgress?: (progress: UploadProgress) => void): Promise<void> {
+  async uploadFile(
+    file: File,
+    jobId: string,
+    onProgress?: (progress: UploadProgress) => void,
+    resume: ResumeOptions = {},
+  ): Promise<void> {
     this.aborted = false
+    this.partChecksums.clear()
 
-    // Check if another tab is already uploading this job
+    const { fingerprint, savedState } = resume
     const storageKey = `multipart_upload_${jobId}`
-    const existingSession = localStorage.getItem(storageKey)
-
-    if (existingSession) {
-      const sessionData = JSON.parse(existingSession)
-      const sessionAge = Date.now() - sessionData.timestamp
-
-      // If session is less than 5 minutes old, another tab is likely uploading
-      if (sessionAge < 5 * 60 * 1000) {
-        throw new Error(
-          "This file is already being uploaded in another tab. Please wait for it to complete or close the other tab.",
-        )
+    this.acquireUploadLock(jobId)
+
+    // Hand the upload over if this tab goes away: to the service worker when it's registered for it,
+    // and through the saved state to another tab (or a reload)
+    let inBackground = false
+    let handedOff = false
+    this.scheduler.register(jobId)
+    const releaseOnPageHide = (event: PageTransitionEvent) => {
+      // Kept in the back/forward cache, the page picks the upload up where it left off if it comes back;
+      // if it doesn't, its lock goes stale and the upload resumes from the saved state
+      if (event.persisted) return
+      this.releaseUploadLock(jobId)
+      if (inBackground) {
+        releaseBackgroundUpload(jobId)
+        handedOff = true
       }
-      // If session is older than 5 minutes, it's likely stale (tab was closed)
-      log("[MULTIPART] Found stale upload session, will override", {
-        job_id: jobId,
-        session_age_ms: sessionAge,
-      })
     }
-
-    // Mark this session as active
-    localStorage.setItem(
-      storageKey,
-      JSON.stringify({
-        sessionId: this.uploadSessionId,
-        timestamp: Date.now(),
-        jobId: jobId,
-      }),
-    )
+    window.addEventListener("pagehide", releaseOnPageHide)
 
     try {
-      // Step 1: Initiate multipart upload + Pre-warm R2 connection
-      log("[MULTIPART] Initiating multipart upload", {
-        job_id: jobId,
-        file_name: file.name,
-        file_size: file.size,
-        upload_session_id: this.uploadSessionId,
-      })
+      let uploadState: MultipartUploadState | null = null
+      let completedParts: CompletedPart[] = []
+
+      if (savedState && savedState.jobId === jobId) {
+        const remoteParts = await this.listUploadedParts(jobId, savedState.uploadId)
+        if (remoteParts) {
+          // Resume with the part size the upload was started with, otherwise part boundaries shift
+          this.config.partSize = savedState.partSize
+          // The backend may not know a part's checksum; this tab might have saved it
+          const savedChecksums = new Map(savedState.completedParts.map((p) => [p.partNumber, p.checksum]))
+          completedParts = remoteParts.map((p) => ({ ...p, checksum: p.checksum ?? savedChecksums.get(p.partNumber) }))
+          for (const part of completedParts) {
+            if (part.checksum) this.partChecksums.set(part.partNumber, part.checksum)
+          }
+          uploadState = { ...savedState, completedParts }
+        }
+      }
 
-      const [initResponse] = await Promise.all([
-        this.initiateUpload(jobId, file.size),
-        this.prewarmConnection(), // Pre-establish HTTP/2 connection to R2
-      ])
+      let firstBatch: PartsBatch | null = null
+      const totalParts = Math.max(1, Math.ceil(file.size / this.config.partSize))
 
-      const { upload_id, parts } = initResponse
+      if (uploadState) {
+        const completedNumbers = new Set(completedParts.map((p) => p.partNumber))
+        let firstMissing = 1
+        while (completedNumbers.has(firstMissing)) firstMissing++
 
-      log("[MULTIPART] Upload initiated", {
-        job_id: jobId,
-        upload_id,
-        num_parts: parts.length,
-      })
+        log("[MULTIPART] Resuming multipart upload", {
+          job_id: jobId,
+          upload_id: uploadState.uploadId,
+          completed_parts: completedParts.length,
+          total_parts: totalParts,
+          first_missing_part: firstMissing,
+        })
+
+        if (firstMissing <= totalParts) {
+          firstBatch = await this.fetchPartsBatch(jobId, firstMissing, 20)
+        }
+      } else {
+        // Step 1: Initiate multipart upload + Pre-warm R2 connection
+        log("[MULTIPART] Initiating multipart upload", {
+          job_id: jobId,
+          file_name: file.name,
+          file_size: file.size,
+          upload_session_id: this.uploadSessionId,
+        })
+
+        const [initResponse] = await Promise.all([
+          this.initiateUpload(jobId, file.size),
+          this.prewarmConnection(), // Pre-establish HTTP/2 connection to R2
+        ])
+
+        log("[MULTIPART] Upload initiated", {
+          job_id: jobId,
+          upload_id: initResponse.upload_id,
+          num_parts: initResponse.parts.length,
+        })
+
+        firstBatch = initResponse
+        if (fingerprint) {
+          uploadState = {
+            fingerprint,
+            jobId,
+            uploadId: initResponse.upload_id,
+            partSize: this.config.partSize,
+            fileName: file.name,
+            fileSize: file.size,
+            completedParts: [],
+            updatedAt: Date.now(),
+          }
+          await saveUploadState(uploadState)
+        }
+      }
+
+      // Resumable uploads can be finished by the service worker if the tab closes part way
+      if (uploadState && canUploadInBackground(file.size)) {
+        await registerBackgroundUpload({
+          jobId,
+          sessionKey: this.sessionKey,
+          apiUrl: BACKEND_URL,
+          uploadId: uploadState.uploadId,
+          partSize: this.config.partSize,
+          file,
+        })
+        inBackground = true
+      }
 
-      // Step 2 & 3: Split file into parts and START UPLOADING IMMEDIATELY
-      // Progressive upload: Start with initial batch, fetch more URLs in background
-      const initialParts = this.createParts(file, parts)
+      if (firstBatch) {
+        // Step 2 & 3: Split file into parts and START UPLOADING IMMEDIATELY
+        // Progressive upload: Start with initial batch, fetch more URLs in background
+        const skipParts = new Set(completedParts.map((p) => p.partNumber))
+        const initialParts = this.createParts(file, firstBatch.parts, skipParts)
 
-      // Check if we need to fetch more parts
-      const needsMoreParts = initResponse.has_more_parts
-      const nextPartNumber = initResponse.next_part_number
+        // Check if we need to fetch more parts
+        const nextPartNumber = firstBatch.has_more_parts ? firstBatch.next_part_number : null
 
-      // Upload with progressive part fetching
-      await this.uploadPartsProgressive(jobId, file, initialParts, onProgress, needsMoreParts ? nextPartNumber : null)
+        // Persist every confirmed part so a reload can pick up from here
+        const onPartConfirmed = (partNumber: number, etag: string, checksum?: string) => {
+          if (!uploadState) return
+          uploadState.completedParts = [...uploadState.completedParts, { partNumber, etag, checksum }]
+          saveUploadState(uploadState)
+        }
+
+        // Upload with progressive part fetching
+        await this.uploadPartsProgressive(jobId, file, initialParts, onProgress, nextPartNumber, {
+          skipParts,
+          onPartConfirmed,
+        })
+      }
 
       // Step 4: Finalize upload
       log("[MULTIPART] Finalizing upload", { job_id: jobId })
-      await this.finalizeUpload(jobId)
+      await this.finalizeUpload(jobId, file)
 
       log("[MULTIPART] Upload completed successfully", { job_id: jobId })
 
-      // Clear upload session on success
+      // Clear upload session and saved state on success
+      if (fingerprint) await clearUploadState(fingerprint)
       localStorage.removeItem(storageKey)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
-      // Only log as error if it's not an expected abort/cancellation
-      if (errorMessage.includes("Upload aborted") || errorMessage.includes("CANCELLED")) {
+      // Only abort on an explicit cancel - anything else keeps the parts so the upload can be resumed
+      if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
         log("[MULTIPART] Upload cancelled by user", {
           job_id: jobId,
         })
+        await this.abortUpload(jobId)
+        if (fingerprint) await clearUploadState(fingerprint)
+      } else if (fingerprint) {
+        logError("[MULTIPART] Upload failed, keeping uploaded parts for resume", {
+          job_id: jobId,
+          error: errorMessage,
+        })
       } else {
         logError("[MULTIPART] Upload failed, aborting", {
           job_id: jobId,
           error: errorMessage,
         })
+        await this.abortUpload(jobId)
       }
-      await this.abortUpload(jobId)
 
       // Clear upload session on error
       localStorage.removeItem(storageKey)
 
       throw error
+    } finally {
+      this.scheduler.unregister(jobId)
+      window.removeEventListener("pagehide", releaseOnPageHide)
+      // Finished, cancelled or failed here: nothing for the service worker to pick up
+      if (inBackground && !handedOff) await clearBackgroundUpload(jobId)
+    }
+  }
+
+  /**
+   * Take the `multipart_upload_${jobId}` lock, unless another live tab holds it
+   */
+  private acquireUploadLock(jobId: string): void {
+    const storageKey = `multipart_upload_${jobId}`
+    const existingSession = localStorage.getItem(storageKey)
+
+    if (existingSession) {
+      const sessionData: UploadLock = JSON.parse(existingSession)
+      const sessionAge = Date.now() - sessionData.timestamp
+
+      // A fresh heartbeat means another tab is still uploading; a released lock was handed over
+      if (!sessionData.released && sessionAge < LOCK_STALE_MS) {
+        throw new Error(
+          "This file is already being uploaded in another tab. Please wait for it to complete or close the other tab.",
+        )
+      }
+      log("[MULTIPART] Taking over upload session", {
+        job_id: jobId,
+        session_age_ms: sessionAge,
+        released: !!sessionData.released,
+      })
+    }
+
+    // Mark this session as active
+    this.writeUploadLock(jobId)
+  }
+
+  /**
+   * Mark the lock as released so another tab can take the upload over immediately
+   */
+  private releaseUploadLock(jobId: string): void {
+    const storageKey = `multipart_upload_${jobId}`
+    const existingSession = localStorage.getItem(storageKey)
+    if (!existingSession) return
+
+    const sessionData: UploadLock = JSON.parse(existingSession)
+    if (sessionData.sessionId !== this.uploadSessionId) return
+
+    localStorage.setItem(storageKey, JSON.stringify({ ...sessionData, released: true, timestamp: Date.now() }))
+  }
+
+  private writeUploadLock(jobId: string, progress?: UploadLock["progress"]): void {
+    const lock: UploadLock = {
+      sessionId: this.uploadSessionId,
+      timestamp: Date.now(),
+      jobId: jobId,
+    }
+    if (progress) lock.progress = progress
+    localStorage.setItem(`multipart_upload_${jobId}`, JSON.stringify(lock))
+  }
+
+  /**
+   * Ask the backend which parts of a saved upload it has already confirmed.
+   * Returns null if the upload can't be resumed (expired, aborted or replaced).
+   */
+  private async listUploadedParts(jobId: string, uploadId: string): Promise<CompletedPart[] | null> {
+    try {
+      const data = await listUploadedParts(this.sessionKey, jobId)
+      if (data.upload_id && data.upload_id !== uploadId) {
+        log("[MULTIPART] Saved upload was replaced on the backend, starting over", {
+          job_id: jobId,
+          saved_upload_id: uploadId,
+          upload_id: data.upload_id,
+        })
+        return null
+      }
+
+      return data.parts.map((p) => ({
+        partNumber: p.part_number,
+        etag: p.etag,
+        checksum: p.checksum_md5 ?? undefined,
+      }))
+    } catch (error) {
+      if (isApiError(error) && error.status !== undefined) {
+        log("[MULTIPART] Saved upload is not resumable, starting over", {
+          job_id: jobId,
+          status: error.status,
+          code: error.code,
+        })
+      } else {
+        logError("[MULTIPART] Failed to list uploaded parts", {
+          job_id: jobId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+      return null
     }
   }
 
@@ -179,94 +420,59 @@ export class MultipartUploadClient {
    * Step 1: Initiate multipart upload with backend (returns first batch of URLs)
    */
   private async initiateUpload(jobId: string, fileSize: number) {
-    const attemptInitiate = async (retryCount = 0): Promise<any> => {
-      const response = await fetch(`${this.apiBaseUrl}/jobs/${jobId}/multipart/initiate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Session-Key": this.sessionKey,
-        },
-        body: JSON.stringify({
-          file_size: fileSize,
-          part_size: this.config.partSize,
-          initial_batch_size: 20, // Get first 20 URLs immediately
-        }),
+    try {
+      return await initiateMultipartUpload(this.sessionKey, jobId, {
+        file_size: fileSize,
+        part_size: this.config.partSize,
+        initial_batch_size: 20, // Get first 20 URLs immediately
       })
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({
-          error: "Failed to initiate upload",
-        }))
-
-        // Don't retry here - let uploadFileAndConvert handle 401 errors by retrying the entire conversion
-        if (response.status === 401 || response.status === 403) {
-          log("[MULTIPART] Authentication error during upload initiate - propagating error to retry entire conversion", {
-            job_id: jobId,
-            status: response.status,
-            error: error.error,
-          })
-        }
-
-        throw new Error(error.error || "Failed to initiate upload")
+    } catch (error) {
+      // Don't retry here - let uploadFileAndConvert handle auth errors by retrying the entire conversion
+      if (isApiError(error) && error.isAuthError) {
+        log("[MULTIPART] Authentication error during upload initiate - propagating error to retry entire conversion", {
+          job_id: jobId,
+          status: error.status,
+          error: error.message,
+        })
       }
-
-      return await response.json()
+      throw error
     }
-
-    return attemptInitiate()
   }
 
   /**
    * Fetch additional batches of presigned URLs (for progressive upload)
    */
   private async fetchPartsBatch(jobId: string, startPart: number, batchSize = 20) {
-    const attemptFetch = async (retryCount = 0): Promise<any> => {
-      const response = await fetch(`${this.apiBaseUrl}/jobs/${jobId}/multipart/get-parts`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Session-Key": this.sessionKey,
-        },
-        body: JSON.stringify({
+    try {
+      return await getMultipartPartUrls(this.sessionKey, jobId, { start_part: startPart, batch_size: batchSize })
+    } catch (error) {
+      // Don't retry here - let uploadFileAndConvert handle auth errors by retrying the entire conversion
+      if (isApiError(error) && error.isAuthError) {
+        log("[MULTIPART] Authentication error during fetch parts - propagating error to retry entire conversion", {
+          job_id: jobId,
           start_part: startPart,
-          batch_size: batchSize,
-        }),
-      })
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({
-          error: "Failed to fetch parts batch",
-        }))
-
-        // Don't retry here - let uploadFileAndConvert handle 401 errors by retrying the entire conversion
-        if (response.status === 401 || response.status === 403) {
-          log(
-            "[MULTIPART] Authentication error during fetch parts - propagating error to retry entire conversion",
-            {
-              job_id: jobId,
-              start_part: startPart,
-              status: response.status,
-              error: error.error,
-            },
-          )
-        }
-
-        throw new Error(error.error || "Failed to fetch parts batch")
+          status: error.status,
+          error: error.message,
+        })
       }
-
-      return await response.json()
+      throw error
     }
-
-    return attemptFetch()
   }
 
   /**
    * Step 2: Create upload parts from file
    */
-  private createParts(file: File, partUrls: Array<{ part_number: number; url: string }>): UploadPart[] {
+  private createParts(
+    file: File,
+    partUrls: Array<{ part_number: number; url: string }>,
+    skipParts?: Set<number>,
+  ): UploadPart[] {
     const parts: UploadPart[] = []
 
     for (const partUrl of partUrls) {
+      // Already confirmed by the backend (resumed upload)
+      if (skipParts?.has(partUrl.part_number)) continue
+
       const start = (partUrl.part_number - 1) * this.config.partSize
       const end = Math.min(start + this.config.partSize, file.size)
       const blob = file.slice(start, end)
@@ -292,7 +498,12 @@ export class MultipartUploadClient {
     initialParts: UploadPart[],
     onProgress?: (progress: UploadProgress) => void,
     nextPartToFetch?: number | null,
+    resume: {
+      skipParts?: Set<number>
+      onPartConfirmed?: (partNumber: number, etag: string, checksum?: string) => void
+    } = {},
   ): Promise<void> {
+    const { skipParts, onPartConfirmed } = resume
     const allParts: UploadPart[] = [...initialParts]
     let isFetchingMore = false
     let fetchError: Error | null = null
@@ -309,7 +520,7 @@ export class MultipartUploadClient {
         })
 
         const batchResponse = await this.fetchPartsBatch(jobId, nextPartToFetch, 20)
-        const newParts = this.createParts(file, batchResponse.parts)
+        const newParts = this.createParts(file, batchResponse.parts, skipParts)
 
         // Add new parts to the queue
         allParts.push(...newParts)
@@ -344,31 +555,30 @@ export class MultipartUploadClient {
 
     // Upload parts with automatic batch fetching
     // Note: totalParts will be calculated dynamically as allParts grows
-    let completedParts = 0
+    // Parts skipped on resume count as done from the start
+    const resumedParts = skipParts?.size ?? 0
+    let completedParts = resumedParts
     let uploadedBytes = 0
     const totalBytes = file.size
+    if (skipParts) {
+      for (const partNumber of skipParts) {
+        const start = (partNumber - 1) * this.config.partSize
+        uploadedBytes += Math.max(0, Math.min(start + this.config.partSize, file.size) - start)
+      }
+    }
 
     // Track in-progress bytes for real-time progress updates
     const partProgressBytes = new Map<number, number>() // partNumber -> bytes uploaded so far
     let lastReportedProgress = 0 // Track last reported percentage to prevent backwards movement
 
-    const storageKey = `multipart_upload_${jobId}`
     const heartbeatInterval = setInterval(() => {
       if (!this.aborted) {
-        localStorage.setItem(
-          storageKey,
-          JSON.stringify({
-            sessionId: this.uploadSessionId,
-            timestamp: Date.now(),
-            jobId: jobId,
-            progress: {
-              completed: completedParts,
-              total: allParts.length, // Dynamic total as parts are fetched
-            },
-          }),
-        )
+        this.writeUploadLock(jobId, {
+          completed: completedParts,
+          total: allParts.length + resumedParts, // Dynamic total as parts are fetched
+        })
       }
-    }, 10000)
+    }, LOCK_HEARTBEAT_MS)
 
     try {
       const activeTasks = new Set<Promise<void>>()
@@ -394,10 +604,11 @@ export class MultipartUploadClient {
             lastReportedProgress = currentProgress
             onProgress({
               completedParts,
-              totalParts: allParts.length, // Dynamic total
+              totalParts: allParts.length + resumedParts, // Dynamic total
               uploadedBytes: totalUploadedBytes,
               totalBytes,
               percentage: currentProgress,
+              tuning: this.tuner.getState(),
             })
           }
         }
@@ -406,7 +617,7 @@ export class MultipartUploadClient {
       const uploadNext = async () => {
         while (true) {
           if (this.aborted) {
-            throw new Error("Upload aborted")
+            throw new ApiError("ABORTED", "Upload aborted")
           }
 
           // Check if we've uploaded all parts
@@ -414,8 +625,8 @@ export class MultipartUploadClient {
             break
           }
 
-          // Wait if we're at max concurrency
-          while (activeTasks.size >= this.config.maxConcurrentParts) {
+          // Wait while the tuner's limit is reached (it can drop below the number already in flight)
+          while (activeTasks.size >= this.tuner.getConcurrency()) {
             await Promise.race(activeTasks)
           }
 
@@ -440,6 +651,8 @@ export class MultipartUploadClient {
           }
 
           const part = allParts[partIndex++]
+          // Waits while this upload is paused, higher-priority uploads hold the slots or the bandwidth cap is hit
+          const releaseSlot = await this.scheduler.acquire(jobId, part.blob.size)
 
           // Progress callback for this specific part
           const partProgressCallback = (partBytes: number) => {
@@ -469,11 +682,15 @@ export class MultipartUploadClient {
 
               updateProgress()
 
+              if (onPartConfirmed && part.etag) {
+                onPartConfirmed(part.partNumber, part.etag, part.checksum ?? undefined)
+              }
+
               log("[MULTIPART] Part completed and confirmed by backend", {
                 job_id: jobId,
                 part_number: part.partNumber,
                 completed: completedParts,
-                total: allParts.length, // Dynamic total
+                total: allParts.length + resumedParts, // Dynamic total
                 percentage: ((uploadedBytes / totalBytes) * 100).toFixed(1) + "%",
               })
 
@@ -490,7 +707,7 @@ export class MultipartUploadClient {
               updateProgress()
 
               // Only log as error if it's not an expected abort/cancellation
-              if (errorMessage.includes("Upload aborted") || errorMessage.includes("CANCELLED")) {
+              if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
                 log("[MULTIPART] Part upload cancelled", {
                   job_id: jobId,
                   part_number: part.partNumber,
@@ -505,6 +722,7 @@ export class MultipartUploadClient {
               throw error
             })
             .finally(() => {
+              releaseSlot()
               activeTasks.delete(uploadTask)
             })
 
@@ -519,8 +737,7 @@ export class MultipartUploadClient {
           await Promise.all(activeTasks)
         } catch (error) {
           // If it's an abort error, it's expected - just log and continue to finally block
-          const errorMessage = error instanceof Error ? error.message : String(error)
-          if (errorMessage.includes("Upload aborted") || errorMessage.includes("CANCELLED")) {
+          if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
             log("[MULTIPART] Active tasks cancelled", { job_id: jobId })
           }
           // Re-throw so uploadFileViaMultipart can handle it
@@ -573,7 +790,7 @@ export class MultipartUploadClient {
       const uploadNext = async () => {
         while (partIndex < parts.length) {
           if (this.aborted) {
-            throw new Error("Upload aborted")
+            throw new ApiError("ABORTED", "Upload aborted")
           }
 
           // Wait if we're at max concurrency
@@ -647,12 +864,19 @@ export class MultipartUploadClient {
   ): Promise<void> {
     let lastError: Error | null = null
 
+    // Once per part: retries send the same bytes
+    if (part.checksum === undefined) part.checksum = await partChecksum(part.blob)
+
     for (let attempt = 0; attempt < this.config.retryAttempts; attempt++) {
       // Check if upload was aborted before attempting
       if (this.aborted) {
-        throw new Error("Upload aborted")
+        throw new ApiError("ABORTED", "Upload aborted")
       }
 
+      // Only transfer failures tell the tuner something; a failed backend notification doesn't
+      let transferred = false
+      const sentAt = performance.now()
+
       // Reset part progress to 0 before each attempt (including retries)
       // This prevents failed attempts from inflating the total progress
       if (onPartProgress) {
@@ -700,6 +924,9 @@ export class MultipartUploadClient {
               } else {
                 resolve(etag)
               }
+            } else if (xhr.status === 400 && /BadDigest|InvalidDigest/.test(xhr.responseText)) {
+              // Storage got different bytes than we hashed; the retry sends the part again
+              reject(new Error(`Part ${part.partNumber} was corrupted in transit (checksum mismatch)`))
             } else {
               reject(new Error(`S3 upload failed: ${xhr.status}`))
             }
@@ -717,18 +944,20 @@ export class MultipartUploadClient {
           })
 
           xhr.addEventListener("abort", () => {
-            reject(new Error("Upload aborted"))
+            reject(new ApiError("ABORTED", "Upload aborted"))
           })
 
           // Check for abort before starting
           if (this.aborted) {
-            reject(new Error("Upload aborted"))
+            reject(new ApiError("ABORTED", "Upload aborted"))
             return
           }
 
           // Start upload
           xhr.open("PUT", part.url)
           xhr.setRequestHeader("Content-Type", "application/octet-stream")
+          // Storage rejects the part if what arrives doesn't match
+          if (part.checksum) xhr.setRequestHeader("Content-MD5", part.checksum)
           xhr.send(part.blob)
 
           // Store xhr for potential abort
@@ -743,6 +972,8 @@ export class MultipartUploadClient {
 
         part.etag = etag
         part.uploaded = true
+        transferred = true
+        this.tuner.recordPart(part.blob.size, performance.now() - sentAt)
 
         // Part fully uploaded to S3 - report completion immediately
         // This ensures progress reflects actual upload, not backend confirmation
@@ -752,11 +983,12 @@ export class MultipartUploadClient {
 
         // Check if upload was aborted before notifying backend
         if (this.aborted) {
-          throw new Error("Upload aborted")
+          throw new ApiError("ABORTED", "Upload aborted")
         }
 
         // Notify backend of part completion - this is critical!
-        await this.notifyPartComplete(jobId, part.partNumber, etag)
+        await this.notifyPartComplete(jobId, part.partNumber, etag, part.checksum)
+        if (part.checksum) this.partChecksums.set(part.partNumber, part.checksum)
 
         log(`[MULTIPART] Part ${part.partNumber} confirmed by backend`, {
           job_id: jobId,
@@ -769,9 +1001,10 @@ export class MultipartUploadClient {
 
         // If upload was aborted or backend rejected due to cancellation, don't retry
         const errorMessage = error instanceof Error ? error.message : String(error)
-        if (this.aborted || errorMessage.includes("Upload aborted") || errorMessage.includes("CANCELLED status")) {
+        if (this.aborted || isApiError(error, "ABORTED", "JOB_CANCELLED")) {
           throw error
         }
+        if (!transferred) this.tuner.recordFailure()
 
         logError(`[MULTIPART] Part ${part.partNumber} attempt ${attempt + 1} failed`, {
           job_id: jobId,
@@ -798,76 +1031,108 @@ export class MultipartUploadClient {
   /**
    * Notify backend that a part was uploaded
    */
-  private async notifyPartComplete(jobId: string, partNumber: number, etag: string): Promise<void> {
-    const response = await fetch(`${this.apiBaseUrl}/jobs/${jobId}/multipart/complete-part`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Session-Key": this.sessionKey,
-      },
-      body: JSON.stringify({
-        part_number: partNumber,
-        etag: etag,
-      }),
-    })
-
-    if (!response.ok) {
-      let errorMessage = `Failed to notify backend of part ${partNumber} completion (HTTP ${response.status})`
-      try {
-        const errorData = await response.json()
-        if (errorData.error) {
-          errorMessage = `Part ${partNumber}: ${errorData.error}`
-        }
-      } catch (e) {
-        // Couldn't parse error response, use default message
-      }
+  private async notifyPartComplete(
+    jobId: string,
+    partNumber: number,
+    etag: string,
+    checksum?: string | null,
+  ): Promise<void> {
+    try {
+      await completeMultipartPart(this.sessionKey, jobId, partNumber, etag, checksum)
+    } catch (error) {
+      if (!isApiError(error)) throw error
 
       logError("[MULTIPART] Backend notification failed", {
         job_id: jobId,
         part_number: partNumber,
-        status: response.status,
-        error: errorMessage,
+        status: error.status,
+        code: error.code,
+        error: error.message,
+      })
+      throw new ApiError(error.code, `Part ${partNumber}: ${error.message}`, {
+        status: error.status,
+        details: error.details,
+        cause: error,
       })
-
-      throw new Error(errorMessage)
-    }
-
-    // Verify the response contains success confirmation
-    const result = await response.json()
-    if (!result.success) {
-      throw new Error(`Part ${partNumber}: Backend did not confirm completion`)
     }
   }
 
   /**
-   * Step 4: Finalize the multipart upload
+   * Step 4: Finalize the multipart upload.
+   * If the backend finds parts that don't match their checksums, those parts are sent again, once.
    */
-  private async finalizeUpload(jobId: string): Promise<void> {
-    const response = await fetch(`${this.apiBaseUrl}/jobs/${jobId}/multipart/finalize`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Session-Key": this.sessionKey,
-      },
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({
-        error: "Failed to finalize upload",
-      }))
+  private async finalizeUpload(jobId: string, file: File, repaired = false): Promise<void> {
+    try {
+      await finalizeMultipartUpload(this.sessionKey, jobId, await this.uploadChecksum(file))
+    } catch (error) {
+      const mismatchedParts = isApiError(error, "CHECKSUM_MISMATCH") ? error.details?.mismatched_parts : undefined
+      if (!repaired && Array.isArray(mismatchedParts) && mismatchedParts.length > 0) {
+        const partNumbers = mismatchedParts.filter((n): n is number => typeof n === "number")
+        logError("[MULTIPART] Finalize found corrupt parts, sending them again", {
+          job_id: jobId,
+          parts: partNumbers,
+        })
+        await this.reuploadParts(jobId, file, partNumbers)
+        return this.finalizeUpload(jobId, file, true)
+      }
 
       // If parts are missing, provide detailed error message
-      if (error.completed_parts !== undefined && error.total_parts !== undefined) {
-        const message = `Upload incomplete: Only ${error.completed_parts} of ${error.total_parts} parts were confirmed by the backend. This may happen if the page was refreshed during upload or if there were network errors.`
+      if (isApiError(error, "UPLOAD_INCOMPLETE")) {
+        const { completed_parts, total_parts } = error.details ?? {}
         logError("[MULTIPART] Finalize failed - missing parts", {
           job_id: jobId,
-          completed_parts: error.completed_parts,
-          total_parts: error.total_parts,
+          completed_parts,
+          total_parts,
         })
-        throw new Error(message)
+        throw new ApiError(
+          "UPLOAD_INCOMPLETE",
+          `Upload incomplete: Only ${completed_parts} of ${total_parts} parts were confirmed by the backend. This may happen if the page was refreshed during upload or if there were network errors.`,
+          { status: error.status, details: error.details, cause: error },
+        )
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Checksum of the whole upload, or null if some part's checksum couldn't be computed.
+   * Parts confirmed in an earlier session without a known checksum are hashed from the file now.
+   */
+  private async uploadChecksum(file: File): Promise<string | null> {
+    const totalParts = Math.max(1, Math.ceil(file.size / this.config.partSize))
+    const checksums: string[] = []
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      let checksum = this.partChecksums.get(partNumber)
+      if (!checksum) {
+        const start = (partNumber - 1) * this.config.partSize
+        checksum = (await partChecksum(file.slice(start, start + this.config.partSize))) ?? undefined
+        if (!checksum) return null
+        this.partChecksums.set(partNumber, checksum)
+      }
+      checksums.push(checksum)
+    }
+    return multipartChecksum(checksums)
+  }
+
+  /**
+   * Send the given parts again with fresh URLs, e.g. after the backend rejected their checksums
+   */
+  private async reuploadParts(jobId: string, file: File, partNumbers: number[]): Promise<void> {
+    for (const partNumber of partNumbers) {
+      // Recomputed from the file, in case the stored checksum came from the corrupt copy
+      this.partChecksums.delete(partNumber)
+      const batch = await this.fetchPartsBatch(jobId, partNumber, 1)
+      const part = this.createParts(file, batch.parts).find((p) => p.partNumber === partNumber)
+      if (!part) {
+        throw new ApiError("UPLOAD_INCOMPLETE", `Could not get an upload URL to send part ${partNumber} again`)
       }
 
-      throw new Error(error.error || "Failed to finalize upload")
+      const releaseSlot = await this.scheduler.acquire(jobId, part.blob.size)
+      try {
+        await this.uploadPart(jobId, part)
+      } finally {
+        releaseSlot()
+      }
     }
   }
 
@@ -876,15 +1141,11 @@ export class MultipartUploadClient {
    */
   async abortUpload(jobId: string): Promise<void> {
     this.aborted = true
+    // Parts waiting for a slot fail straight away instead of waiting their turn
+    this.scheduler.unregister(jobId)
 
     try {
-      await fetch(`${this.apiBaseUrl}/jobs/${jobId}/multipart/abort`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Session-Key": this.sessionKey,
-        },
-      })
+      await abortMultipartUpload(this.sessionKey, jobId)
       log("[MULTIPART] Upload aborted", { job_id: jobId })
     } catch (error) {
       logError("[MULTIPART] Failed to abort upload", {
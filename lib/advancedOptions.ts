@@ -0,0 +1,20 @@
+// The conversion options the UI edits, shared by the converter components and the lib modules that store
+// or suggest them
+
+export type AdvancedOptionsType = {
+  mangaStyle: boolean
+  hq: boolean
+  twoPanel: boolean
+  webtoon: boolean
+  targetSize: number
+  noProcessing: boolean
+  upscale: boolean
+  stretch: boolean
+  splitter: number
+  gamma: number
+  outputFormat: string
+  author: string
+  noKepub: boolean
+  customWidth: number
+  customHeight: number
+}
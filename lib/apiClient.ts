@@ -0,0 +1,465 @@
+// Typed client for our /api proxy routes and the backend endpoints the browser calls directly.
+// Requests and responses are validated at runtime, and every failure is thrown as an ApiError with a code.
+
+import { z } from "zod"
+import { FAILURE_CATEGORIES } from "./jobFailure"
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060"
+
+export type ApiErrorCode =
+  | "UNAUTHORIZED" // Missing, expired or invalid session key / token
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "RATE_LIMITED" // e.g. another cancellation is already running on the server
+  | "JOB_CANCELLED" // The backend refused because the job was cancelled
+  | "UPLOAD_INCOMPLETE" // Finalize found parts the backend never confirmed
+  | "CHECKSUM_MISMATCH" // A download didn't match the server's checksum, or the backend rejected an upload's
+  | "ABORTED" // Cancelled on this side (user cancel, abort signal)
+  | "INVALID_REQUEST" // Our request didn't match its schema; nothing was sent
+  | "BAD_REQUEST"
+  | "SERVER_ERROR"
+  | "NETWORK_ERROR"
+  | "INVALID_RESPONSE" // The response didn't match its schema
+
+/**
+ * Error thrown by every API call. `code` is stable and meant for branching; `message` is for people.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode
+  readonly status?: number
+  // Parsed error body, for fields like active_job_id or completed_parts
+  readonly details?: Record<string, unknown>
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options: { status?: number; details?: Record<string, unknown>; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause })
+    this.name = "ApiError"
+    this.code = code
+    this.status = options.status
+    this.details = options.details
+  }
+
+  get isAuthError(): boolean {
+    return this.code === "UNAUTHORIZED" || this.code === "FORBIDDEN"
+  }
+}
+
+/**
+ * True if `error` is an ApiError, and when codes are given, one with any of those codes
+ */
+export function isApiError(error: unknown, ...codes: ApiErrorCode[]): error is ApiError {
+  return error instanceof ApiError && (codes.length === 0 || codes.includes(error.code))
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return "UNAUTHORIZED"
+  if (status === 403) return "FORBIDDEN"
+  if (status === 404 || status === 410) return "NOT_FOUND"
+  if (status === 409) return "CONFLICT"
+  if (status === 429) return "RATE_LIMITED"
+  if (status >= 500) return "SERVER_ERROR"
+  return "BAD_REQUEST"
+}
+
+// The backend reports some conditions only in the message text; this is the one place that reads it
+function codeForErrorBody(status: number, body: Record<string, unknown>, message: string): ApiErrorCode {
+  if (body.status === "CANCELLED" || /\bCANCELLED\b/.test(message)) return "JOB_CANCELLED"
+  if (status === 403 && /invalid session key|unauthorized/i.test(message)) return "UNAUTHORIZED"
+  if (Array.isArray(body.mismatched_parts) || /checksum mismatch/i.test(message)) return "CHECKSUM_MISMATCH"
+  if (body.completed_parts !== undefined && body.total_parts !== undefined) return "UPLOAD_INCOMPLETE"
+  return codeForStatus(status)
+}
+
+// Schemas
+
+// Responses keep fields we don't model yet (passthrough) so callers can log them
+
+const uploadProgressSchema = z.object({
+  completed_parts: z.number(),
+  total_parts: z.number(),
+  uploaded_bytes: z.number(),
+  total_bytes: z.number(),
+  percentage: z.number(),
+})
+
+export const createJobRequestSchema = z.object({
+  filename: z.string().min(1),
+  file_size: z.number().int().nonnegative(),
+  device_profile: z.string().optional(),
+  advanced_options: z.record(z.unknown()).optional(),
+  content_hash: z.string().optional(),
+  metadata: z.record(z.union([z.string(), z.number()])).optional(),
+})
+
+export const createJobResponseSchema = z.object({ job_id: z.string().min(1) }).passthrough()
+
+export const retryJobRequestSchema = createJobRequestSchema.pick({ device_profile: true, advanced_options: true })
+
+export const jobStatusResponseSchema = z
+  .object({
+    // Narrowed with isJobState where it is used, so a status this build does not know yet leaves the job as it is
+    status: z.string(),
+    download_id: z.string().optional(),
+    filename: z.string().nullish(),
+    input_filename: z.string().nullish(),
+    input_file_size: z.number().nullish(),
+    output_file_size: z.number().nullish(),
+    device_profile: z.string().nullish(),
+    error: z.string().optional(),
+    // Only for ERRORED jobs
+    failure_category: z.enum(FAILURE_CATEGORIES).optional(),
+    message: z.string().optional(),
+    progress_percent: z.number().optional(),
+    upload_progress: uploadProgressSchema.partial().optional(),
+    projected_eta: z.number().optional(),
+    remaining_seconds: z.number().optional(),
+  })
+  .passthrough()
+
+const jobActionResponseSchema = z
+  .object({ status: z.string().optional(), message: z.string().optional() })
+  .passthrough()
+
+export const partUrlSchema = z.object({ part_number: z.number().int().positive(), url: z.string().min(1) })
+
+// Initiate and get-parts both return a batch of presigned part URLs
+export const partsBatchSchema = z
+  .object({
+    upload_id: z.string().optional(),
+    parts: z.array(partUrlSchema),
+    has_more_parts: z.boolean().optional(),
+    next_part_number: z.number().int().nullish(),
+  })
+  .passthrough()
+
+export const initiateUploadResponseSchema = partsBatchSchema.extend({ upload_id: z.string().min(1) })
+
+export const uploadedPartsSchema = z.object({
+  upload_id: z.string().optional(),
+  parts: z
+    .array(
+      z.object({
+        part_number: z.number().int().positive(),
+        etag: z.string(),
+        checksum_md5: z.string().nullish(),
+      }),
+    )
+    .default([]),
+})
+
+const completePartResponseSchema = z.object({ success: z.literal(true) }).passthrough()
+
+export const duplicateResponseSchema = z.object({
+  job: z
+    .object({
+      job_id: z.string(),
+      output_filename: z.string().optional(),
+      completed_at: z.string().optional(),
+    })
+    .nullish(),
+})
+
+export const sessionResponseSchema = z
+  .object({
+    success: z.literal(true),
+    session_key: z.string().min(1),
+    jobs_merged: z.number().optional(),
+  })
+  .passthrough()
+
+export const userDownloadSchema = z.object({
+  job_id: z.string(),
+  original_filename: z.string(),
+  converted_filename: z.string(),
+  device_profile: z.string(),
+  input_file_size: z.number().optional(),
+  output_file_size: z.number().optional(),
+  completed_at: z.string().optional(),
+  actual_duration: z.number().optional(),
+  download_url: z.string(),
+  download_attempts: z.number(),
+  session_alias: z.string().optional(),
+  session_device: z
+    .object({ browser: z.string().optional(), os: z.string().optional(), device: z.string().optional() })
+    .optional(),
+})
+
+export const userDownloadsResponseSchema = z
+  .object({
+    downloads: z.array(userDownloadSchema).default([]),
+    total: z.number().optional(),
+    has_more: z.boolean().optional(),
+  })
+  .passthrough()
+
+export type CreateJobRequest = z.infer<typeof createJobRequestSchema>
+export type RetryJobRequest = z.infer<typeof retryJobRequestSchema>
+export type JobStatusResponse = z.infer<typeof jobStatusResponseSchema>
+export type PartsBatch = z.infer<typeof partsBatchSchema>
+export type UploadedParts = z.infer<typeof uploadedPartsSchema>
+export type SessionResponse = z.infer<typeof sessionResponseSchema>
+export type UserDownload = z.infer<typeof userDownloadSchema>
+export type UserDownloadsResponse = z.infer<typeof userDownloadsResponseSchema>
+
+// Request plumbing
+
+interface RequestOptions<T> {
+  method?: "GET" | "POST" | "PATCH" | "DELETE"
+  sessionKey?: string
+  // Clerk session token, for the /api/auth endpoints
+  bearerToken?: string
+  body?: unknown
+  response: z.ZodType<T, z.ZodTypeDef, unknown>
+  signal?: AbortSignal
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Non-JSON error pages (proxies, HTML 502s) still make a usable message
+    return { error: text.slice(0, 200) }
+  }
+}
+
+/**
+ * The ApiError for a failed response, for callers that make their own fetch (e.g. to stream the body)
+ */
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  const data = await readJson(response)
+  const body = data && typeof data === "object" ? (data as Record<string, unknown>) : {}
+  const message = [body.error, body.detail, body.message].find((value) => typeof value === "string") as
+    | string
+    | undefined
+  const text = message || `Request failed (HTTP ${response.status})`
+  return new ApiError(codeForErrorBody(response.status, body, text), text, {
+    status: response.status,
+    details: body,
+  })
+}
+
+async function request<T>(url: string, options: RequestOptions<T>): Promise<T> {
+  const headers: Record<string, string> = { Accept: "application/json" }
+  if (options.body !== undefined) headers["Content-Type"] = "application/json"
+  if (options.sessionKey) headers["X-Session-Key"] = options.sessionKey
+  if (options.bearerToken) headers.Authorization = `Bearer ${options.bearerToken}`
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: options.signal,
+    })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new ApiError("ABORTED", "Request was aborted", { cause: error })
+    }
+    throw new ApiError("NETWORK_ERROR", `Could not reach the server: ${(error as Error).message}`, { cause: error })
+  }
+
+  if (!response.ok) throw await errorFromResponse(response)
+  const data = await readJson(response)
+
+  const parsed = options.response.safeParse(data)
+  if (!parsed.success) {
+    throw new ApiError("INVALID_RESPONSE", `Unexpected response from ${new URL(url, "http://local").pathname}`, {
+      status: response.status,
+      details: { issues: parsed.error.issues },
+    })
+  }
+  return parsed.data
+}
+
+function validateRequest<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    throw new ApiError("INVALID_REQUEST", parsed.error.issues.map((issue) => issue.message).join("; "), {
+      details: { issues: parsed.error.issues },
+    })
+  }
+  return parsed.data
+}
+
+const backend = (path: string) => `${BACKEND_URL}${path}`
+
+// Jobs (through our /api proxy routes)
+
+export function createJob(sessionKey: string, body: CreateJobRequest) {
+  return request("/api/jobs", {
+    method: "POST",
+    sessionKey,
+    body: validateRequest(createJobRequestSchema, body),
+    response: createJobResponseSchema,
+  })
+}
+
+export function getJobStatus(sessionKey: string, jobId: string, signal?: AbortSignal) {
+  return request(`/api/job-status/${jobId}`, { sessionKey, response: jobStatusResponseSchema, signal })
+}
+
+export function startJob(sessionKey: string, jobId: string) {
+  return request(`/api/jobs/${jobId}/start`, { method: "PATCH", sessionKey, response: jobActionResponseSchema })
+}
+
+/**
+ * Convert a finished job's uploaded file again as a new job. NOT_FOUND once the backend no longer has the file.
+ */
+export function retryJob(sessionKey: string, jobId: string, body: RetryJobRequest) {
+  return request(`/api/jobs/${jobId}/retry`, {
+    method: "POST",
+    sessionKey,
+    body: validateRequest(retryJobRequestSchema, body),
+    response: createJobResponseSchema,
+  })
+}
+
+export function cancelJob(sessionKey: string, jobId: string, signal?: AbortSignal) {
+  return request(`/api/jobs/${jobId}/cancel`, {
+    method: "POST",
+    sessionKey,
+    response: jobActionResponseSchema,
+    signal,
+  })
+}
+
+export function dismissJob(sessionKey: string, jobId: string) {
+  return request(backend(`/jobs/${jobId}/dismiss`), { method: "POST", sessionKey, response: z.unknown() })
+}
+
+export async function findDuplicateJob(sessionKey: string, body: Omit<CreateJobRequest, "filename" | "file_size">) {
+  const data = await request(backend("/jobs/find-duplicate"), {
+    method: "POST",
+    sessionKey,
+    body,
+    response: duplicateResponseSchema,
+  })
+  return data.job ?? null
+}
+
+// Single-part uploads (legacy /api/jobs/[jobId]/parts routes)
+
+export function getPartUploadUrl(sessionKey: string, jobId: string, partNumber: number) {
+  return request(`/api/jobs/${jobId}/parts/${partNumber}`, {
+    method: "POST",
+    sessionKey,
+    response: z.object({ url: z.string().min(1) }).passthrough(),
+  })
+}
+
+export function completeLegacyPart(sessionKey: string, jobId: string, partNumber: number, etag: string) {
+  return request(`/api/jobs/${jobId}/parts/${partNumber}/complete`, {
+    method: "POST",
+    sessionKey,
+    body: { etag },
+    response: jobActionResponseSchema,
+  })
+}
+
+// Multipart uploads (backend)
+
+export function initiateMultipartUpload(
+  sessionKey: string,
+  jobId: string,
+  body: { file_size: number; part_size: number; initial_batch_size: number },
+) {
+  return request(backend(`/jobs/${jobId}/multipart/initiate`), {
+    method: "POST",
+    sessionKey,
+    body,
+    response: initiateUploadResponseSchema,
+  })
+}
+
+export function getMultipartPartUrls(
+  sessionKey: string,
+  jobId: string,
+  body: { start_part: number; batch_size: number },
+) {
+  return request(backend(`/jobs/${jobId}/multipart/get-parts`), {
+    method: "POST",
+    sessionKey,
+    body,
+    response: partsBatchSchema,
+  })
+}
+
+export function listUploadedParts(sessionKey: string, jobId: string) {
+  return request(backend(`/jobs/${jobId}/multipart/parts`), { sessionKey, response: uploadedPartsSchema })
+}
+
+// `checksumMd5` is the base64 MD5 the part was sent with, when there was one
+export async function completeMultipartPart(
+  sessionKey: string,
+  jobId: string,
+  partNumber: number,
+  etag: string,
+  checksumMd5?: string | null,
+) {
+  await request(backend(`/jobs/${jobId}/multipart/complete-part`), {
+    method: "POST",
+    sessionKey,
+    body: { part_number: partNumber, etag, checksum_md5: checksumMd5 ?? undefined },
+    response: completePartResponseSchema,
+  })
+}
+
+// `multipartMd5` is the whole upload's checksum (see uploadChecksums); on a mismatch the error's details
+// list the parts to send again in `mismatched_parts`
+export async function finalizeMultipartUpload(sessionKey: string, jobId: string, multipartMd5?: string | null) {
+  await request(backend(`/jobs/${jobId}/multipart/finalize`), {
+    method: "POST",
+    sessionKey,
+    body: multipartMd5 ? { multipart_md5: multipartMd5 } : undefined,
+    response: z.unknown(),
+  })
+}
+
+export async function abortMultipartUpload(sessionKey: string, jobId: string) {
+  await request(backend(`/jobs/${jobId}/multipart/abort`), { method: "POST", sessionKey, response: z.unknown() })
+}
+
+// Sessions and accounts (backend)
+
+export function registerAnonymousSession() {
+  return request(backend("/register"), { response: sessionResponseSchema })
+}
+
+export interface UserProfile {
+  email?: string
+  first_name?: string
+  last_name?: string
+}
+
+export function claimSession(clerkToken: string, sessionKey: string, profile: UserProfile) {
+  return request(backend("/api/auth/claim-session"), {
+    method: "POST",
+    bearerToken: clerkToken,
+    body: { session_key: sessionKey, ...profile },
+    response: sessionResponseSchema,
+  })
+}
+
+export function getOrCreateUserSession(clerkToken: string, profile: UserProfile) {
+  return request(backend("/api/auth/get-or-create-session"), {
+    method: "POST",
+    bearerToken: clerkToken,
+    body: profile,
+    response: sessionResponseSchema,
+  })
+}
+
+export async function deleteUser(clerkToken: string) {
+  await request(backend("/api/auth/delete-user"), { method: "DELETE", bearerToken: clerkToken, response: z.unknown() })
+}
+
+export function getUserDownloads(sessionKey: string, limit: number) {
+  return request(backend(`/api/user/downloads?limit=${limit}`), { sessionKey, response: userDownloadsResponseSchema })
+}
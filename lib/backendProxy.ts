@@ -0,0 +1,340 @@
+// Shared plumbing for the app/api route handlers that forward requests to the backend.
+// Server-only: resolves the backend URL, forwards the session key and a request ID, applies
+// per-route timeouts, retries idempotent GETs, and turns proxy failures into one error envelope.
+
+import { type NextRequest, NextResponse } from "next/server"
+import { log, logError, logWarn } from "./logger"
+
+const DEFAULT_TIMEOUT_MS = 15_000
+const DEFAULT_GET_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 250
+// Gateway-style statuses that usually clear up on their own
+const RETRYABLE_STATUSES = [502, 503, 504]
+
+const REQUEST_ID_HEADER = "X-Request-Id"
+
+// Backend response headers that reach the browser; everything else (cookies, server info) is dropped
+const PASSTHROUGH_HEADERS = [
+  "cache-control",
+  "content-disposition",
+  "content-length",
+  "content-range",
+  "accept-ranges",
+  "content-type",
+  "etag",
+  "last-modified",
+  "location",
+  "retry-after",
+  "ratelimit-limit",
+  "ratelimit-remaining",
+  "ratelimit-reset",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+]
+
+export type ProxyErrorCode =
+  | "BACKEND_NOT_CONFIGURED"
+  | "NO_SESSION_KEY"
+  | "INVALID_REQUEST_BODY"
+  | "BACKEND_TIMEOUT"
+  | "BACKEND_UNAVAILABLE"
+  | "INVALID_BACKEND_RESPONSE"
+  | "BACKEND_ERROR"
+  | "INTERNAL_ERROR"
+
+/**
+ * Error body for failures raised by the proxy itself. Backend error bodies are passed through as they are.
+ * `error` stays a plain message so existing clients that read `body.error` keep working.
+ */
+export interface ProxyErrorEnvelope {
+  success: false
+  error: string
+  code: ProxyErrorCode
+  request_id: string
+  details?: Record<string, unknown>
+}
+
+export class BackendProxyError extends Error {
+  readonly code: ProxyErrorCode
+  readonly status: number
+  readonly details?: Record<string, unknown>
+
+  constructor(code: ProxyErrorCode, status: number, message: string, details?: Record<string, unknown>) {
+    super(message)
+    this.name = "BackendProxyError"
+    this.code = code
+    this.status = status
+    this.details = details
+  }
+}
+
+export interface BackendRequestInit {
+  method?: "GET" | "HEAD" | "POST" | "PATCH" | "PUT" | "DELETE"
+  // Serialized as JSON
+  body?: unknown
+  headers?: Record<string, string>
+  // Per attempt
+  timeoutMs?: number
+  // Only honored for GET and HEAD; other methods are never retried
+  retries?: number
+  redirect?: RequestRedirect
+}
+
+export interface BackendClient {
+  requestId: string
+  // Null only for routes created with requireSession: false
+  sessionKey: string | null
+  // Raw backend response, for routes that reshape it
+  fetch(path: string, init?: BackendRequestInit): Promise<Response>
+  // Same timeouts and retries for a URL outside the backend (e.g. a presigned storage URL).
+  // Neither the session key nor the request ID is sent there.
+  fetchExternal(url: string, init?: BackendRequestInit): Promise<Response>
+  // Fetch and forward the backend response to the browser
+  proxy(path: string, init?: BackendRequestInit): Promise<NextResponse>
+  // Forward an already-fetched backend response: JSON is validated, anything else is streamed
+  forward(response: Response): Promise<NextResponse>
+  // JSON response from the route, carrying the request ID and the backend's passthrough headers
+  json(data: unknown, init?: { status?: number; from?: Response }): NextResponse
+}
+
+interface RouteOptions {
+  // Defaults to true: the route answers 401 without an X-Session-Key header
+  requireSession?: boolean
+}
+
+function backendBaseUrl(): string {
+  // Use API_BASE_URL for server-side requests (Docker network), fallback to NEXT_PUBLIC_API_URL
+  const url = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_URL
+  if (!url) {
+    throw new BackendProxyError("BACKEND_NOT_CONFIGURED", 500, "Backend API URL not configured")
+  }
+  return url.replace(/\/+$/, "")
+}
+
+/**
+ * The allowlisted headers of a backend response, plus the request ID
+ */
+export function passthroughHeaders(response: Response | undefined, requestId: string): Headers {
+  const headers = new Headers()
+  if (response) {
+    for (const name of PASSTHROUGH_HEADERS) {
+      const value = response.headers.get(name)
+      if (value !== null) headers.set(name, value)
+    }
+  }
+  headers.set(REQUEST_ID_HEADER, requestId)
+  return headers
+}
+
+export function proxyErrorResponse(error: BackendProxyError, requestId: string): NextResponse {
+  const body: ProxyErrorEnvelope = {
+    success: false,
+    error: error.message,
+    code: error.code,
+    request_id: requestId,
+    ...(error.details ? { details: error.details } : {}),
+  }
+  return NextResponse.json(body, { status: error.status, headers: { [REQUEST_ID_HEADER]: requestId } })
+}
+
+/**
+ * Parse the route's own JSON request body, answering 400 instead of 500 when it's malformed
+ */
+export async function readRequestJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    throw new BackendProxyError("INVALID_REQUEST_BODY", 400, "Request body must be valid JSON")
+  }
+}
+
+/**
+ * Parse a backend response body as JSON
+ */
+export async function readBackendJson<T = any>(response: Response): Promise<T> {
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new BackendProxyError("INVALID_BACKEND_RESPONSE", 502, "Invalid JSON response from backend", {
+      status: response.status,
+      body: text.slice(0, 200),
+    })
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, clientSignal: AbortSignal) {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  // Stop talking to the backend once the browser has gone away
+  const onClientAbort = () => controller.abort()
+  clientSignal.addEventListener("abort", onClientAbort)
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (timedOut) {
+      throw new BackendProxyError("BACKEND_TIMEOUT", 504, `Backend did not respond within ${timeoutMs / 1000}s`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    clientSignal.removeEventListener("abort", onClientAbort)
+  }
+}
+
+function createBackendClient(request: NextRequest, requestId: string, sessionKey: string | null): BackendClient {
+  const baseUrl = backendBaseUrl()
+
+  // `label` identifies the target in logs without leaking signed query strings
+  const send = async (url: string, label: string, headers: Record<string, string>, init: BackendRequestInit) => {
+    const method = init.method ?? "GET"
+    const idempotent = method === "GET" || method === "HEAD"
+    const retries = idempotent ? (init.retries ?? DEFAULT_GET_RETRIES) : 0
+    const timeoutMs = init.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    if (init.body !== undefined) headers["Content-Type"] = "application/json"
+
+    const requestInit: RequestInit = {
+      method,
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      redirect: init.redirect,
+      cache: "no-store",
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetchWithTimeout(url, requestInit, timeoutMs, request.signal)
+        if (attempt < retries && RETRYABLE_STATUSES.includes(response.status)) {
+          logWarn("[PROXY] Backend returned a retryable status, retrying", {
+            request_id: requestId,
+            path: label,
+            status: response.status,
+            attempt: attempt + 1,
+          })
+          await response.body?.cancel()
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt)
+          continue
+        }
+        return response
+      } catch (error) {
+        if (request.signal.aborted) throw error
+        if (attempt < retries) {
+          logWarn("[PROXY] Backend request failed, retrying", {
+            request_id: requestId,
+            path: label,
+            attempt: attempt + 1,
+            error: error instanceof Error ? error.message : String(error),
+          })
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt)
+          continue
+        }
+        if (error instanceof BackendProxyError) throw error
+        throw new BackendProxyError("BACKEND_UNAVAILABLE", 502, "Could not connect to the backend", {
+          reason: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  const client: BackendClient = {
+    requestId,
+    sessionKey,
+
+    fetch(path, init = {}) {
+      const headers: Record<string, string> = {
+        Accept: "application/json",
+        [REQUEST_ID_HEADER]: requestId,
+        ...init.headers,
+      }
+      if (sessionKey) headers["X-Session-Key"] = sessionKey
+      return send(`${baseUrl}${path}`, path, headers, init)
+    },
+
+    fetchExternal(url, init = {}) {
+      return send(url, new URL(url).host, { ...init.headers }, init)
+    },
+
+    async forward(response) {
+      const headers = passthroughHeaders(response, requestId)
+      const contentType = response.headers.get("content-type") ?? ""
+
+      if (contentType.includes("application/json")) {
+        const data = await readBackendJson(response)
+        headers.delete("content-length")
+        return NextResponse.json(data, { status: response.status, headers })
+      }
+
+      if (!response.ok && !response.body) {
+        const message = `Backend request failed (HTTP ${response.status})`
+        throw new BackendProxyError("BACKEND_ERROR", response.status, message)
+      }
+
+      // Streamed rather than buffered, so large or slow bodies don't sit in memory
+      return new NextResponse(response.body, { status: response.status, headers })
+    },
+
+    async proxy(path, init) {
+      return client.forward(await client.fetch(path, init))
+    },
+
+    json(data, init = {}) {
+      return NextResponse.json(data, {
+        status: init.status ?? 200,
+        headers: passthroughHeaders(init.from, requestId),
+      })
+    },
+  }
+
+  return client
+}
+
+/**
+ * Build a route handler that talks to the backend.
+ *
+ * The handler gets a BackendClient bound to this request's session key and request ID. Anything it
+ * throws becomes a JSON error envelope; `label` prefixes the log line.
+ */
+export function withBackend<Params = Record<string, never>>(
+  label: string,
+  handler: (request: NextRequest, backend: BackendClient, params: Params) => Promise<Response>,
+  options: RouteOptions = {},
+) {
+  return async (request: NextRequest, context: { params: Promise<Params> }): Promise<Response> => {
+    const requestId = request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID()
+
+    try {
+      const sessionKey = request.headers.get("X-Session-Key")
+      if (!sessionKey && options.requireSession !== false) {
+        throw new BackendProxyError("NO_SESSION_KEY", 401, "No session key provided")
+      }
+
+      const backend = createBackendClient(request, requestId, sessionKey)
+      return await handler(request, backend, await context.params)
+    } catch (error) {
+      if (error instanceof BackendProxyError) {
+        const logFn = error.status >= 500 ? logError : log
+        logFn(`[PROXY] ${label}`, { request_id: requestId, code: error.code, error: error.message })
+        return proxyErrorResponse(error, requestId)
+      }
+
+      logError(`[PROXY] ${label}`, {
+        request_id: requestId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return proxyErrorResponse(
+        new BackendProxyError("INTERNAL_ERROR", 500, error instanceof Error ? error.message : "Internal server error"),
+        requestId,
+      )
+    }
+  }
+}
@@ -0,0 +1,119 @@
+// Hands multipart uploads over to the service worker when their tab closes, so they keep going in the
+// background: with Background Fetch where the browser has it, otherwise inside a Background Sync event.
+// public/sw.js reads the same database; keep the names below in step with it.
+
+import { log, logWarn } from "./logger"
+
+const DB_NAME = "mangaconverter_background"
+const DB_VERSION = 1
+const STORE_NAME = "uploads"
+
+// Message the page sends the service worker to give an upload up
+export const RELEASE_UPLOAD_MESSAGE = "release-upload"
+
+// Storing a File makes the browser keep its own copy, so very large files stay with the tab
+const MAX_BACKGROUND_FILE_BYTES = 2 * 1024 * 1024 * 1024
+
+export interface BackgroundUpload {
+  jobId: string
+  sessionKey: string
+  // Backend base URL for the multipart endpoints (the service worker has no build-time env)
+  apiUrl: string
+  uploadId: string
+  partSize: number
+  file: File
+  // Set by the service worker once the tab uploading it goes away; unreleased uploads are left alone
+  releasedAt?: number
+  updatedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "jobId" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Whether an upload of this size can be finished by the service worker after the tab closes
+ */
+export function canUploadInBackground(fileSize: number): boolean {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return false
+  if (!navigator.serviceWorker.controller) return false
+  // The service worker picks released uploads up in a sync event, then uses Background Fetch if it can
+  if (!("SyncManager" in window)) return false
+  return fileSize <= MAX_BACKGROUND_FILE_BYTES
+}
+
+/**
+ * Record an upload the service worker may take over. Nothing happens until it's released;
+ * registering it again (a resume in a new tab) takes it back from the service worker.
+ */
+export async function registerBackgroundUpload(upload: Omit<BackgroundUpload, "updatedAt">): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.put({ ...upload, updatedAt: Date.now() }))
+  } catch (error) {
+    logWarn("[BACKGROUND UPLOAD] Failed to register upload", {
+      job_id: upload.jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Hand the upload to the service worker. Synchronous so it still gets out from a `pagehide` handler;
+ * the service worker marks the record released and schedules the sync itself.
+ */
+export function releaseBackgroundUpload(jobId: string): void {
+  const controller = typeof navigator !== "undefined" ? navigator.serviceWorker?.controller : null
+  if (!controller) return
+  controller.postMessage({ type: RELEASE_UPLOAD_MESSAGE, jobId })
+  log("[BACKGROUND UPLOAD] Handed upload to the service worker", { job_id: jobId })
+}
+
+/**
+ * Take an upload back from the service worker (or drop it once finished or cancelled).
+ * The service worker checks the record before every part, so it stops after the part in flight.
+ */
+export async function clearBackgroundUpload(jobId: string): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.delete(jobId))
+  } catch (error) {
+    logWarn("[BACKGROUND UPLOAD] Failed to clear upload", {
+      job_id: jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
@@ -0,0 +1,145 @@
+// Book metadata for queued files: detected from embedded ComicInfo.xml / EPUB OPF and the filename,
+// edited in the queue and sent with the job so the output carries it
+
+import { parseComicInfo } from "./comicInfo"
+import { getFileExtension } from "./fileValidation"
+import { readZipEntries, readZipEntry, type ZipEntry } from "./zipReader"
+
+export interface BookMetadata {
+  series?: string
+  volume?: number
+  title?: string
+  writer?: string
+  publisher?: string
+  // ISO 639 code, e.g. "en" or "ja"
+  language?: string
+  year?: number
+}
+
+export const METADATA_FIELDS: (keyof BookMetadata)[] = [
+  "series",
+  "volume",
+  "title",
+  "writer",
+  "publisher",
+  "language",
+  "year",
+]
+
+const ARCHIVE_EXTENSIONS = [".cbz", ".zip", ".epub"]
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number.parseFloat(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// Drop unset and empty fields so spreading metadata never blanks out a value
+function compact(metadata: BookMetadata): BookMetadata {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined && value !== ""),
+  ) as BookMetadata
+}
+
+/**
+ * Guess series, volume and year from names like "Series v03 (2021)", "Series Vol. 3" or
+ * "[Group] Series - Volume 03 (2021) (Digital)"
+ */
+export function parseFilenameMetadata(filename: string): BookMetadata {
+  const extension = getFileExtension(filename)
+  let name = extension ? filename.slice(0, -extension.length) : filename
+  name = name.replace(/_/g, " ")
+
+  const year = name.match(/\((\d{4})\)/)?.[1]
+  // Leading [Group] tags and trailing (tags) aren't part of the title
+  name = name
+    .replace(/^\s*\[[^\]]*\]\s*/, "")
+    .replace(/\s*[([][^)\]]*[)\]]/g, "")
+    .trim()
+
+  const volumeMatch = name.match(/^(.*?)[\s\-–,]*\b(?:v|vol\.?|volume|tome)\s*(\d+(?:\.\d+)?)\b/i)
+  if (volumeMatch && volumeMatch[1].trim()) {
+    return compact({
+      series: volumeMatch[1].trim(),
+      volume: parseNumber(volumeMatch[2]),
+      year: parseNumber(year),
+    })
+  }
+
+  // No volume marker: treat the name as a standalone title
+  return compact({ title: name || undefined, year: parseNumber(year) })
+}
+
+async function readComicInfoMetadata(file: File, entry: ZipEntry): Promise<BookMetadata> {
+  const xml = await (await readZipEntry(file, entry)).text()
+  const info = parseComicInfo(xml)
+  return compact({
+    series: info.series,
+    volume: parseNumber(info.volume) ?? parseNumber(info.number),
+    title: info.title,
+    writer: info.writer,
+    publisher: info.publisher,
+    language: info.languageISO,
+    year: info.year,
+  })
+}
+
+async function readOpfMetadata(file: File, entry: ZipEntry): Promise<BookMetadata> {
+  const doc = new DOMParser().parseFromString(await (await readZipEntry(file, entry)).text(), "application/xml")
+  // getElementsByTagNameNS avoids CSS escaping of the dc: prefix
+  const dc = (name: string) =>
+    doc.getElementsByTagNameNS("http://purl.org/dc/elements/1.1/", name)[0]?.textContent?.trim() || undefined
+  const meta = (name: string) =>
+    doc.querySelector(`meta[name="${name}"]`)?.getAttribute("content") ||
+    doc.querySelector(`meta[property="${name}"]`)?.textContent?.trim() ||
+    undefined
+
+  return compact({
+    // Calibre writes calibre:series; EPUB 3 uses belongs-to-collection
+    series: meta("calibre:series") || meta("belongs-to-collection"),
+    volume: parseNumber(meta("calibre:series_index") || meta("group-position")),
+    title: dc("title"),
+    writer: dc("creator"),
+    publisher: dc("publisher"),
+    language: dc("language"),
+    year: parseNumber(dc("date")?.slice(0, 4)),
+  })
+}
+
+/**
+ * Metadata embedded in an archive (ComicInfo.xml, or the OPF of an EPUB)
+ */
+export async function readEmbeddedMetadata(file: File): Promise<BookMetadata> {
+  if (!ARCHIVE_EXTENSIONS.includes(getFileExtension(file.name))) return {}
+
+  const entries = await readZipEntries(file)
+  const comicInfo = entries.find((entry) => entry.name.split("/").pop()?.toLowerCase() === "comicinfo.xml")
+  if (comicInfo) return readComicInfoMetadata(file, comicInfo)
+
+  const opf = entries.find((entry) => entry.name.toLowerCase().endsWith(".opf"))
+  if (opf) return readOpfMetadata(file, opf)
+
+  return {}
+}
+
+/**
+ * Best guess for a file's metadata: embedded values, filled in from the filename
+ */
+export async function detectMetadata(file: File): Promise<BookMetadata> {
+  const fromName = parseFilenameMetadata(file.name)
+  try {
+    return { ...fromName, ...(await readEmbeddedMetadata(file)) }
+  } catch {
+    // Unreadable archives are reported by content validation; the filename guess still helps
+    return fromName
+  }
+}
+
+/**
+ * Metadata as the backend expects it on job creation; undefined when nothing is set
+ */
+export function toBackendMetadata(metadata: BookMetadata | undefined): Record<string, string | number> | undefined {
+  if (!metadata) return undefined
+  const fields = compact(metadata)
+  return Object.keys(fields).length > 0 ? (fields as Record<string, string | number>) : undefined
+}
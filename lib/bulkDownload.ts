@@ -0,0 +1,279 @@
+// Downloads several converted files into one ZIP in the browser, so a whole series is a single save
+// instead of one click per volume. Each file is written into the archive as it arrives, so nothing is
+// held in memory when the archive goes straight to disk. Failed files can be retried on their own.
+
+import { parseFilenameMetadata } from "./bookMetadata"
+import { receiveVerifiedFile, type DownloadSink, type SaveTarget } from "./downloadClient"
+import { log, logWarn } from "./logger"
+import { ZipStream } from "./zipWriter"
+
+// Byte progress is reported at most this often; status changes always go out immediately
+const PROGRESS_INTERVAL_MS = 150
+
+export interface BulkDownloadSource {
+  key: string
+  filename: string
+  // Series from the file's metadata, for naming the archive
+  series?: string
+  download: (
+    sink: DownloadSink,
+    signal: AbortSignal,
+    onProgress: (receivedBytes: number, totalBytes?: number) => void,
+  ) => Promise<void>
+}
+
+export type BulkDownloadStatus = "queued" | "downloading" | "done" | "failed"
+
+export interface BulkDownloadEntry {
+  key: string
+  filename: string
+  status: BulkDownloadStatus
+  receivedBytes: number
+  totalBytes?: number
+  error?: string
+}
+
+export interface BulkDownloadProgress {
+  // 0-100 across all files; files with an unknown size count by completion only
+  percentage: number
+  receivedBytes: number
+  done: number
+  failed: number
+  total: number
+}
+
+/**
+ * A converted file from this session, fetched through /api/download (resumable and checksum-verified)
+ */
+export function convertedFileSource(
+  sessionKey: string,
+  downloadId: string,
+  filename: string,
+  series?: string,
+): BulkDownloadSource {
+  return {
+    key: downloadId,
+    filename,
+    series,
+    download: async (sink, signal, onProgress) => {
+      await receiveVerifiedFile(
+        sessionKey,
+        downloadId,
+        {
+          fallbackFilename: filename,
+          signal,
+          onProgress: ({ receivedBytes, totalBytes }) => onProgress(receivedBytes, totalBytes),
+        },
+        sink,
+      )
+    },
+  }
+}
+
+/**
+ * A file behind a presigned URL (My Downloads lists these for files from other devices)
+ */
+export function signedUrlSource(key: string, url: string, filename: string, series?: string): BulkDownloadSource {
+  return {
+    key,
+    filename,
+    series,
+    download: async (sink, signal, onProgress) => {
+      const response = await fetch(url, { signal })
+      if (!response.ok || !response.body) throw new Error(`Download failed (HTTP ${response.status})`)
+
+      const total = Number(response.headers.get("content-length")) || undefined
+      await sink.reset(total)
+      let received = 0
+      const reader = response.body.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        await sink.write(value)
+        received += value.byteLength
+        onProgress(received, total)
+      }
+    },
+  }
+}
+
+/**
+ * The series every source belongs to (from metadata, else guessed from the filename), if they share one
+ */
+export function commonSeries(sources: BulkDownloadSource[]): string | undefined {
+  const series = new Set(sources.map((source) => source.series || parseFilenameMetadata(source.filename).series))
+  const [only] = Array.from(series)
+  return series.size === 1 && only ? only : undefined
+}
+
+/**
+ * "Series.zip", or a dated fallback; characters that filesystems reject are replaced
+ */
+export function archiveFilename(series?: string): string {
+  const base = series?.trim() || `converted-files-${new Date().toISOString().slice(0, 10)}`
+  return `${base.replace(/[\\/:*?"<>|]+/g, "_")}.zip`
+}
+
+// Two volumes can come back with the same name; the archive needs distinct entries
+function uniqueNames(names: string[]): string[] {
+  const used = new Set<string>()
+  return names.map((name) => {
+    let candidate = name
+    const dot = name.lastIndexOf(".")
+    const stem = dot > 0 ? name.slice(0, dot) : name
+    const extension = dot > 0 ? name.slice(dot) : ""
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${extension}`
+    }
+    used.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+/**
+ * Runs the downloads of a bulk "download all", one file at a time, writing each into the archive as it
+ * arrives. Subscribe with onChange to render progress; entries are replaced (not mutated) on every change.
+ */
+export class BulkDownloader {
+  private sources: Map<string, BulkDownloadSource>
+  private entries: BulkDownloadEntry[]
+  // Archive entry names, unique across all sources
+  private names: Map<string, string>
+  private listeners = new Set<(entries: BulkDownloadEntry[]) => void>()
+  private controller = new AbortController()
+  private lastNotified = 0
+  private target: SaveTarget | null = null
+  private zip: ZipStream | null = null
+  private running: Promise<void> | null = null
+  private closed = false
+
+  constructor(sources: BulkDownloadSource[]) {
+    this.sources = new Map(sources.map((source) => [source.key, source]))
+    this.entries = sources.map((source) => ({
+      key: source.key,
+      filename: source.filename,
+      status: "queued",
+      receivedBytes: 0,
+    }))
+    const names = uniqueNames(sources.map((source) => source.filename))
+    this.names = new Map(sources.map((source, index) => [source.key, names[index]]))
+  }
+
+  getEntries(): BulkDownloadEntry[] {
+    return this.entries
+  }
+
+  onChange(listener: (entries: BulkDownloadEntry[]) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getProgress(): BulkDownloadProgress {
+    const total = this.entries.length
+    let completedFraction = 0
+    let receivedBytes = 0
+    for (const entry of this.entries) {
+      receivedBytes += entry.receivedBytes
+      if (entry.status === "done") completedFraction += 1
+      else if (entry.status === "downloading" && entry.totalBytes) {
+        completedFraction += Math.min(1, entry.receivedBytes / entry.totalBytes)
+      }
+    }
+    return {
+      percentage: total > 0 ? (completedFraction / total) * 100 : 100,
+      receivedBytes,
+      done: this.entries.filter((entry) => entry.status === "done").length,
+      failed: this.entries.filter((entry) => entry.status === "failed").length,
+      total,
+    }
+  }
+
+  /**
+   * Download every queued file into an archive written to `target`. Resolves when none are left to try;
+   * call finish() to complete the archive.
+   */
+  async start(target: SaveTarget): Promise<void> {
+    if (this.target) return
+    this.target = target
+    this.zip = new ZipStream((chunk) => target.write(chunk))
+    await this.drain()
+  }
+
+  // Queue a failed file again; it's added to the end of the archive
+  async retry(key: string): Promise<void> {
+    const entry = this.entries.find((item) => item.key === key)
+    if (!entry || entry.status !== "failed") return
+    this.update(key, { status: "queued" })
+    await this.drain()
+  }
+
+  /**
+   * Write the archive's directory and close it, leaving out files that failed.
+   * Returns the archive size in bytes.
+   */
+  async finish(): Promise<number> {
+    if (!this.zip || !this.target) throw new Error("Bulk download was not started")
+    await this.running
+    await this.zip.finish()
+    await this.target.close()
+    this.closed = true
+    return this.zip.size
+  }
+
+  cancel(): void {
+    this.controller.abort()
+    if (!this.closed) void this.target?.abort()
+  }
+
+  // Archive entries have to be written one after another, so files download one at a time
+  private drain(): Promise<void> {
+    this.running ??= this.downloadQueued().finally(() => {
+      this.running = null
+    })
+    return this.running
+  }
+
+  private async downloadQueued(): Promise<void> {
+    let next: BulkDownloadEntry | undefined
+    while ((next = this.entries.find((entry) => entry.status === "queued")) && !this.controller.signal.aborted) {
+      await this.downloadOne(next.key)
+    }
+  }
+
+  private async downloadOne(key: string): Promise<void> {
+    const source = this.sources.get(key)
+    const zip = this.zip
+    if (!source || !zip) return
+
+    const name = this.names.get(key) ?? source.filename
+    // A restarted download abandons the partly written entry and starts a fresh one
+    const sink: DownloadSink = {
+      reset: () => zip.startEntry(name),
+      write: (chunk) => zip.writeData(chunk),
+    }
+
+    this.update(key, { status: "downloading", receivedBytes: 0, totalBytes: undefined, error: undefined })
+    try {
+      await source.download(sink, this.controller.signal, (receivedBytes, totalBytes) =>
+        this.update(key, { receivedBytes, totalBytes }, true),
+      )
+      await zip.endEntry()
+      const { receivedBytes } = this.entries.find((entry) => entry.key === key)!
+      this.update(key, { status: "done", totalBytes: receivedBytes })
+      log("[BULK DOWNLOAD] File downloaded", { filename: source.filename, size: receivedBytes })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logWarn("[BULK DOWNLOAD] File failed", { filename: source.filename, error: message })
+      this.update(key, { status: "failed", error: message })
+    }
+  }
+
+  private update(key: string, changes: Partial<BulkDownloadEntry>, progressOnly = false): void {
+    this.entries = this.entries.map((entry) => (entry.key === key ? { ...entry, ...changes } : entry))
+
+    const now = Date.now()
+    if (progressOnly && now - this.lastNotified < PROGRESS_INTERVAL_MS) return
+    this.lastNotified = now
+    this.listeners.forEach((listener) => listener(this.entries))
+  }
+}
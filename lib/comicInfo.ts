@@ -0,0 +1,101 @@
+// ComicInfo.xml (the ComicRack metadata format) as read by KCC and most readers
+
+export interface ComicInfoPage {
+  image: number
+  // Chapter title; KCC turns bookmarked pages into table of contents entries
+  bookmark?: string
+}
+
+export interface ComicInfo {
+  title?: string
+  series?: string
+  number?: string
+  volume?: string
+  writer?: string
+  publisher?: string
+  languageISO?: string
+  year?: number
+  pageCount?: number
+  // "Yes", "YesAndRightToLeft", "No" or "Unknown"
+  manga?: string
+  // Not part of the ComicInfo schema, but written by some scrapers
+  readingDirection?: string
+  pages?: ComicInfoPage[]
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/**
+ * Serialize metadata to a ComicInfo.xml document; unset fields are left out
+ */
+export function serializeComicInfo(info: ComicInfo): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+  ]
+  const field = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") lines.push(`  <${name}>${escapeXml(String(value))}</${name}>`)
+  }
+
+  field("Title", info.title)
+  field("Series", info.series)
+  field("Number", info.number)
+  field("Volume", info.volume)
+  field("Year", info.year)
+  field("Writer", info.writer)
+  field("Publisher", info.publisher)
+  field("LanguageISO", info.languageISO)
+  field("PageCount", info.pageCount)
+  field("Manga", info.manga)
+
+  if (info.pages && info.pages.length > 0) {
+    lines.push("  <Pages>")
+    for (const page of info.pages) {
+      const bookmark = page.bookmark ? ` Bookmark="${escapeXml(page.bookmark)}"` : ""
+      lines.push(`    <Page Image="${page.image}"${bookmark} />`)
+    }
+    lines.push("  </Pages>")
+  }
+
+  lines.push("</ComicInfo>")
+  return lines.join("\n")
+}
+
+/**
+ * Read the fields we use from a ComicInfo.xml document; unknown or empty fields are left unset
+ */
+export function parseComicInfo(xml: string): ComicInfo {
+  const doc = new DOMParser().parseFromString(xml, "application/xml")
+  const root = doc.querySelector("ComicInfo")
+  if (!root) return {}
+
+  const text = (name: string) => {
+    const value = root.querySelector(`:scope > ${name}`)?.textContent?.trim()
+    return value ? value : undefined
+  }
+  const integer = (name: string) => {
+    const value = Number.parseInt(text(name) || "", 10)
+    return Number.isNaN(value) ? undefined : value
+  }
+
+  return {
+    title: text("Title"),
+    series: text("Series"),
+    number: text("Number"),
+    volume: text("Volume"),
+    writer: text("Writer"),
+    publisher: text("Publisher"),
+    languageISO: text("LanguageISO"),
+    year: integer("Year"),
+    pageCount: integer("PageCount"),
+    manga: text("Manga"),
+    readingDirection: text("ReadingDirection"),
+  }
+}
@@ -0,0 +1,126 @@
+// Guess what kind of book an archive holds (manga, western comic, webtoon) from its pages and metadata
+
+import type { AdvancedOptionsType } from "./advancedOptions"
+import { parseComicInfo } from "./comicInfo"
+import { getFileExtension } from "./fileValidation"
+import { readImageSize, type ImageSize } from "./imageSize"
+import { isImagePath, naturalCompare } from "./pagePreview"
+import { isJunkPath, readZipEntries, readZipEntry, type ZipEntry } from "./zipReader"
+
+const ANALYZABLE_EXTENSIONS = [".cbz", ".zip", ".epub"]
+const SAMPLE_PAGES = 12
+// Height/width above which a page is a webtoon strip rather than a page
+const STRIP_ASPECT_RATIO = 2.5
+// Width/height above which a page is a two-page spread
+const SPREAD_ASPECT_RATIO = 1.2
+// Share of sampled pages that must be strips to call the book a webtoon
+const WEBTOON_SHARE = 0.6
+
+export type DetectedContentType = "manga" | "comic" | "webtoon" | "unknown"
+
+export interface ContentAnalysis {
+  detectedType: DetectedContentType
+  // Option values we recommend; only the fields we have evidence for are set
+  suggestedOptions: Partial<AdvancedOptionsType>
+  // One sentence per piece of evidence, for display
+  reasons: string[]
+  sampledPages: number
+  spreadPages: number
+  stripPages: number
+}
+
+// Evenly spaced sample, skipping the cover (often a wraparound spread)
+function samplePages(pages: ZipEntry[]): ZipEntry[] {
+  const candidates = pages.length > 2 ? pages.slice(1) : pages
+  if (candidates.length <= SAMPLE_PAGES) return candidates
+  const step = candidates.length / SAMPLE_PAGES
+  return Array.from({ length: SAMPLE_PAGES }, (_, i) => candidates[Math.floor(i * step)])
+}
+
+function readingDirectionFromComicInfo(manga?: string, readingDirection?: string): "rtl" | "ltr" | undefined {
+  const direction = readingDirection?.toLowerCase().replace(/[^a-z]/g, "")
+  if (direction === "righttoleft" || direction === "rtl") return "rtl"
+  if (direction === "lefttoright" || direction === "ltr") return "ltr"
+
+  if (manga === "YesAndRightToLeft") return "rtl"
+  if (manga === "No") return "ltr"
+  return undefined
+}
+
+async function readReadingDirection(
+  file: File,
+  entries: ZipEntry[],
+): Promise<{ direction?: "rtl" | "ltr"; source?: string }> {
+  const comicInfo = entries.find((entry) => entry.name.split("/").pop()?.toLowerCase() === "comicinfo.xml")
+  if (comicInfo) {
+    const info = parseComicInfo(await (await readZipEntry(file, comicInfo)).text())
+    const direction = readingDirectionFromComicInfo(info.manga, info.readingDirection)
+    if (direction) return { direction, source: "ComicInfo.xml" }
+    // "Yes" without a direction still means manga, which reads right to left
+    if (info.manga === "Yes") return { direction: "rtl", source: "ComicInfo.xml" }
+  }
+
+  const opf = entries.find((entry) => entry.name.toLowerCase().endsWith(".opf"))
+  if (opf) {
+    const doc = new DOMParser().parseFromString(await (await readZipEntry(file, opf)).text(), "application/xml")
+    const progression = doc.querySelector("spine")?.getAttribute("page-progression-direction")
+    if (progression === "rtl" || progression === "ltr") return { direction: progression, source: "the EPUB spine" }
+  }
+
+  return {}
+}
+
+/**
+ * Sample page dimensions and metadata from an archive and suggest matching options.
+ * Returns null for formats we can't read in the browser (PDF, RAR, 7z).
+ */
+export async function analyzeContent(file: File): Promise<ContentAnalysis | null> {
+  if (!ANALYZABLE_EXTENSIONS.includes(getFileExtension(file.name))) return null
+
+  const entries = await readZipEntries(file)
+  const pages = entries
+    .filter((entry) => !entry.isDirectory && !entry.encrypted && isImagePath(entry.name) && !isJunkPath(entry.name))
+    .sort((a, b) => naturalCompare(a.name, b.name))
+  if (pages.length === 0) return null
+
+  const sizes: ImageSize[] = []
+  for (const page of samplePages(pages)) {
+    const size = await readImageSize(await readZipEntry(file, page))
+    if (size && size.width > 0 && size.height > 0) sizes.push(size)
+  }
+
+  const stripPages = sizes.filter((size) => size.height / size.width > STRIP_ASPECT_RATIO).length
+  const spreadPages = sizes.filter((size) => size.width / size.height > SPREAD_ASPECT_RATIO).length
+  const { direction, source } = await readReadingDirection(file, entries)
+
+  const suggestedOptions: Partial<AdvancedOptionsType> = {}
+  const reasons: string[] = []
+  let detectedType: DetectedContentType = "unknown"
+
+  if (sizes.length > 0 && stripPages / sizes.length >= WEBTOON_SHARE) {
+    detectedType = "webtoon"
+    suggestedOptions.webtoon = true
+    suggestedOptions.targetSize = 100
+    reasons.push(`${stripPages} of ${sizes.length} sampled pages are tall vertical strips, typical of webtoons.`)
+  }
+
+  if (direction) {
+    suggestedOptions.mangaStyle = direction === "rtl"
+    if (detectedType === "unknown") detectedType = direction === "rtl" ? "manga" : "comic"
+    reasons.push(
+      direction === "rtl"
+        ? `${source} says the book reads right to left (manga).`
+        : `${source} says the book reads left to right.`,
+    )
+  }
+
+  if (spreadPages > 0 && detectedType !== "webtoon") {
+    // Split spreads into single pages so they fit the screen
+    suggestedOptions.splitter = 0
+    reasons.push(
+      `${spreadPages} of ${sizes.length} sampled pages are two-page spreads; they will be split into single pages.`,
+    )
+  }
+
+  return { detectedType, suggestedOptions, reasons, sampledPages: sizes.length, spreadPages, stripPages }
+}
@@ -0,0 +1,257 @@
+// Finished conversions across visits, with full-text search, filters and sorting. Every job that finishes in
+// this browser is recorded in IndexedDB; signed-in users also get the backend's list of their converted files
+// from every device, merged over the local entries.
+
+import { getUserDownloads, type UserDownload } from "./apiClient"
+import type { AdvancedOptionsType } from "./advancedOptions"
+import type { BookMetadata } from "./bookMetadata"
+import { DEVICE_PROFILES } from "./device-profiles"
+import type { JobState } from "./jobState"
+import { log, logWarn } from "./logger"
+
+const DB_NAME = "mangaconverter_history"
+const DB_VERSION = 1
+const STORE_NAME = "conversions"
+
+// Oldest local entries beyond this are dropped
+const MAX_LOCAL_ENTRIES = 500
+// How many of a signed-in user's converted files are fetched from the backend
+const BACKEND_LIMIT = 200
+
+export type HistoryStatus = Extract<JobState, "COMPLETE" | "ERRORED" | "CANCELLED">
+
+export interface ConversionHistoryEntry {
+  jobId: string
+  inputFilename: string
+  outputFilename?: string
+  deviceProfile: string
+  status: HistoryStatus
+  inputSize?: number
+  outputSize?: number
+  durationSec?: number
+  // Epoch ms
+  finishedAt: number
+  metadata?: BookMetadata
+  // The options the job was converted with, reused when it's re-converted for another device.
+  // Unknown for jobs started in another browser.
+  advancedOptions?: AdvancedOptionsType
+  error?: string
+  // Presigned URL from the backend; entries without one download through /api/download
+  downloadUrl?: string
+}
+
+export type HistorySort = "newest" | "oldest" | "largest" | "smallest" | "longest" | "shortest"
+
+export interface HistoryQuery {
+  // Every word has to appear in the filenames, metadata or device name
+  text?: string
+  deviceProfile?: string
+  status?: HistoryStatus
+  // Only entries finished at or after this (epoch ms)
+  since?: number
+  sort?: HistorySort
+}
+
+const listeners = new Set<() => void>()
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "jobId" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      // Allow a later call to retry opening the database
+      dbPromise = null
+      throw error
+    })
+  }
+
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Called whenever this browser's history changes; returns the unsubscribe function
+ */
+export function subscribeToConversionHistory(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/**
+ * Record a finished job. Recording the same job again replaces its entry.
+ */
+export async function recordConversion(entry: ConversionHistoryEntry): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.put(entry))
+
+    const entries = await readLocalHistory()
+    if (entries.length > MAX_LOCAL_ENTRIES) {
+      const stale = entries.sort((a, b) => b.finishedAt - a.finishedAt).slice(MAX_LOCAL_ENTRIES)
+      await Promise.all(stale.map((old) => withStore("readwrite", (store) => store.delete(old.jobId))))
+    }
+    notify()
+  } catch (error) {
+    logWarn("[HISTORY] Could not record conversion", {
+      job_id: entry.jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Forget one job from this browser's history. A signed-in user's backend entry stays.
+ */
+export async function removeConversion(jobId: string): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.delete(jobId))
+    notify()
+  } catch (error) {
+    logWarn("[HISTORY] Could not remove conversion", {
+      job_id: jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+export async function clearConversionHistory(): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.clear())
+    log("[HISTORY] Cleared this browser's conversion history")
+    notify()
+  } catch (error) {
+    logWarn("[HISTORY] Could not clear conversion history", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+async function readLocalHistory(): Promise<ConversionHistoryEntry[]> {
+  try {
+    return await withStore<ConversionHistoryEntry[]>("readonly", (store) => store.getAll())
+  } catch (error) {
+    logWarn("[HISTORY] Could not read conversion history", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return []
+  }
+}
+
+function fromUserDownload(download: UserDownload): ConversionHistoryEntry {
+  return {
+    jobId: download.job_id,
+    inputFilename: download.original_filename,
+    outputFilename: download.converted_filename,
+    deviceProfile: download.device_profile,
+    status: "COMPLETE",
+    inputSize: download.input_file_size,
+    outputSize: download.output_file_size,
+    durationSec: download.actual_duration,
+    finishedAt: download.completed_at ? Date.parse(download.completed_at) : 0,
+    downloadUrl: download.download_url,
+  }
+}
+
+/**
+ * The history to show, newest first: this browser's entries, plus the backend's for signed-in users.
+ * Backend failures are thrown (UNAUTHORIZED included); the local store never fails the load.
+ */
+export async function loadConversionHistory(options: {
+  sessionKey?: string | null
+  signedIn: boolean
+}): Promise<ConversionHistoryEntry[]> {
+  const byJob = new Map((await readLocalHistory()).map((entry) => [entry.jobId, entry]))
+
+  if (options.signedIn && options.sessionKey) {
+    const { downloads } = await getUserDownloads(options.sessionKey, BACKEND_LIMIT)
+    for (const download of downloads) {
+      const remote = fromUserDownload(download)
+      const local = byJob.get(remote.jobId)
+      // The backend knows the download URL; only this browser knows the metadata the job was sent with
+      const known = Object.fromEntries(Object.entries(remote).filter(([, value]) => value !== undefined))
+      byJob.set(remote.jobId, { ...local, ...known } as ConversionHistoryEntry)
+    }
+  }
+
+  return Array.from(byJob.values()).sort((a, b) => b.finishedAt - a.finishedAt)
+}
+
+// Lowercase without accents, so "Shonen" finds "Shōnen"
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+}
+
+function searchableText(entry: ConversionHistoryEntry): string {
+  const profileName = DEVICE_PROFILES[entry.deviceProfile as keyof typeof DEVICE_PROFILES]
+  const fields = [entry.inputFilename, entry.outputFilename, entry.deviceProfile, profileName, entry.error]
+  if (entry.metadata) fields.push(...Object.values(entry.metadata).map(String))
+  return normalizeText(fields.filter(Boolean).join(" "))
+}
+
+// Entries without the value sort last whichever way the list is ordered
+function compareOptional(a: number | undefined, b: number | undefined, direction: 1 | -1): number {
+  if (a === undefined || b === undefined) return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0)
+  return (a - b) * direction
+}
+
+const SORTS: Record<HistorySort, (a: ConversionHistoryEntry, b: ConversionHistoryEntry) => number> = {
+  newest: (a, b) => b.finishedAt - a.finishedAt,
+  oldest: (a, b) => a.finishedAt - b.finishedAt,
+  largest: (a, b) => compareOptional(a.outputSize ?? a.inputSize, b.outputSize ?? b.inputSize, -1),
+  smallest: (a, b) => compareOptional(a.outputSize ?? a.inputSize, b.outputSize ?? b.inputSize, 1),
+  longest: (a, b) => compareOptional(a.durationSec, b.durationSec, -1),
+  shortest: (a, b) => compareOptional(a.durationSec, b.durationSec, 1),
+}
+
+/**
+ * The entries matching `query`, in its sort order
+ */
+export function searchConversionHistory(
+  entries: ConversionHistoryEntry[],
+  query: HistoryQuery,
+): ConversionHistoryEntry[] {
+  const words = normalizeText(query.text ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+
+  return entries
+    .filter((entry) => !query.deviceProfile || entry.deviceProfile === query.deviceProfile)
+    .filter((entry) => !query.status || entry.status === query.status)
+    .filter((entry) => query.since === undefined || entry.finishedAt >= query.since)
+    .filter((entry) => {
+      if (words.length === 0) return true
+      const text = searchableText(entry)
+      return words.every((word) => text.includes(word))
+    })
+    .sort(SORTS[query.sort ?? "newest"])
+}
@@ -0,0 +1,503 @@
+// Downloads converted files through /api/download: resumes with Range requests when the connection
+// drops, and checks the result against the SHA-256 the route reports before handing it to the browser.
+// Saving hands small files to the browser as a normal download; larger ones are written straight to disk
+// where the browser lets us pick a file, else streamed to the browser's download manager by the service
+// worker, and are only assembled in memory when neither is possible.
+
+import { ApiError, errorFromResponse } from "./apiClient"
+import { CHECKSUM_HEADER } from "./downloadHeaders"
+import { log, logWarn } from "./logger"
+import { Sha256 } from "./sha256"
+
+// Range resumes per download attempt, after a dropped connection or a short body
+const MAX_RESUMES = 3
+// Full re-downloads after a checksum mismatch
+const MAX_CHECKSUM_RETRIES = 1
+const RESUME_DELAY_MS = 1000
+// Larger files are only held in memory when there's no other way to save them
+const MAX_IN_MEMORY_BYTES = 256 * 1024 * 1024
+
+// Same names as public/sw.js
+const STREAM_DOWNLOAD_MESSAGE = "stream-download"
+const STREAM_DOWNLOAD_PATH = "/download-stream/"
+// A service worker from before streamed downloads never answers
+const STREAM_DOWNLOAD_ACK_TIMEOUT_MS = 5000
+
+export interface DownloadProgress {
+  receivedBytes: number
+  totalBytes?: number
+  percentage?: number
+}
+
+export interface DownloadOptions {
+  // Used when the response doesn't name the file
+  fallbackFilename?: string
+  onProgress?: (progress: DownloadProgress) => void
+  signal?: AbortSignal
+}
+
+export interface SavedFile {
+  filename: string
+  // False when the server had no checksum to compare against, or the service worker saved it
+  verified: boolean
+}
+
+export interface SaveTarget {
+  // The name it's saved under, which the user may have changed in the picker
+  filename: string
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>
+  // Finish the file; a file held in memory is handed to the browser's save flow here
+  close(): Promise<void>
+  // Discard what was written
+  abort(): Promise<void>
+}
+
+// Where the received bytes go
+export interface DownloadSink {
+  // Called before the first byte, and again whenever the download starts over from the beginning
+  reset(totalBytes: number | undefined): Promise<void>
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>
+}
+
+interface ReceivedBody {
+  sha256: string
+  filename?: string
+  contentType?: string
+  checksum?: string
+}
+
+interface VerifiedBody {
+  filename: string
+  contentType?: string
+  verified: boolean
+}
+
+// Thrown by the memory sink before any bytes are read, so the caller can save the file another way
+class TooLargeForMemoryError extends Error {
+  constructor(readonly totalBytes: number) {
+    super(`Download is too large to hold in memory (${totalBytes} bytes)`)
+    this.name = "TooLargeForMemoryError"
+  }
+}
+
+// Chromium's File System Access API, which TypeScript's DOM types don't include yet
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>
+
+function memorySink(maxBytes?: number) {
+  let chunks: Uint8Array<ArrayBuffer>[] = []
+  return {
+    chunks: () => chunks,
+    async reset(totalBytes: number | undefined) {
+      if (maxBytes !== undefined && totalBytes !== undefined && totalBytes > maxBytes) {
+        throw new TooLargeForMemoryError(totalBytes)
+      }
+      chunks = []
+    },
+    async write(chunk: Uint8Array<ArrayBuffer>) {
+      chunks.push(chunk)
+    },
+  }
+}
+
+function fileSink(writable: FileSystemWritableFileStream): DownloadSink {
+  return {
+    async reset() {
+      await writable.truncate(0)
+      await writable.seek(0)
+    },
+    write: (chunk) => writable.write(chunk),
+  }
+}
+
+function filenameFrom(contentDisposition: string | null): string | undefined {
+  if (!contentDisposition) return undefined
+  const encoded = contentDisposition.match(/filename\*\s*=\s*UTF-8''([^;]+)/i)
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim())
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+  return contentDisposition.match(/filename\s*=\s*"?([^";]+)"?/i)?.[1]
+}
+
+// Total size from "bytes 100-199/5000" (206) or Content-Length (200)
+function totalSizeOf(response: Response): number | undefined {
+  const range = response.headers.get("content-range")?.match(/\/(\d+)$/)
+  if (range) return Number(range[1])
+  const length = response.headers.get("content-length")
+  return length ? Number(length) : undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Fetch the whole file, resuming from the last received byte after a dropped connection.
+ * Hashes as it goes so verifying a large file doesn't need a second pass.
+ */
+async function receiveFile(
+  sessionKey: string,
+  downloadId: string,
+  options: DownloadOptions,
+  sink: DownloadSink,
+): Promise<ReceivedBody> {
+  let hash = new Sha256()
+  let received = 0
+  let total: number | undefined
+  let etag: string | null = null
+  let meta: Omit<ReceivedBody, "sha256"> = {}
+
+  const restart = () => {
+    hash = new Sha256()
+    received = 0
+  }
+
+  for (let resume = 0; ; resume++) {
+    const headers: Record<string, string> = { "X-Session-Key": sessionKey }
+    if (received > 0) {
+      headers.Range = `bytes=${received}-`
+      // Without a validator a changed file would be stitched onto the old bytes
+      if (etag) headers["If-Range"] = etag
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`/api/download/${downloadId}`, { headers, signal: options.signal })
+    } catch (error) {
+      if (options.signal?.aborted) throw new ApiError("ABORTED", "Download cancelled", { cause: error })
+      if (resume < MAX_RESUMES) {
+        logWarn("[DOWNLOAD] Request failed, retrying", { download_id: downloadId, received_bytes: received })
+        await sleep(RESUME_DELAY_MS * (resume + 1))
+        continue
+      }
+      throw new ApiError("NETWORK_ERROR", "Download failed: could not reach the server", { cause: error })
+    }
+
+    if (!response.ok) throw await errorFromResponse(response)
+
+    const resumed = response.status === 206
+    const expectedRange = new RegExp(`^bytes ${received}-`)
+    if (received > 0 && !(resumed && expectedRange.test(response.headers.get("content-range") ?? ""))) {
+      // The server sent the whole file (no range support, or it changed): start over from this response
+      log("[DOWNLOAD] Server restarted the download from the beginning", { download_id: downloadId })
+      restart()
+    }
+
+    if (!resumed || received === 0) {
+      etag = response.headers.get("etag")
+      total = totalSizeOf(response)
+      meta = {
+        filename: filenameFrom(response.headers.get("content-disposition")),
+        contentType: response.headers.get("content-type") ?? undefined,
+        checksum: response.headers.get(CHECKSUM_HEADER)?.toLowerCase() || undefined,
+      }
+    }
+
+    if (!response.body) throw new ApiError("INVALID_RESPONSE", "Download returned an empty response")
+    if (received === 0) {
+      try {
+        await sink.reset(total)
+      } catch (error) {
+        await response.body.cancel()
+        throw error
+      }
+    }
+
+    const reader = response.body.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        await sink.write(value)
+        hash.update(value)
+        received += value.byteLength
+        options.onProgress?.({
+          receivedBytes: received,
+          totalBytes: total,
+          percentage: total ? Math.min(100, (received / total) * 100) : undefined,
+        })
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw new ApiError("ABORTED", "Download cancelled", { cause: error })
+      if (resume < MAX_RESUMES) {
+        logWarn("[DOWNLOAD] Connection dropped, resuming", {
+          download_id: downloadId,
+          received_bytes: received,
+          total_bytes: total,
+        })
+        await sleep(RESUME_DELAY_MS * (resume + 1))
+        continue
+      }
+      throw new ApiError("NETWORK_ERROR", "Download was interrupted too many times", { cause: error })
+    }
+
+    // A body that ends early without an error (proxy cut-off) is resumed the same way
+    if (total !== undefined && received < total) {
+      if (resume < MAX_RESUMES) {
+        logWarn("[DOWNLOAD] Download ended early, resuming", {
+          download_id: downloadId,
+          received_bytes: received,
+          total_bytes: total,
+        })
+        continue
+      }
+      throw new ApiError("NETWORK_ERROR", `Download incomplete: received ${received} of ${total} bytes`)
+    }
+
+    return { sha256: hash.digestHex(), ...meta }
+  }
+}
+
+/**
+ * Receive a converted file into `sink` and verify it against the server's checksum,
+ * downloading it again once if the bytes don't match.
+ */
+export async function receiveVerifiedFile(
+  sessionKey: string,
+  downloadId: string,
+  options: DownloadOptions,
+  sink: DownloadSink,
+): Promise<VerifiedBody> {
+  for (let attempt = 0; ; attempt++) {
+    const body = await receiveFile(sessionKey, downloadId, options, sink)
+    const filename = body.filename || options.fallbackFilename || `download-${downloadId}`
+
+    if (!body.checksum) {
+      log("[DOWNLOAD] No checksum reported, skipping verification", { download_id: downloadId })
+      return { filename, contentType: body.contentType, verified: false }
+    }
+
+    if (body.checksum === body.sha256) {
+      log("[DOWNLOAD] Checksum verified", { download_id: downloadId })
+      return { filename, contentType: body.contentType, verified: true }
+    }
+
+    logWarn("[DOWNLOAD] Checksum mismatch", {
+      download_id: downloadId,
+      expected: body.checksum,
+      actual: body.sha256,
+      attempt: attempt + 1,
+    })
+    if (attempt >= MAX_CHECKSUM_RETRIES) {
+      throw new ApiError("CHECKSUM_MISMATCH", `${filename} was corrupted during download. Please try again.`, {
+        details: { expected: body.checksum, actual: body.sha256 },
+      })
+    }
+  }
+}
+
+function saveFilePicker(): SaveFilePicker | undefined {
+  if (typeof window === "undefined") return undefined
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+  return picker?.bind(window)
+}
+
+// The file the user picked, or null when the picker couldn't be shown (e.g. the click no longer counts
+// as a user gesture) and the file should be saved another way
+async function pickSaveFile(picker: SaveFilePicker, suggestedName?: string): Promise<FileSystemFileHandle | null> {
+  try {
+    return await picker({ suggestedName })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new ApiError("ABORTED", "Download cancelled", { cause: error })
+    }
+    logWarn("[DOWNLOAD] Save picker unavailable, saving another way", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
+
+async function saveToFile(
+  sessionKey: string,
+  downloadId: string,
+  handle: FileSystemFileHandle,
+  options: DownloadOptions,
+): Promise<SavedFile> {
+  const writable = await handle.createWritable()
+  try {
+    const { verified } = await receiveVerifiedFile(sessionKey, downloadId, options, fileSink(writable))
+    await writable.close()
+    // Named by the user in the picker, whatever the server calls it
+    return { filename: handle.name, verified }
+  } catch (error) {
+    await writable.abort().catch(() => {})
+    throw error
+  }
+}
+
+// Receive the file into memory and hand it to the browser as a normal download
+async function saveFromMemory(
+  sessionKey: string,
+  downloadId: string,
+  options: DownloadOptions,
+  maxBytes?: number,
+): Promise<SavedFile> {
+  const sink = memorySink(maxBytes)
+  const { filename, contentType, verified } = await receiveVerifiedFile(sessionKey, downloadId, options, sink)
+  saveDownloadedFile({ blob: new Blob(sink.chunks(), { type: contentType || "application/octet-stream" }), filename })
+  return { filename, verified }
+}
+
+function canStreamThroughServiceWorker(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.serviceWorker?.controller
+}
+
+/**
+ * Register a streamed download with the service worker and wait for it to accept. Returns the page's end
+ * of the message channel, or null when no worker that knows streamed downloads controls the page.
+ */
+async function registerStreamDownload(token: string, details: Record<string, string>): Promise<MessagePort | null> {
+  const controller = navigator.serviceWorker?.controller
+  if (!controller) return null
+
+  const channel = new MessageChannel()
+  const accepted = new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => resolve(false), STREAM_DOWNLOAD_ACK_TIMEOUT_MS)
+    channel.port1.onmessage = () => {
+      clearTimeout(timer)
+      resolve(true)
+    }
+  })
+  controller.postMessage({ type: STREAM_DOWNLOAD_MESSAGE, token, ...details }, [channel.port2])
+  if (await accepted) return channel.port1
+  channel.port1.close()
+  return null
+}
+
+/**
+ * Have the service worker fetch the file with the session key and answer a navigation with it, so the
+ * browser's download manager streams it to disk. Nothing is resumed or verified on this path.
+ */
+async function streamThroughServiceWorker(sessionKey: string, downloadId: string): Promise<void> {
+  const token = crypto.randomUUID()
+  const port = await registerStreamDownload(token, { downloadId, sessionKey })
+  if (!port) throw new ApiError("NETWORK_ERROR", "Download failed: this browser can't save a file this large")
+  port.close()
+
+  log("[DOWNLOAD] Streaming through the service worker", { download_id: downloadId })
+  window.location.href = `${STREAM_DOWNLOAD_PATH}${token}`
+}
+
+/**
+ * A save target whose bytes the service worker hands to the browser's download manager as they're
+ * written. Each write waits until the download asks for more, so a slow disk holds the writer back.
+ */
+async function serviceWorkerTarget(filename: string, contentType: string): Promise<SaveTarget | null> {
+  const token = crypto.randomUUID()
+  const port = await registerStreamDownload(token, { filename, contentType })
+  if (!port) return null
+
+  let requested = 0
+  let cancelled = false
+  let wake: (() => void) | null = null
+  port.onmessage = ({ data }) => {
+    if (data.type === "pull") requested++
+    if (data.type === "cancel") cancelled = true
+    wake?.()
+    wake = null
+  }
+
+  log("[DOWNLOAD] Streaming a generated file through the service worker", { filename })
+  window.location.href = `${STREAM_DOWNLOAD_PATH}${token}`
+
+  return {
+    filename,
+    async write(chunk) {
+      while (requested === 0 && !cancelled) await new Promise<void>((resolve) => (wake = resolve))
+      if (cancelled) throw new ApiError("ABORTED", "Download cancelled")
+      requested--
+      port.postMessage({ type: "chunk", chunk })
+    },
+    async close() {
+      port.postMessage({ type: "close" })
+      port.close()
+    },
+    async abort() {
+      port.postMessage({ type: "abort" })
+      port.close()
+    },
+  }
+}
+
+/**
+ * Download a converted file and save it. Files up to MAX_IN_MEMORY_BYTES go through a normal browser
+ * download; larger ones are written to a file the user picks, or streamed by the service worker, without
+ * holding them in memory.
+ */
+export async function saveConvertedFile(
+  sessionKey: string,
+  downloadId: string,
+  options: DownloadOptions = {},
+): Promise<SavedFile> {
+  const picker = saveFilePicker()
+  const canStream = !!picker || canStreamThroughServiceWorker()
+  try {
+    return await saveFromMemory(sessionKey, downloadId, options, canStream ? MAX_IN_MEMORY_BYTES : undefined)
+  } catch (error) {
+    if (!(error instanceof TooLargeForMemoryError) || !canStream) throw error
+  }
+
+  log("[DOWNLOAD] Too large to hold in memory", { download_id: downloadId })
+  const handle = picker ? await pickSaveFile(picker, options.fallbackFilename) : null
+  if (handle) return saveToFile(sessionKey, downloadId, handle, options)
+  if (!canStreamThroughServiceWorker()) return saveFromMemory(sessionKey, downloadId, options)
+
+  await streamThroughServiceWorker(sessionKey, downloadId)
+  return { filename: options.fallbackFilename || `download-${downloadId}`, verified: false }
+}
+
+/**
+ * Somewhere to stream a file the page builds itself (e.g. a ZIP): the file the user picks where the browser
+ * supports it, else the browser's download manager through the service worker, else memory, saved as a
+ * normal download on close. Call it straight from a click handler so the picker still counts as a user gesture.
+ */
+export async function openSaveTarget(filename: string, type: string): Promise<SaveTarget> {
+  const picker = saveFilePicker()
+  const handle = picker ? await pickSaveFile(picker, filename) : null
+  if (handle) {
+    const writable = await handle.createWritable()
+    return {
+      filename: handle.name,
+      write: (chunk) => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort().catch(() => {}),
+    }
+  }
+
+  const streamed = await serviceWorkerTarget(filename, type)
+  if (streamed) return streamed
+
+  let chunks: Uint8Array<ArrayBuffer>[] = []
+  return {
+    filename,
+    write: async (chunk) => {
+      chunks.push(chunk)
+    },
+    close: async () => {
+      saveDownloadedFile({ blob: new Blob(chunks, { type }), filename })
+      chunks = []
+    },
+    abort: async () => {
+      chunks = []
+    },
+  }
+}
+
+/**
+ * Hand a downloaded file to the browser's save flow
+ */
+export function saveDownloadedFile({ blob, filename }: { blob: Blob; filename: string }): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoking straight away can cancel the save in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
@@ -0,0 +1,4 @@
+// Headers shared by the download route (server) and lib/downloadClient.ts (browser)
+
+// Set by the download route when storage knows the file's SHA-256 (lowercase hex)
+export const CHECKSUM_HEADER = "X-Checksum-Sha256"
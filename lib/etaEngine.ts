@@ -0,0 +1,322 @@
+// Time-remaining estimates for conversion jobs, keyed by job ID. A job goes through up to four stages:
+// upload, waiting in the queue, the worker downloading the file, and processing. The stage a job is in is
+// extrapolated locally between status updates; the stages still ahead are estimated from what other jobs
+// have shown so far. No React and no timers: callers feed observations in and read estimates out, and the
+// clock can be injected.
+
+import type { JobState } from "./jobState"
+
+export type EtaStage = "upload" | "queued" | "worker_download" | "processing"
+
+const STAGES: EtaStage[] = ["upload", "queued", "worker_download", "processing"]
+
+// What the client knows about a job at one point in time (from the upload itself and session updates)
+export interface JobObservation {
+  status?: JobState
+  fileSize: number
+  deviceProfile?: string
+  uploadedBytes?: number
+  queuePosition?: number
+  // Only sent while QUEUED, once a worker has picked the job up and is fetching the file
+  workerDownloadSpeedMbps?: number
+  processing?: {
+    elapsed_seconds?: number
+    remaining_seconds?: number
+    projected_eta?: number
+    progress_percent?: number
+  }
+}
+
+export interface JobEta {
+  stage: EtaStage
+  // 0-100 within the current stage
+  stageProgress: number
+  // Seconds left in the current stage; null when there's nothing to go on yet
+  stageRemainingSec: number | null
+  // Likely range of stageRemainingSec, while queued
+  stageRange?: { low: number; high: number }
+  // Seconds until the job is converted, over every stage still ahead; null when any of them is unknown
+  remainingSec: number | null
+  // Median of recent upload speed samples (bytes/sec), while uploading
+  uploadSpeedBps?: number
+}
+
+// Seconds a job will wait in the queue, counted from when its queue position was observed
+export interface QueueWait {
+  seconds: number
+  low: number
+  high: number
+}
+
+export interface EtaEngineOptions {
+  now?: () => number
+  // Upload speed samples the median is taken over
+  speedWindow?: number
+  // How long a job will wait in the queue before a worker picks it up, or null when unknown.
+  // Defaults to one learned processing time per job ahead of it.
+  estimateQueueWait?: (jobId: string, observation: JobObservation) => QueueWait | null
+}
+
+interface TrackedJob {
+  jobId: string
+  observation: JobObservation
+  stage: EtaStage
+  stageStartedAt: number
+  // Upload: the last sample, and speeds measured between samples
+  lastUpload?: { at: number; bytes: number }
+  speedSamples: number[]
+  // When the backend's numbers for this stage (queue position, processing progress) last changed
+  observedAt: number
+  // Processing: the furthest progress shown so far
+  shownProgress: number
+}
+
+// Upload samples closer together than this are too noisy to measure speed from
+const MIN_SAMPLE_INTERVAL_MS = 200
+// Weight of a new job in the learned processing rate
+const LEARNING_RATE = 0.3
+// Local extrapolation never claims a stage is done; the next status update does
+const MAX_EXTRAPOLATED_PROGRESS = 99
+
+function stageFor(status: JobState | undefined, observation: JobObservation): EtaStage | null {
+  if (status === "UPLOADING") return "upload"
+  if (status === "QUEUED") return observation.workerDownloadSpeedMbps ? "worker_download" : "queued"
+  if (status === "PROCESSING") return "processing"
+  return null
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+export class EtaEngine {
+  private readonly now: () => number
+  private readonly speedWindow: number
+  private readonly estimateQueueWait: (jobId: string, observation: JobObservation) => QueueWait | null
+  private readonly jobs = new Map<string, TrackedJob>()
+  // Learned from jobs seen so far, for the stages a job hasn't reached yet
+  private processingSecPerByte: number | null = null
+  private workerDownloadSpeedMbps: number | null = null
+
+  constructor(options: EtaEngineOptions = {}) {
+    this.now = options.now ?? Date.now
+    this.speedWindow = Math.max(1, options.speedWindow ?? 8)
+    this.estimateQueueWait = options.estimateQueueWait ?? ((_, observation) => this.defaultQueueWait(observation))
+  }
+
+  /**
+   * Record where a job stands. Observations that repeat the last one are harmless, so this can be called
+   * on every render. A job that's finished (or never started) is forgotten.
+   */
+  observe(jobId: string, observation: JobObservation): void {
+    const now = this.now()
+    const stage = stageFor(observation.status, observation)
+    if (!stage) {
+      this.jobs.delete(jobId)
+      return
+    }
+
+    let job = this.jobs.get(jobId)
+    if (!job || job.stage !== stage) {
+      job = {
+        jobId,
+        // Nothing seen in this stage yet, so the first observation counts as a change
+        observation: { fileSize: observation.fileSize },
+        stage,
+        stageStartedAt: now,
+        speedSamples: [],
+        observedAt: now,
+        shownProgress: 0,
+      }
+      this.jobs.set(jobId, job)
+    }
+
+    if (stage === "upload") this.sampleUpload(job, observation.uploadedBytes ?? 0, now)
+    if (stage === "queued" && job.observation.queuePosition !== observation.queuePosition) job.observedAt = now
+    if (stage === "worker_download") this.workerDownloadSpeedMbps = observation.workerDownloadSpeedMbps ?? null
+    if (stage === "processing") {
+      const previous = job.observation.processing
+      const next = observation.processing
+      if (
+        next &&
+        (previous?.progress_percent !== next.progress_percent || previous?.remaining_seconds !== next.remaining_seconds)
+      ) {
+        job.observedAt = now
+        this.learnProcessingRate(observation)
+      }
+    }
+    job.observation = observation
+  }
+
+  /**
+   * Forget every job not in `jobIds`
+   */
+  retain(jobIds: Iterable<string>): void {
+    const keep = new Set(jobIds)
+    for (const jobId of this.jobs.keys()) {
+      if (!keep.has(jobId)) this.jobs.delete(jobId)
+    }
+  }
+
+  /**
+   * Where the job stands right now, or null if it isn't being tracked
+   */
+  estimate(jobId: string): JobEta | null {
+    const job = this.jobs.get(jobId)
+    if (!job) return null
+
+    const { stageProgress, stageRemainingSec, stageRange } = this.currentStage(job)
+    let remainingSec = stageRemainingSec
+    for (const stage of STAGES.slice(STAGES.indexOf(job.stage) + 1)) {
+      const stageSec = this.futureStageSec(stage, jobId, job.observation)
+      remainingSec = remainingSec === null || stageSec === null ? null : remainingSec + stageSec
+    }
+
+    return {
+      stage: job.stage,
+      stageProgress,
+      stageRemainingSec,
+      stageRange,
+      remainingSec,
+      uploadSpeedBps: job.stage === "upload" && job.speedSamples.length > 0 ? median(job.speedSamples) : undefined,
+    }
+  }
+
+  /**
+   * When every tracked job should be converted (epoch ms), or null with nothing tracked or no estimate
+   * for one of them
+   */
+  batchDoneAt(): number | null {
+    if (this.jobs.size === 0) return null
+    let latestSec = 0
+    for (const jobId of this.jobs.keys()) {
+      const remainingSec = this.estimate(jobId)?.remainingSec
+      if (remainingSec == null) return null
+      latestSec = Math.max(latestSec, remainingSec)
+    }
+    return this.now() + latestSec * 1000
+  }
+
+  private sampleUpload(job: TrackedJob, bytes: number, now: number): void {
+    const last = job.lastUpload
+    if (!last) {
+      job.lastUpload = { at: now, bytes }
+      return
+    }
+    if (bytes <= last.bytes || now - last.at < MIN_SAMPLE_INTERVAL_MS) return
+
+    job.speedSamples.push((bytes - last.bytes) / ((now - last.at) / 1000))
+    while (job.speedSamples.length > this.speedWindow) job.speedSamples.shift()
+    job.lastUpload = { at: now, bytes }
+  }
+
+  private learnProcessingRate(observation: JobObservation): void {
+    const projected = observation.processing?.projected_eta
+    if (!projected || projected <= 0 || observation.fileSize <= 0) return
+    const rate = projected / observation.fileSize
+    this.processingSecPerByte =
+      this.processingSecPerByte === null
+        ? rate
+        : this.processingSecPerByte + (rate - this.processingSecPerByte) * LEARNING_RATE
+  }
+
+  private currentStage(job: TrackedJob): Pick<JobEta, "stageProgress" | "stageRemainingSec" | "stageRange"> {
+    const now = this.now()
+    const { observation } = job
+
+    switch (job.stage) {
+      case "upload": {
+        const uploaded = observation.uploadedBytes ?? 0
+        const speed = median(job.speedSamples)
+        const sinceSample = job.lastUpload ? (now - job.lastUpload.at) / 1000 : 0
+        return {
+          stageProgress: observation.fileSize > 0 ? clamp((uploaded / observation.fileSize) * 100, 0, 100) : 0,
+          stageRemainingSec: speed > 0 ? Math.max(0, (observation.fileSize - uploaded) / speed - sinceSample) : null,
+        }
+      }
+      case "queued": {
+        const wait = this.estimateQueueWait(job.jobId, observation)
+        if (!wait) return { stageProgress: 0, stageRemainingSec: null }
+        // Counts down between position updates; a new position brings a fresh estimate
+        const sinceSec = (now - job.observedAt) / 1000
+        const remainingSec = Math.max(0, wait.seconds - sinceSec)
+        return {
+          stageProgress: 0,
+          stageRemainingSec: remainingSec,
+          stageRange: { low: Math.max(0, wait.low - sinceSec), high: Math.max(remainingSec, wait.high - sinceSec) },
+        }
+      }
+      case "worker_download": {
+        const durationSec = this.workerDownloadSec(observation.fileSize, observation.workerDownloadSpeedMbps)
+        const elapsedSec = (now - job.stageStartedAt) / 1000
+        return {
+          stageProgress: durationSec > 0 ? clamp((elapsedSec / durationSec) * 100, 0, MAX_EXTRAPOLATED_PROGRESS) : 0,
+          stageRemainingSec: Math.max(0, durationSec - elapsedSec),
+        }
+      }
+      case "processing":
+        return this.processingStage(job, now)
+    }
+  }
+
+  // The backend's last numbers, carried forward at the rate they imply. Progress never goes backwards:
+  // if an update lands behind what was already shown, the bar holds until it catches up.
+  private processingStage(job: TrackedJob, now: number): Pick<JobEta, "stageProgress" | "stageRemainingSec"> {
+    const processing = job.observation.processing
+    const sinceSec = (now - job.observedAt) / 1000
+    let progress: number
+    let remainingSec: number | null
+
+    if (processing?.progress_percent != null && processing.remaining_seconds != null) {
+      const rate =
+        processing.remaining_seconds > 0 ? (100 - processing.progress_percent) / processing.remaining_seconds : 0
+      progress = processing.progress_percent + sinceSec * rate
+      remainingSec = Math.max(0, processing.remaining_seconds - sinceSec)
+    } else if (processing?.projected_eta) {
+      const elapsedSec = (processing.elapsed_seconds ?? 0) + sinceSec
+      progress = (elapsedSec / processing.projected_eta) * 100
+      remainingSec = Math.max(0, processing.projected_eta - elapsedSec)
+    } else if (this.processingSecPerByte !== null) {
+      const durationSec = this.processingSecPerByte * job.observation.fileSize
+      const elapsedSec = (now - job.stageStartedAt) / 1000
+      progress = durationSec > 0 ? (elapsedSec / durationSec) * 100 : 0
+      remainingSec = Math.max(0, durationSec - elapsedSec)
+    } else {
+      progress = 0
+      remainingSec = null
+    }
+
+    job.shownProgress = Math.max(job.shownProgress, clamp(progress, 0, MAX_EXTRAPOLATED_PROGRESS))
+    return { stageProgress: job.shownProgress, stageRemainingSec: remainingSec }
+  }
+
+  private futureStageSec(stage: EtaStage, jobId: string, observation: JobObservation): number | null {
+    switch (stage) {
+      case "upload":
+        return null
+      case "queued":
+        return this.estimateQueueWait(jobId, observation)?.seconds ?? null
+      case "worker_download":
+        return this.workerDownloadSec(observation.fileSize, this.workerDownloadSpeedMbps ?? undefined)
+      case "processing":
+        return this.processingSecPerByte === null ? null : this.processingSecPerByte * observation.fileSize
+    }
+  }
+
+  // Without a measured speed the download counts as instant; it's short next to the other stages
+  private workerDownloadSec(fileSize: number, speedMbps?: number): number {
+    return speedMbps && speedMbps > 0 ? (fileSize * 8) / (speedMbps * 1_000_000) : 0
+  }
+
+  private defaultQueueWait(observation: JobObservation): QueueWait | null {
+    if (!observation.queuePosition) return { seconds: 0, low: 0, high: 0 }
+    if (this.processingSecPerByte === null) return null
+    const seconds = observation.queuePosition * this.processingSecPerByte * observation.fileSize
+    return { seconds, low: seconds, high: seconds }
+  }
+}
@@ -0,0 +1,102 @@
+import { findDuplicateJob, isApiError } from "./apiClient"
+import { log, logWarn } from "./logger"
+
+interface PendingHash {
+  resolve: (hash: string) => void
+  reject: (error: Error) => void
+  onProgress?: (percentage: number) => void
+}
+
+type HashWorkerMessage =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "done"; hash: string }
+  | { id: number; type: "error"; error: string }
+
+// A converted job with the same content, device profile and options
+export interface ConvertedDuplicate {
+  job_id: string
+  output_filename?: string
+  completed_at?: string
+}
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingHashes = new Map<number, PendingHash>()
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./fileHash.worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data
+      const pending = pendingHashes.get(message.id)
+      if (!pending) return
+
+      if (message.type === "progress") {
+        pending.onProgress?.(message.progress)
+      } else if (message.type === "done") {
+        pendingHashes.delete(message.id)
+        pending.resolve(message.hash)
+      } else {
+        pendingHashes.delete(message.id)
+        pending.reject(new Error(message.error))
+      }
+    }
+
+    worker.onerror = (event) => {
+      logWarn("[HASH] Hash worker crashed", { error: event.message })
+      for (const pending of pendingHashes.values()) {
+        pending.reject(new Error(event.message || "Hash worker crashed"))
+      }
+      pendingHashes.clear()
+      worker?.terminate()
+      worker = null
+    }
+  }
+
+  return worker
+}
+
+/**
+ * Streaming SHA-256 of a file's content, computed off the main thread.
+ * Resolves to the lowercase hex digest.
+ */
+export function hashFile(file: File, onProgress?: (percentage: number) => void): Promise<string> {
+  if (typeof Worker === "undefined") {
+    return Promise.reject(new Error("Web Workers are not available"))
+  }
+
+  return new Promise<string>((resolve, reject) => {
+    const id = nextRequestId++
+    pendingHashes.set(id, { resolve, reject, onProgress })
+    getWorker().postMessage({ id, file })
+  })
+}
+
+/**
+ * Ask the backend whether this content was already converted with the same settings.
+ * Returns null when there is no match or the lookup fails.
+ */
+export async function findConvertedDuplicate(
+  contentHash: string,
+  deviceProfile: string,
+  advancedOptions: Record<string, any>,
+  sessionKey: string,
+): Promise<ConvertedDuplicate | null> {
+  try {
+    return await findDuplicateJob(sessionKey, {
+      content_hash: contentHash,
+      device_profile: deviceProfile,
+      advanced_options: advancedOptions,
+    })
+  } catch (error) {
+    if (isApiError(error) && error.status !== undefined) {
+      log("[HASH] Duplicate lookup failed", { status: error.status })
+      return null
+    }
+    logWarn("[HASH] Duplicate lookup error", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
@@ -0,0 +1,38 @@
+import { Sha256 } from "./sha256"
+
+// Chunk size for reading the file; keeps memory flat for multi-GB files
+const CHUNK_SIZE = 4 * 1024 * 1024
+
+// Throttle progress messages to roughly one per 1% of the file
+const PROGRESS_STEP = 0.01
+
+interface HashRequest {
+  id: number
+  file: File
+}
+
+const ctx = self as unknown as Worker
+
+ctx.onmessage = async (event: MessageEvent<HashRequest>) => {
+  const { id, file } = event.data
+
+  try {
+    const hash = new Sha256()
+    let lastReported = 0
+
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()
+      hash.update(new Uint8Array(chunk))
+
+      const fraction = Math.min(1, (offset + chunk.byteLength) / file.size)
+      if (fraction - lastReported >= PROGRESS_STEP) {
+        lastReported = fraction
+        ctx.postMessage({ id, type: "progress", progress: fraction * 100 })
+      }
+    }
+
+    ctx.postMessage({ id, type: "done", hash: hash.digestHex() })
+  } catch (error) {
+    ctx.postMessage({ id, type: "error", error: error instanceof Error ? error.message : String(error) })
+  }
+}
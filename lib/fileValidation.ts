@@ -1,3 +1,5 @@
+import { isJunkPath, readZipEntries, type ZipEntry } from "./zipReader"
+
 export const SUPPORTED_FORMATS = {
   // Direct conversion formats (no extraction needed)
   direct: [".pdf", ".epub"],
@@ -116,3 +118,270 @@ export function getSupportedFormatsList(): string[] {
 export function getSupportedFormatsString(): string {
   return ALL_SUPPORTED_EXTENSIONS.join(", ")
 }
+
+// ---------------------------------------------------------------------------
+// Content validation (magic bytes + archive scan)
+// ---------------------------------------------------------------------------
+
+export type DetectedFormat = "zip" | "epub" | "rar4" | "rar5" | "7z" | "pdf" | "unknown"
+
+export type ValidationIssueCode =
+  | "unsupported_extension"
+  | "unknown_format"
+  | "format_mismatch"
+  | "corrupt_archive"
+  | "no_images"
+  | "encrypted_entries"
+  | "nested_archives"
+  | "unsupported_entries"
+  | "empty_entries"
+
+export interface ValidationIssue {
+  code: ValidationIssueCode
+  message: string
+  // Archive entries the issue applies to, if any
+  entries?: string[]
+}
+
+export interface ValidationReport {
+  filename: string
+  extension: string
+  detectedFormat: DetectedFormat
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+  // Only present for ZIP-based archives whose central directory was scanned
+  archive?: {
+    entryCount: number
+    imageCount: number
+  }
+}
+
+// Formats each extension may legitimately contain
+const EXPECTED_FORMATS: Record<string, DetectedFormat[]> = {
+  ".pdf": ["pdf"],
+  ".epub": ["epub"],
+  ".zip": ["zip", "epub"],
+  ".cbz": ["zip", "epub"],
+  ".rar": ["rar4", "rar5"],
+  ".cbr": ["rar4", "rar5"],
+  ".7z": ["7z"],
+  ".cb7": ["7z"],
+}
+
+const FORMAT_LABELS: Record<DetectedFormat, string> = {
+  zip: "ZIP archive",
+  epub: "EPUB",
+  rar4: "RAR archive",
+  rar5: "RAR5 archive",
+  "7z": "7z archive",
+  pdf: "PDF",
+  unknown: "unknown file",
+}
+
+// Page image formats the converter accepts inside archives
+export const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".avif"]
+
+// Non-image entries that are expected in comic archives and ignored by the converter
+const METADATA_ENTRY_EXTENSIONS = [".xml", ".txt", ".nfo", ".json", ".sfv", ".md5"]
+
+const NESTED_ARCHIVE_EXTENSIONS = [...ALL_SUPPORTED_EXTENSIONS, ".tar", ".gz"]
+
+// Keep issue entry lists short enough to show in the queue
+const MAX_LISTED_ENTRIES = 5
+
+// Bytes read from the start of the file for sniffing (PDF allows the header within the first 1 KB)
+const SNIFF_LENGTH = 1024
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
+
+// Little-endian, as everything in a ZIP header is
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8)
+}
+
+/**
+ * Detect a file's real format from its leading bytes.
+ *
+ * @param file - The file to inspect
+ * @returns The detected format, or "unknown" if no signature matches
+ */
+export async function sniffFileFormat(file: Blob): Promise<DetectedFormat> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer())
+
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+    // EPUBs must store an uncompressed "mimetype" entry first. Its data follows the local header's name and
+    // extra field, and the extra field isn't always empty (Info-ZIP adds timestamps)
+    const nameLength = readUint16(bytes, 26)
+    const extraLength = readUint16(bytes, 28)
+    if (
+      startsWith(bytes, asciiBytes("mimetype"), 30) &&
+      nameLength === "mimetype".length &&
+      startsWith(bytes, asciiBytes("application/epub+zip"), 30 + nameLength + extraLength)
+    ) {
+      return "epub"
+    }
+    return "zip"
+  }
+  if (startsWith(bytes, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00])) {
+    return "rar5"
+  }
+  if (startsWith(bytes, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00])) {
+    return "rar4"
+  }
+  if (startsWith(bytes, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+    return "7z"
+  }
+
+  const pdfSignature = asciiBytes("%PDF-")
+  for (let i = 0; i + pdfSignature.length <= bytes.length; i++) {
+    if (startsWith(bytes, pdfSignature, i)) {
+      return "pdf"
+    }
+  }
+
+  return "unknown"
+}
+
+function listEntries(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED_ENTRIES).join(", ")
+  return names.length > MAX_LISTED_ENTRIES ? `${shown} and ${names.length - MAX_LISTED_ENTRIES} more` : shown
+}
+
+async function scanZipArchive(file: File, report: ValidationReport): Promise<void> {
+  let entries: ZipEntry[]
+  try {
+    entries = await readZipEntries(file)
+  } catch (error) {
+    report.errors.push({
+      code: "corrupt_archive",
+      message: `The archive could not be read: ${error instanceof Error ? error.message : String(error)}`,
+    })
+    return
+  }
+
+  const files = entries.filter((entry) => !entry.isDirectory && !isJunkPath(entry.name))
+  const images: string[] = []
+  const encrypted: string[] = []
+  const nested: string[] = []
+  const unsupported: string[] = []
+  const empty: string[] = []
+
+  for (const entry of files) {
+    const extension = getFileExtension(entry.name)
+    if (entry.encrypted) encrypted.push(entry.name)
+    if (entry.uncompressedSize === 0) {
+      empty.push(entry.name)
+    } else if (IMAGE_EXTENSIONS.includes(extension)) {
+      images.push(entry.name)
+    } else if (NESTED_ARCHIVE_EXTENSIONS.includes(extension)) {
+      nested.push(entry.name)
+    } else if (!METADATA_ENTRY_EXTENSIONS.includes(extension)) {
+      unsupported.push(entry.name)
+    }
+  }
+
+  report.archive = { entryCount: files.length, imageCount: images.length }
+
+  if (encrypted.length > 0) {
+    report.errors.push({
+      code: "encrypted_entries",
+      message: `${encrypted.length} password-protected ${encrypted.length === 1 ? "entry" : "entries"}: ${listEntries(encrypted)}`,
+      entries: encrypted,
+    })
+  }
+  if (images.length === 0) {
+    report.errors.push({
+      code: "no_images",
+      message:
+        nested.length > 0
+          ? "No images found - the archive only contains other archives. Extract them and add them individually."
+          : "No images found in the archive.",
+    })
+  }
+  if (nested.length > 0) {
+    report.warnings.push({
+      code: "nested_archives",
+      message: `Nested archives will be skipped: ${listEntries(nested)}`,
+      entries: nested,
+    })
+  }
+  if (unsupported.length > 0) {
+    report.warnings.push({
+      code: "unsupported_entries",
+      message: `Unsupported files will be ignored: ${listEntries(unsupported)}`,
+      entries: unsupported,
+    })
+  }
+  if (empty.length > 0) {
+    report.warnings.push({
+      code: "empty_entries",
+      message: `${empty.length} empty ${empty.length === 1 ? "file" : "files"}: ${listEntries(empty)}`,
+      entries: empty,
+    })
+  }
+}
+
+/**
+ * Validate a file's content before upload: checks the real format against the extension and,
+ * for ZIP/CBZ archives, scans the central directory for problems the converter would trip over.
+ *
+ * @param file - The file to validate
+ * @returns A report; the file should not be uploaded if `errors` is non-empty
+ */
+export async function validateFileContents(file: File): Promise<ValidationReport> {
+  const extension = getFileExtension(file.name)
+  const report: ValidationReport = {
+    filename: file.name,
+    extension,
+    detectedFormat: "unknown",
+    errors: [],
+    warnings: [],
+  }
+
+  if (!isSupportedFormat(file.name)) {
+    report.errors.push({
+      code: "unsupported_extension",
+      message: new UnsupportedFileFormatError(file.name, extension || null).message,
+    })
+    return report
+  }
+
+  report.detectedFormat = await sniffFileFormat(file)
+
+  if (report.detectedFormat === "unknown") {
+    report.errors.push({
+      code: "unknown_format",
+      message: `This doesn't look like a ${extension.slice(1).toUpperCase()} file - it may have been renamed or is damaged.`,
+    })
+    return report
+  }
+
+  if (!EXPECTED_FORMATS[extension]?.includes(report.detectedFormat)) {
+    const issue: ValidationIssue = {
+      code: "format_mismatch",
+      message: `File has a ${extension} extension but is actually a ${FORMAT_LABELS[report.detectedFormat]}.`,
+    }
+    // Archives with the wrong archive extension still convert, and so does an EPUB whose mimetype entry is
+    // missing or misplaced; a PDF, or an EPUB that isn't a ZIP at all, won't
+    const epubAsZip = extension === ".epub" && report.detectedFormat === "zip"
+    if (extension === ".pdf" || (extension === ".epub" && !epubAsZip) || report.detectedFormat === "pdf") {
+      report.errors.push(issue)
+    } else {
+      report.warnings.push(issue)
+    }
+  }
+
+  // An EPUB's pages are XHTML, so the image archive checks don't apply to one that sniffed as a plain ZIP
+  if (report.detectedFormat === "zip" && extension !== ".epub") {
+    await scanZipArchive(file, report)
+  }
+
+  return report
+}
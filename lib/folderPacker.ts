@@ -0,0 +1,188 @@
+import { log } from "./logger"
+import { isImagePath, naturalCompare } from "./pagePreview"
+import { isJunkPath } from "./zipReader"
+import { createStoredZip } from "./zipWriter"
+
+// A page found inside a dropped or picked folder; `path` starts with the top-level folder name
+export interface FolderImage {
+  path: string
+  file: File
+}
+
+export interface FolderChapter {
+  // Path below the top-level folder ("" when the pages sit directly in it)
+  path: string
+  pages: FolderImage[]
+}
+
+export interface ImageFolder {
+  name: string
+  chapters: FolderChapter[]
+}
+
+// "per-chapter": one CBZ per chapter directory; "merged": all chapters in one CBZ
+export type FolderPackMode = "per-chapter" | "merged"
+
+export interface DroppedItems {
+  files: File[]
+  images: FolderImage[]
+}
+
+function isJunkSegment(path: string): boolean {
+  return isJunkPath(path) || path.split("/").some((segment) => segment === "__MACOSX" || segment.startsWith("."))
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+// readEntries returns directory contents in batches; call it until it comes back empty
+async function readAllDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+async function walkDirectory(directory: FileSystemDirectoryEntry, prefix: string, images: FolderImage[]) {
+  for (const entry of await readAllDirectoryEntries(directory)) {
+    const path = `${prefix}/${entry.name}`
+    if (isJunkSegment(path)) continue
+
+    if (entry.isDirectory) {
+      await walkDirectory(entry as FileSystemDirectoryEntry, path, images)
+    } else if (isImagePath(entry.name)) {
+      images.push({ path, file: await readEntryFile(entry as FileSystemFileEntry) })
+    }
+  }
+}
+
+/**
+ * Split a drop into plain files and the images found inside dropped folders.
+ * Must be called synchronously from the drop handler: the entries are gone once the event returns.
+ */
+export async function collectDroppedItems(items: DataTransferItemList): Promise<DroppedItems> {
+  const entries = Array.from(items)
+    .filter((item) => item.kind === "file")
+    .map((item) => ({ entry: item.webkitGetAsEntry(), file: item.getAsFile() }))
+
+  const files: File[] = []
+  const images: FolderImage[] = []
+
+  for (const { entry, file } of entries) {
+    if (entry?.isDirectory) {
+      await walkDirectory(entry as FileSystemDirectoryEntry, entry.name, images)
+    } else if (file) {
+      files.push(file)
+    }
+  }
+
+  return { files, images }
+}
+
+/**
+ * Images picked through a directory input (`webkitdirectory`), which exposes each file's relative path
+ */
+export function imagesFromDirectoryInput(files: File[]): FolderImage[] {
+  return files
+    .map((file) => ({ path: file.webkitRelativePath || file.name, file }))
+    .filter((image) => isImagePath(image.path) && !isJunkSegment(image.path))
+}
+
+/**
+ * Group images by top-level folder, and within it by the directory that holds them.
+ * Chapters and pages come back in natural order.
+ */
+export function groupImageFolders(images: FolderImage[]): ImageFolder[] {
+  const folders = new Map<string, Map<string, FolderImage[]>>()
+
+  for (const image of images) {
+    const segments = image.path.split("/")
+    const root = segments[0]
+    const chapterPath = segments.slice(1, -1).join("/")
+
+    if (!folders.has(root)) folders.set(root, new Map())
+    const chapters = folders.get(root)!
+    if (!chapters.has(chapterPath)) chapters.set(chapterPath, [])
+    chapters.get(chapterPath)!.push(image)
+  }
+
+  return Array.from(folders.entries())
+    .sort(([a], [b]) => naturalCompare(a, b))
+    .map(([name, chapters]) => ({
+      name,
+      chapters: Array.from(chapters.entries())
+        .sort(([a], [b]) => naturalCompare(a, b))
+        .map(([path, pages]) => ({ path, pages: pages.sort((a, b) => naturalCompare(a.path, b.path)) })),
+    }))
+}
+
+function pageName(image: FolderImage): string {
+  return image.path.split("/").pop() || image.path
+}
+
+function chapterVolumeName(folder: ImageFolder, chapter: FolderChapter): string {
+  return chapter.path ? `${folder.name} - ${chapter.path.split("/").join(" - ")}` : folder.name
+}
+
+async function packVolume(
+  name: string,
+  entries: { name: string; image: FolderImage }[],
+  onProgress?: (percentage: number) => void,
+): Promise<File> {
+  const zip = await createStoredZip(
+    entries.map(({ name, image }) => ({ name, data: image.file, lastModified: image.file.lastModified })),
+    onProgress,
+  )
+  log("[FOLDER] Packed volume", { name, pages: entries.length, size: zip.size })
+  return new File([zip], `${name}.cbz`, { type: "application/vnd.comicbook+zip" })
+}
+
+/**
+ * Pack a folder into CBZ volumes.
+ *
+ * @param folder - Folder from `groupImageFolders`
+ * @param mode - One volume per chapter directory, or one volume for the whole folder
+ * @param onProgress - Called with 0-100 across all volumes of this folder
+ * @returns The packed volumes, in reading order
+ */
+export async function packImageFolder(
+  folder: ImageFolder,
+  mode: FolderPackMode,
+  onProgress?: (percentage: number) => void,
+): Promise<File[]> {
+  if (mode === "merged" || folder.chapters.length === 1) {
+    // Chapters keep their directory inside the archive so page names can't collide
+    const entries = folder.chapters.flatMap((chapter) =>
+      chapter.pages.map((image) => ({
+        name: chapter.path ? `${chapter.path}/${pageName(image)}` : pageName(image),
+        image,
+      })),
+    )
+    return [await packVolume(folder.name, entries, onProgress)]
+  }
+
+  const totalBytes = folder.chapters.reduce(
+    (sum, chapter) => sum + chapter.pages.reduce((pageSum, image) => pageSum + image.file.size, 0),
+    0,
+  )
+  const volumes: File[] = []
+  let packedBytes = 0
+
+  for (const chapter of folder.chapters) {
+    const chapterBytes = chapter.pages.reduce((sum, image) => sum + image.file.size, 0)
+    const volume = await packVolume(
+      chapterVolumeName(folder, chapter),
+      chapter.pages.map((image) => ({ name: pageName(image), image })),
+      (percentage) =>
+        onProgress?.(totalBytes > 0 ? ((packedBytes + (chapterBytes * percentage) / 100) / totalBytes) * 100 : 100),
+    )
+    volumes.push(volume)
+    packedBytes += chapterBytes
+  }
+
+  return volumes
+}
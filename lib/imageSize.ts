@@ -0,0 +1,94 @@
+// Read image dimensions from file headers, without decoding the image
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+// Enough for the headers of every format below, except JPEGs with large embedded metadata
+const HEADER_BYTES = 64 * 1024
+
+function parsePng(view: DataView): ImageSize | null {
+  // Signature, then the IHDR chunk: width and height are its first two fields
+  if (view.byteLength < 24 || view.getUint32(0) !== 0x89504e47 || view.getUint32(12) !== 0x49484452) return null
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
+
+function parseGif(view: DataView): ImageSize | null {
+  if (view.byteLength < 10 || view.getUint32(0) !== 0x47494638) return null
+  return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+}
+
+function parseBmp(view: DataView): ImageSize | null {
+  if (view.byteLength < 26 || view.getUint16(0) !== 0x424d) return null
+  return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) }
+}
+
+function parseWebp(view: DataView): ImageSize | null {
+  if (view.byteLength < 30 || view.getUint32(0) !== 0x52494646 || view.getUint32(8) !== 0x57454250) return null
+  const chunk = view.getUint32(12)
+
+  if (chunk === 0x56503820) {
+    // "VP8 " (lossy): 14-bit dimensions after the frame start code
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+  }
+  if (chunk === 0x5650384c) {
+    // "VP8L" (lossless): 14-bit width-1 and height-1 packed after the signature byte
+    const bits = view.getUint32(21, true)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === 0x56503858) {
+    // "VP8X" (extended): 24-bit canvas width-1 and height-1
+    const width = (view.getUint8(24) | (view.getUint8(25) << 8) | (view.getUint8(26) << 16)) + 1
+    const height = (view.getUint8(27) | (view.getUint8(28) << 8) | (view.getUint8(29) << 16)) + 1
+    return { width, height }
+  }
+  return null
+}
+
+function parseJpeg(view: DataView): ImageSize | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null
+
+  let pos = 2
+  while (pos + 9 <= view.byteLength) {
+    if (view.getUint8(pos) !== 0xff) return null
+    const marker = view.getUint8(pos + 1)
+    // Start-of-frame markers (SOF0-SOF15, minus DHT/JPG/DAC) carry the dimensions
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(pos + 7), height: view.getUint16(pos + 5) }
+    }
+    pos += 2 + view.getUint16(pos + 2)
+  }
+  return null
+}
+
+function parseHeader(view: DataView): ImageSize | null {
+  return parsePng(view) || parseJpeg(view) || parseWebp(view) || parseGif(view) || parseBmp(view)
+}
+
+/**
+ * Dimensions of an image blob.
+ * Reads only the header for PNG, JPEG, WebP, GIF and BMP; other formats are decoded when the browser can.
+ */
+export async function readImageSize(blob: Blob): Promise<ImageSize | null> {
+  const header = parseHeader(new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer()))
+  if (header) return header
+
+  // JPEG with metadata past the first chunk
+  if (blob.size > HEADER_BYTES) {
+    const full = parseJpeg(new DataView(await blob.arrayBuffer()))
+    if (full) return full
+  }
+
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(blob)
+      const size = { width: bitmap.width, height: bitmap.height }
+      bitmap.close()
+      return size
+    } catch {
+      return null
+    }
+  }
+  return null
+}
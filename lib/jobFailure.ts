@@ -0,0 +1,102 @@
+// Why a conversion failed and how to retry it. Transient failures are retried on their own with backoff;
+// the others get a one-click retry, with option changes that make the same failure less likely where we
+// know of any.
+
+import type { AdvancedOptionsType } from "./advancedOptions"
+
+export const FAILURE_CATEGORIES = [
+  "corrupt_input",
+  "unsupported_content",
+  "worker_timeout",
+  "out_of_memory",
+  "transient",
+] as const
+
+export type FailureCategory = (typeof FAILURE_CATEGORIES)[number]
+
+export interface JobFailure {
+  category: FailureCategory
+  // The backend's message, for display
+  message: string
+}
+
+export interface RetryPlan {
+  // Option changes for the retry; empty to retry with the same options
+  options: Partial<AdvancedOptionsType>
+  // Convert the copy the backend already has; false when the upload itself may be the problem
+  reuseUpload: boolean
+  // Retried without asking, with backoff
+  automatic: boolean
+}
+
+export const FAILURE_LABELS: Record<FailureCategory, string> = {
+  corrupt_input: "The file looks damaged",
+  unsupported_content: "The file has content the converter can't handle",
+  worker_timeout: "The conversion took too long",
+  out_of_memory: "The conversion ran out of memory",
+  transient: "Temporary server problem",
+}
+
+// Automatic retries of transient failures before giving up and asking
+export const MAX_AUTO_RETRIES = 3
+const AUTO_RETRY_BASE_MS = 5_000
+const AUTO_RETRY_MAX_MS = 60_000
+
+// For backends that don't send a category: matched against the message in order, first match wins.
+// The messages come from the converter and the worker runtime.
+const FAILURE_PATTERNS: [FailureCategory, RegExp][] = [
+  ["out_of_memory", /out of memory|memoryerror|\boom\b|cannot allocate|killed/i],
+  ["worker_timeout", /timed? ?out|timeout|deadline exceeded/i],
+  ["corrupt_input", /corrupt|bad ?zip|not a zip|crc|truncated|unexpected end|invalid archive|cannot identify image/i],
+  ["unsupported_content", /unsupported|not supported|no (images|pages) found|drm|encrypted|password/i],
+]
+
+export function isFailureCategory(value: unknown): value is FailureCategory {
+  return typeof value === "string" && (FAILURE_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Classify a failure. The backend's own category wins when it sends one; anything unrecognized counts as
+ * transient, so it's retried a few times before the user is asked.
+ */
+export function classifyJobFailure(message: string | undefined, category?: unknown): JobFailure {
+  const text = message || "Conversion failed"
+  if (isFailureCategory(category)) return { category, message: text }
+  const match = FAILURE_PATTERNS.find(([, pattern]) => pattern.test(text))
+  return { category: match ? match[0] : "transient", message: text }
+}
+
+/**
+ * How to retry a job that failed with `category` after being converted with `options`
+ */
+export function retryPlanFor(category: FailureCategory, options: AdvancedOptionsType): RetryPlan {
+  switch (category) {
+    case "out_of_memory":
+    case "worker_timeout": {
+      // High quality and upscaling are the heaviest processing steps
+      const lighter: Partial<AdvancedOptionsType> = {}
+      if (options.hq) lighter.hq = false
+      if (options.upscale) lighter.upscale = false
+      return { options: lighter, reuseUpload: true, automatic: false }
+    }
+    case "unsupported_content":
+      // Images the converter can't process can often still be packed as they are
+      return { options: options.noProcessing ? {} : { noProcessing: true }, reuseUpload: true, automatic: false }
+    case "corrupt_input":
+      // The copy the backend has may be the damaged one, so the file is sent again
+      return { options: {}, reuseUpload: false, automatic: false }
+    case "transient":
+      return { options: {}, reuseUpload: true, automatic: true }
+  }
+}
+
+/**
+ * When to retry a failed job automatically (epoch ms), or undefined when it needs the user.
+ * `retryCount` is how many times the job has already been retried.
+ */
+export function autoRetryAt(failure: JobFailure, retryCount: number, now = Date.now()): number | undefined {
+  if (failure.category !== "transient" || retryCount >= MAX_AUTO_RETRIES) return undefined
+  // Exponential backoff with jitter, so jobs that failed together don't all come back at once
+  const delay = Math.min(AUTO_RETRY_MAX_MS, AUTO_RETRY_BASE_MS * 2 ** retryCount)
+  return now + delay * (0.8 + Math.random() * 0.4)
+}
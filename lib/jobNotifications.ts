@@ -0,0 +1,68 @@
+// System notifications for finished conversions, so a long job doesn't need the tab in view.
+// Shown through the service worker when there is one (public/sw.js shows the same kind for uploads
+// it finishes in the background); notifications are tagged by job, so a job is never announced twice.
+
+import type { QueueJob } from "./realtimeClient"
+import { logWarn } from "./logger"
+
+// Asked for once per browser; after that we follow whatever the user chose
+const PERMISSION_ASKED_KEY = "job_notifications_asked"
+
+type FinishedStatus = Extract<QueueJob["status"], "COMPLETE" | "ERRORED">
+
+export function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window
+}
+
+/**
+ * Ask for permission the first time a conversion starts. Must run inside a user gesture (e.g. a click).
+ */
+export async function requestJobNotifications(): Promise<boolean> {
+  if (!notificationsSupported()) return false
+  if (Notification.permission !== "default") return Notification.permission === "granted"
+  if (localStorage.getItem(PERMISSION_ASKED_KEY)) return false
+
+  localStorage.setItem(PERMISSION_ASKED_KEY, "1")
+  try {
+    return (await Notification.requestPermission()) === "granted"
+  } catch {
+    return false
+  }
+}
+
+export function isFinishedStatus(status: QueueJob["status"]): status is FinishedStatus {
+  return status === "COMPLETE" || status === "ERRORED"
+}
+
+/**
+ * Announce a job that reached COMPLETE or ERRORED
+ */
+export async function notifyJobFinished(
+  job: Pick<QueueJob, "job_id" | "filename" | "output_filename">,
+  status: FinishedStatus,
+) {
+  if (!notificationsSupported() || Notification.permission !== "granted") return
+
+  const title = status === "COMPLETE" ? "Conversion complete" : "Conversion failed"
+  const options: NotificationOptions = {
+    body: status === "COMPLETE" ? `${job.output_filename || job.filename} is ready to download` : job.filename,
+    icon: "/web-app-manifest-192x192.png",
+    badge: "/favicon-96x96.png",
+    tag: `job-${job.job_id}`,
+    data: { url: "/", jobId: job.job_id },
+  }
+
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration()
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      new Notification(title, options)
+    }
+  } catch (error) {
+    logWarn("[NOTIFICATIONS] Failed to show notification", {
+      job_id: job.job_id,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
@@ -0,0 +1,63 @@
+// The lifecycle of a conversion job, shared by the realtime client, the API routes and the queue UI.
+// Jobs only move forward: UPLOADING, QUEUED, PROCESSING, then one of the finished states. Snapshots and polls
+// can skip steps in between, so any forward move is accepted; only a move backwards, or away from a finished
+// state, is a stale or out-of-order update and is ignored rather than shown.
+
+export const JOB_STATES = ["UPLOADING", "QUEUED", "PROCESSING", "COMPLETE", "ERRORED", "CANCELLED"] as const
+
+export type JobState = (typeof JOB_STATES)[number]
+
+// How far along the lifecycle each state is; the finished states share the last step
+const RANK: Record<JobState, number> = {
+  UPLOADING: 0,
+  QUEUED: 1,
+  PROCESSING: 2,
+  COMPLETE: 3,
+  ERRORED: 3,
+  CANCELLED: 3,
+}
+
+const FINISHED_RANK = 3
+
+export function isJobState(value: unknown): value is JobState {
+  return typeof value === "string" && (JOB_STATES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a job may move from `from` to `to`: any step forward, including skipped ones, until it's finished.
+ * A job we know nothing about yet may start in any state.
+ */
+export function canTransition(from: JobState | undefined, to: JobState): boolean {
+  if (from === undefined) return true
+  return !isTerminalJobState(from) && RANK[to] > RANK[from]
+}
+
+/**
+ * The state a job is in after an update reporting `incoming`: the update's state when it's the same
+ * or further along, otherwise `current`, since the update arrived out of order.
+ */
+export function nextJobState(current: JobState | undefined, incoming: JobState): JobState {
+  if (current === undefined || current === incoming || canTransition(current, incoming)) return incoming
+  return current
+}
+
+/**
+ * Finished jobs never change state again
+ */
+export function isTerminalJobState(state: JobState | undefined): boolean {
+  return state !== undefined && RANK[state] === FINISHED_RANK
+}
+
+/**
+ * Uploading, waiting for a worker or converting
+ */
+export function isActiveJobState(state: JobState | undefined): boolean {
+  return state !== undefined && !isTerminalJobState(state)
+}
+
+/**
+ * Conversion can only be started once, straight after the upload
+ */
+export function canStartJob(state: JobState | undefined): boolean {
+  return state === "UPLOADING"
+}
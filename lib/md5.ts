@@ -0,0 +1,105 @@
+// Incremental MD5, for the Content-MD5 of upload parts (crypto.subtle has no MD5)
+
+const K = new Uint32Array(64)
+for (let i = 0; i < 64; i++) {
+  K[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000)
+}
+
+const S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4,
+  11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476])
+  private block = new Uint8Array(64)
+  private blockLength = 0
+  private bytesHashed = 0
+  private m = new Uint32Array(16)
+
+  update(data: Uint8Array): this {
+    let offset = 0
+    this.bytesHashed += data.length
+
+    // Top up a partially filled block first
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length)
+      this.block.set(data.subarray(0, take), this.blockLength)
+      this.blockLength += take
+      offset = take
+      if (this.blockLength === 64) {
+        this.compress(this.block, 0)
+        this.blockLength = 0
+      }
+    }
+
+    while (offset + 64 <= data.length) {
+      this.compress(data, offset)
+      offset += 64
+    }
+
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset), 0)
+      this.blockLength = data.length - offset
+    }
+
+    return this
+  }
+
+  /**
+   * The 16-byte digest; the hash can't be updated afterwards
+   */
+  digest(): Uint8Array {
+    const bitLength = this.bytesHashed * 8
+    const padLength = this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength
+    const padding = new Uint8Array(padLength + 8)
+    padding[0] = 0x80
+    // Message length in bits, little-endian 64-bit
+    const view = new DataView(padding.buffer)
+    view.setUint32(padLength, bitLength >>> 0, true)
+    view.setUint32(padLength + 4, Math.floor(bitLength / 0x100000000), true)
+    this.update(padding)
+
+    const out = new Uint8Array(16)
+    const outView = new DataView(out.buffer)
+    this.state.forEach((word, i) => outView.setUint32(i * 4, word, true))
+    return out
+  }
+
+  private compress(data: Uint8Array, offset: number) {
+    const m = this.m
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      m[i] = data[j] | (data[j + 1] << 8) | (data[j + 2] << 16) | (data[j + 3] << 24)
+    }
+
+    let [a, b, c, d] = this.state
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      f = (f + a + K[i] + m[g]) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((f << S[i]) | (f >>> (32 - S[i])))) | 0
+    }
+
+    this.state[0] += a
+    this.state[1] += b
+    this.state[2] += c
+    this.state[3] += d
+  }
+}
@@ -0,0 +1,214 @@
+import { getFileExtension, IMAGE_EXTENSIONS } from "./fileValidation"
+import { isJunkPath, readZipEntries, readZipEntry, type ZipEntry } from "./zipReader"
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+}
+
+// Width PDF pages are rasterised at when no size is requested
+const DEFAULT_RENDER_WIDTH = 1200
+
+export interface PreviewPage {
+  label: string
+  // Produce the page image; `maxWidth` lets PDF pages render smaller for thumbnails
+  render: (maxWidth?: number) => Promise<Blob>
+}
+
+export interface PreviewDocument {
+  pages: PreviewPage[]
+  destroy: () => void
+}
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+
+/**
+ * Compare paths the way a reader expects pages to be ordered ("page2" before "page10")
+ */
+export function naturalCompare(a: string, b: string): number {
+  return naturalCollator.compare(a, b)
+}
+
+export function isImagePath(path: string): boolean {
+  return IMAGE_EXTENSIONS.includes(getFileExtension(path))
+}
+
+function imageMimeType(path: string): string {
+  return IMAGE_MIME_TYPES[getFileExtension(path)] || "application/octet-stream"
+}
+
+function zipEntryPage(file: File, entry: ZipEntry): PreviewPage {
+  return {
+    label: entry.name.split("/").pop() || entry.name,
+    render: () => readZipEntry(file, entry, imageMimeType(entry.name)),
+  }
+}
+
+async function openImageArchive(file: File): Promise<PreviewDocument> {
+  const entries = await readZipEntries(file)
+  const pages = entries
+    .filter((entry) => !entry.isDirectory && !entry.encrypted && isImagePath(entry.name) && !isJunkPath(entry.name))
+    .sort((a, b) => naturalCompare(a.name, b.name))
+    .map((entry) => zipEntryPage(file, entry))
+
+  return { pages, destroy: () => {} }
+}
+
+// Resolve an href from a document inside the EPUB against that document's path
+function resolveEpubPath(basePath: string, href: string): string {
+  const resolved = new URL(href, `https://epub.invalid/${basePath}`)
+  return decodeURIComponent(resolved.pathname.slice(1))
+}
+
+async function readZipText(file: File, entry: ZipEntry): Promise<string> {
+  return (await readZipEntry(file, entry)).text()
+}
+
+async function openEpub(file: File): Promise<PreviewDocument> {
+  const entries = await readZipEntries(file)
+  const byName = new Map(entries.map((entry) => [entry.name, entry]))
+  const parser = new DOMParser()
+
+  const containerEntry = byName.get("META-INF/container.xml")
+  if (!containerEntry) {
+    throw new Error("EPUB is missing META-INF/container.xml")
+  }
+  const container = parser.parseFromString(await readZipText(file, containerEntry), "application/xml")
+  const opfPath = container.querySelector("rootfile")?.getAttribute("full-path")
+  const opfEntry = opfPath ? byName.get(opfPath) : undefined
+  if (!opfPath || !opfEntry) {
+    throw new Error("EPUB package document not found")
+  }
+
+  const opf = parser.parseFromString(await readZipText(file, opfEntry), "application/xml")
+  const manifest = new Map<string, { path: string; mediaType: string }>()
+  opf.querySelectorAll("manifest > item").forEach((item) => {
+    const id = item.getAttribute("id")
+    const href = item.getAttribute("href")
+    if (id && href) {
+      manifest.set(id, { path: resolveEpubPath(opfPath, href), mediaType: item.getAttribute("media-type") || "" })
+    }
+  })
+
+  // Walk the spine in reading order and collect the images each document shows
+  const imagePaths: string[] = []
+  const seen = new Set<string>()
+  const addImage = (path: string) => {
+    if (!seen.has(path) && byName.has(path)) {
+      seen.add(path)
+      imagePaths.push(path)
+    }
+  }
+
+  for (const itemref of Array.from(opf.querySelectorAll("spine > itemref"))) {
+    const item = manifest.get(itemref.getAttribute("idref") || "")
+    if (!item) continue
+
+    if (item.mediaType.startsWith("image/")) {
+      addImage(item.path)
+      continue
+    }
+
+    const docEntry = byName.get(item.path)
+    if (!docEntry) continue
+    const doc = parser.parseFromString(await readZipText(file, docEntry), "application/xhtml+xml")
+    doc.querySelectorAll("img, image").forEach((el) => {
+      const href = el.getAttribute("src") || el.getAttribute("href") || el.getAttribute("xlink:href")
+      if (href) addImage(resolveEpubPath(item.path, href))
+    })
+  }
+
+  // Fixed-layout EPUBs without inline images: fall back to the manifest's images
+  if (imagePaths.length === 0) {
+    for (const item of manifest.values()) {
+      if (item.mediaType.startsWith("image/")) addImage(item.path)
+    }
+  }
+
+  return {
+    pages: imagePaths.map((path) => zipEntryPage(file, byName.get(path)!)),
+    destroy: () => {},
+  }
+}
+
+async function openPdf(file: File): Promise<PreviewDocument> {
+  const pdfjs = await import("pdfjs-dist")
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+
+  // Feed pdf.js byte ranges straight from the File so large PDFs aren't read into memory
+  const initialLength = Math.min(file.size, 64 * 1024)
+  const initialData = new Uint8Array(await file.slice(0, initialLength).arrayBuffer())
+  const transport = new pdfjs.PDFDataRangeTransport(file.size, initialData)
+  const loadingTask = pdfjs.getDocument({ range: transport, disableAutoFetch: true, disableStream: true })
+  let readError: unknown
+  transport.requestDataRange = (begin: number, end: number) => {
+    file
+      .slice(begin, end)
+      .arrayBuffer()
+      .then((buffer) => transport.onDataRange(begin, new Uint8Array(buffer)))
+      .catch((error) => {
+        // The file became unreadable (removed, permissions changed): pdf.js would wait for the range forever
+        readError = error
+        loadingTask.destroy()
+      })
+  }
+
+  const pdf = await loadingTask.promise.catch((error) => {
+    throw readError ?? error
+  })
+
+  const pages: PreviewPage[] = Array.from({ length: pdf.numPages }, (_, i) => ({
+    label: `Page ${i + 1}`,
+    render: async (maxWidth = DEFAULT_RENDER_WIDTH) => {
+      const page = await pdf.getPage(i + 1)
+      const baseViewport = page.getViewport({ scale: 1 })
+      const viewport = page.getViewport({ scale: maxWidth / baseViewport.width })
+
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.ceil(viewport.width)
+      canvas.height = Math.ceil(viewport.height)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        throw new Error("Canvas 2D context not available")
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise
+      page.cleanup()
+
+      return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render PDF page"))), "image/png")
+      })
+    },
+  }))
+
+  return { pages, destroy: () => pdf.destroy() }
+}
+
+/**
+ * Open a file for local page preview.
+ * Supports images, CBZ/ZIP archives, EPUB and PDF; returns null for formats that can't be read in the browser (RAR, 7z).
+ */
+export async function openPreviewDocument(file: File): Promise<PreviewDocument | null> {
+  const extension = getFileExtension(file.name)
+
+  if (file.type.startsWith("image/") || isImagePath(file.name)) {
+    return { pages: [{ label: file.name, render: async () => file }], destroy: () => {} }
+  }
+
+  switch (extension) {
+    case ".cbz":
+    case ".zip":
+      return openImageArchive(file)
+    case ".epub":
+      return openEpub(file)
+    case ".pdf":
+      return openPdf(file)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,204 @@
+import { z } from "zod"
+import type { AdvancedOptionsType } from "./advancedOptions"
+import { DEVICE_PROFILES } from "./device-profiles"
+import { logWarn } from "./logger"
+
+const PRESETS_STORAGE_KEY = "mangaconverter_option_presets"
+const DELETED_STORAGE_KEY = "mangaconverter_option_presets_deleted"
+const EXPORT_FORMAT = "mangaconverter-presets"
+const EXPORT_VERSION = 1
+// Deletions are remembered this long, so other devices drop the preset when they next sync
+const TOMBSTONE_TTL_MS = 180 * 24 * 60 * 60 * 1000
+
+const deviceProfileKeys = Object.keys(DEVICE_PROFILES).filter((key) => key !== "Placeholder") as [string, ...string[]]
+
+const advancedOptionsSchema = z.object({
+  mangaStyle: z.boolean(),
+  hq: z.boolean(),
+  twoPanel: z.boolean(),
+  webtoon: z.boolean(),
+  targetSize: z.number().min(0),
+  noProcessing: z.boolean(),
+  upscale: z.boolean(),
+  stretch: z.boolean(),
+  splitter: z.number().int().min(0).max(2),
+  gamma: z.number().min(0),
+  outputFormat: z.enum(["Auto", "MOBI", "EPUB", "CBZ", "KFX", "MOBI+EPUB"]),
+  author: z.string(),
+  noKepub: z.boolean(),
+  customWidth: z.number().int().min(0),
+  customHeight: z.number().int().min(0),
+}) satisfies z.ZodType<AdvancedOptionsType>
+
+const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(80),
+  deviceProfile: z.enum(deviceProfileKeys),
+  options: advancedOptionsSchema,
+  updatedAt: z.number(),
+})
+
+const tombstoneSchema = z.object({
+  id: z.string().min(1),
+  deletedAt: z.number(),
+})
+
+const presetExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  presets: z.array(presetSchema),
+})
+
+export type OptionPreset = z.infer<typeof presetSchema>
+// A deleted preset's id; keeps a copy on another device from bringing it back in a merge
+export type PresetTombstone = z.infer<typeof tombstoneSchema>
+
+/**
+ * Custom error for preset files that can't be imported
+ */
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PresetImportError"
+  }
+}
+
+export function createPreset(name: string, deviceProfile: string, options: AdvancedOptionsType): OptionPreset {
+  return presetSchema.parse({
+    id: crypto.randomUUID(),
+    name,
+    deviceProfile,
+    options: { ...options },
+    updatedAt: Date.now(),
+  })
+}
+
+/**
+ * Validate presets from an untrusted source (storage, account metadata), dropping invalid entries
+ */
+export function sanitizePresets(value: unknown): OptionPreset[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    const result = presetSchema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+}
+
+/**
+ * Validate tombstones from an untrusted source, dropping invalid and expired entries
+ */
+export function sanitizeTombstones(value: unknown, now = Date.now()): PresetTombstone[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    const result = tombstoneSchema.safeParse(item)
+    return result.success && now - result.data.deletedAt < TOMBSTONE_TTL_MS ? [result.data] : []
+  })
+}
+
+export function loadLocalPresets(): OptionPreset[] {
+  if (typeof window === "undefined") return []
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY)
+    return raw ? sanitizePresets(JSON.parse(raw)) : []
+  } catch (error) {
+    logWarn("[PRESETS] Failed to read saved presets", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return []
+  }
+}
+
+export function saveLocalPresets(presets: OptionPreset[]) {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    logWarn("[PRESETS] Failed to save presets", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+export function loadLocalTombstones(): PresetTombstone[] {
+  if (typeof window === "undefined") return []
+  try {
+    const raw = localStorage.getItem(DELETED_STORAGE_KEY)
+    return raw ? sanitizeTombstones(JSON.parse(raw)) : []
+  } catch (error) {
+    logWarn("[PRESETS] Failed to read deleted presets", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return []
+  }
+}
+
+export function saveLocalTombstones(tombstones: PresetTombstone[]) {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(DELETED_STORAGE_KEY, JSON.stringify(tombstones))
+  } catch (error) {
+    logWarn("[PRESETS] Failed to save deleted presets", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Combine two preset lists by id; the more recently updated copy wins. Presets deleted after their
+ * last update are left out.
+ */
+export function mergePresets(a: OptionPreset[], b: OptionPreset[], deleted: PresetTombstone[] = []): OptionPreset[] {
+  const deletedAt = new Map(deleted.map((tombstone) => [tombstone.id, tombstone.deletedAt]))
+  const byId = new Map<string, OptionPreset>()
+  for (const preset of [...a, ...b]) {
+    if ((deletedAt.get(preset.id) ?? -Infinity) >= preset.updatedAt) continue
+    const existing = byId.get(preset.id)
+    if (!existing || preset.updatedAt > existing.updatedAt) {
+      byId.set(preset.id, preset)
+    }
+  }
+  return Array.from(byId.values()).sort((x, y) => x.name.localeCompare(y.name))
+}
+
+/**
+ * Combine two tombstone lists by id, keeping the latest deletion
+ */
+export function mergeTombstones(a: PresetTombstone[], b: PresetTombstone[]): PresetTombstone[] {
+  const byId = new Map<string, PresetTombstone>()
+  for (const tombstone of [...a, ...b]) {
+    const existing = byId.get(tombstone.id)
+    if (!existing || tombstone.deletedAt > existing.deletedAt) {
+      byId.set(tombstone.id, tombstone)
+    }
+  }
+  return Array.from(byId.values())
+}
+
+export function serializePresetExport(presets: OptionPreset[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2)
+}
+
+/**
+ * Parse an exported preset file.
+ *
+ * @param text - File content
+ * @returns The presets it contains
+ * @throws {PresetImportError} If the content isn't JSON or doesn't match the export schema
+ */
+export function parsePresetExport(text: string): OptionPreset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new PresetImportError("File is not valid JSON")
+  }
+
+  const result = presetExportSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : ""
+    throw new PresetImportError(`Not a valid preset file${path}: ${issue.message}`)
+  }
+
+  return result.data.presets
+}
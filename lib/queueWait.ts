@@ -0,0 +1,105 @@
+// How long a queued job will wait for a worker, from its place in the queue and how long recent conversions
+// took. Durations of finished jobs are kept in localStorage, so the estimate gets better across visits.
+
+import { logWarn } from "./logger"
+
+const HISTORY_KEY = "conversion_durations"
+const MAX_HISTORY = 50
+// Input sizes within this factor of each other count as similar
+const SIMILAR_SIZE_FACTOR = 2
+// With fewer similar jobs than this, the estimate widens to the whole profile, then to every job
+const MIN_SAMPLES = 3
+// Width of the range, in standard deviations (about 80% of outcomes)
+const RANGE_Z = 1.28
+
+interface ConversionDuration {
+  jobId: string
+  deviceProfile: string
+  inputSize: number
+  durationSec: number
+  completedAt: number
+}
+
+export interface QueueWaitEstimate {
+  seconds: number
+  // Likely range around `seconds`
+  low: number
+  high: number
+  // Finished jobs the estimate is based on
+  samples: number
+}
+
+// Estimates are read several times a second while jobs are queued, so the history is parsed once
+let history: ConversionDuration[] | null = null
+
+function readHistory(): ConversionDuration[] {
+  if (history) return history
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || "[]")
+    history = Array.isArray(saved) ? saved : []
+  } catch {
+    history = []
+  }
+  return history
+}
+
+/**
+ * Remember how long a finished job took to convert. Recording the same job twice is a no-op.
+ */
+export function recordConversionDuration(entry: Omit<ConversionDuration, "completedAt">): void {
+  if (!(entry.durationSec > 0) || !(entry.inputSize > 0)) return
+
+  const previous = readHistory()
+  if (previous.some((item) => item.jobId === entry.jobId)) return
+  history = [...previous, { ...entry, completedAt: Date.now() }].slice(-MAX_HISTORY)
+
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+  } catch (error) {
+    logWarn("[QUEUE WAIT] Could not save conversion duration", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+// Durations to average for a job like this one: recent jobs for the same profile and a similar size, or
+// failing that, a wider set scaled to this file's size
+function comparableDurations(deviceProfile: string | undefined, fileSize: number): number[] {
+  const all = readHistory()
+  const sameProfile = all.filter((item) => item.deviceProfile === deviceProfile)
+  const similar = sameProfile.filter(
+    (item) => item.inputSize * SIMILAR_SIZE_FACTOR >= fileSize && item.inputSize <= fileSize * SIMILAR_SIZE_FACTOR,
+  )
+  if (similar.length >= MIN_SAMPLES) return similar.map((item) => item.durationSec)
+
+  const wider = sameProfile.length >= MIN_SAMPLES ? sameProfile : all
+  return wider.map((item) => item.durationSec * (fileSize / item.inputSize))
+}
+
+/**
+ * Estimated wait for a job at `queuePosition` (1 = next in line), or null with no history to go on.
+ * Assumes one job converts at a time: the job waits for everything ahead of it, plus on average half of
+ * the job being converted now.
+ */
+export function estimateQueueWait(
+  queuePosition: number,
+  deviceProfile: string | undefined,
+  fileSize: number,
+): QueueWaitEstimate | null {
+  if (queuePosition <= 0) return { seconds: 0, low: 0, high: 0, samples: 0 }
+
+  const durations = comparableDurations(deviceProfile, fileSize)
+  if (durations.length === 0) return null
+
+  const mean = durations.reduce((sum, value) => sum + value, 0) / durations.length
+  const deviation =
+    durations.length > 1
+      ? Math.sqrt(durations.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (durations.length - 1))
+      : mean / 2
+
+  // Jobs ahead vary independently, so the spread grows with the square root of their number
+  const jobs = queuePosition - 0.5
+  const seconds = jobs * mean
+  const spread = RANGE_Z * deviation * Math.sqrt(jobs)
+  return { seconds, low: Math.max(0, seconds - spread), high: seconds + spread, samples: durations.length }
+}
@@ -0,0 +1,538 @@
+import { io, type Socket } from "socket.io-client"
+import { log, logError, logWarn, logDebug } from "./logger"
+import type { FailureCategory } from "./jobFailure"
+import { isJobState, isTerminalJobState, nextJobState, type JobState } from "./jobState"
+
+export interface QueueJob {
+  job_id: string
+  filename: string // input filename
+  output_filename?: string // output filename (only present for COMPLETE jobs)
+  status: JobState
+  device_profile: string
+  file_size: number
+  output_file_size?: number // output file size (only present for COMPLETE jobs)
+  is_dismissed?: boolean // whether a COMPLETE job has been dismissed
+  dismissed_at?: string // ISO timestamp if dismissed
+  completed_at?: string // ISO timestamp when job completed
+  worker_download_speed_mbps?: number // Worker download speed in Mbps (only present for QUEUED jobs)
+  error?: string // why the job failed (only present for ERRORED jobs)
+  upload_progress?: {
+    completed_parts: number
+    total_parts: number
+    uploaded_bytes: number
+    total_bytes: number
+    percentage: number
+  }
+  processing_progress?: {
+    elapsed_seconds: number
+    remaining_seconds: number
+    projected_eta: number
+    progress_percent: number
+  }
+  queue_position?: number
+}
+
+export interface QueueStatus {
+  jobs: QueueJob[]
+  total: number
+  timestamp: string
+}
+
+export interface JobStatus {
+  job_id: string
+  status: JobState
+  upload_progress_bytes?: number
+  upload_progress_formatted?: string
+  progress_percent?: number
+  projected_eta?: number
+  elapsed_seconds?: number
+  remaining_seconds?: number
+  download_url?: string
+  output_filename?: string
+  input_filename?: string
+  output_file_size?: number
+  output_file_size_formatted?: string
+  input_file_size?: number
+  input_file_size_formatted?: string
+  actual_duration?: number
+  error?: string
+  failure_category?: FailureCategory
+}
+
+// Events the backend pushes to us
+export interface ServerToClientEvents {
+  connected: (data: { message: string }) => void
+  session_update: (data: QueueStatus) => void
+  job_status: (data: JobStatus) => void
+  error: (data: { message?: string } | string) => void
+}
+
+// Events we send to the backend
+export interface ClientToServerEvents {
+  subscribe_session: (data: { session_key: string }) => void
+  request_session_status: (data: { session_key: string }) => void
+  subscribe_job: (data: { job_id: string }) => void
+  unsubscribe_job: (data: { job_id: string }) => void
+  upload_progress: (data: { job_id: string; bytes_uploaded: number }) => void
+}
+
+export type RealtimeStatus = "idle" | "connecting" | "connected" | "reconnecting" | "disconnected"
+
+// Socket.IO when possible; an event stream through our own API routes, then plain polling, when it's blocked
+export type RealtimeTransport = "websocket" | "sse" | "polling"
+
+export interface ConnectionState {
+  status: RealtimeStatus
+  transport: RealtimeTransport
+  // Reconnect attempts since the last successful connection
+  attempt: number
+  // Delay before the next attempt, following the same backoff as the socket manager
+  retryDelayMs?: number
+  lastError?: string
+  disconnectReason?: string
+  connectedAt?: number
+}
+
+type Listener<T> = (value: T) => void
+
+const RECONNECT_DELAY_MS = 1000
+const RECONNECT_DELAY_MAX_MS = 5000
+const CONNECT_TIMEOUT_MS = 10000
+// The backend can report a job as missing right after creation; subscribe again after this delay
+const JOB_NOT_FOUND_RETRY_MS = 1500
+// Failed socket connections in a row before switching to the event stream
+const SOCKET_FAILURES_BEFORE_FALLBACK = 3
+// Event streams ending without delivering anything before switching to interval polling
+const SSE_FAILURES_BEFORE_POLLING = 2
+export const FALLBACK_POLL_INTERVAL_MS = 5000
+
+/**
+ * One authenticated Socket.IO connection per tab, shared by everything that needs live job state.
+ *
+ * Session updates and job statuses are cached so late subscribers get the latest known state
+ * straight away, and subscriptions are restored and replayed after every reconnect.
+ *
+ * When the socket can't connect (e.g. proxies that strip WebSocket upgrades) updates come from
+ * /api/queue-status/stream instead, then from polling /api/queue-status, while the socket keeps
+ * retrying in the background and takes over again once it connects.
+ */
+export class RealtimeClient {
+  private readonly apiUrl: string
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null
+  private sessionKey: string | null = null
+  private state: ConnectionState = { status: "idle", attempt: 0, transport: "websocket" }
+  private lastSessionStatus: QueueStatus | null = null
+  private readonly lastJobStatuses = new Map<string, JobStatus>()
+  // Ref counts so one component unsubscribing doesn't cut off another watching the same job
+  private readonly jobListeners = new Map<string, Set<Listener<JobStatus>>>()
+  private readonly sessionListeners = new Set<Listener<QueueStatus>>()
+  private readonly stateListeners = new Set<Listener<ConnectionState>>()
+  private socketFailures = 0
+  private sseFailures = 0
+  private streamAbort: AbortController | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private pollInFlight = false
+
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl
+  }
+
+  getState(): ConnectionState {
+    return this.state
+  }
+
+  getSessionStatus(): QueueStatus | null {
+    return this.lastSessionStatus
+  }
+
+  /**
+   * Connect with the given session key; reconnects if the key changed
+   */
+  connect(sessionKey: string): void {
+    if (this.socket && this.sessionKey === sessionKey) return
+    this.disconnect()
+
+    this.sessionKey = sessionKey
+    this.setState({ status: "connecting", attempt: 0, transport: "websocket" })
+    log(`[REALTIME] Connecting to ${this.apiUrl}`)
+
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(this.apiUrl, {
+      transports: ["websocket", "polling"], // Try WebSocket first, fall back to polling
+      reconnection: true,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+      reconnectionAttempts: Infinity,
+      timeout: CONNECT_TIMEOUT_MS,
+      auth: { session_key: sessionKey },
+    })
+    this.socket = socket
+
+    socket.on("connect", () => {
+      log(`[REALTIME] Connected with socket ID: ${socket.id}`)
+      this.stopFallback()
+      this.socketFailures = 0
+      this.sseFailures = 0
+      this.setState({ status: "connected", attempt: 0, transport: "websocket", connectedAt: Date.now() })
+      this.restoreSubscriptions()
+    })
+
+    socket.on("disconnect", (reason) => {
+      logWarn(`[REALTIME] Disconnected: ${reason}`)
+      // A server-side disconnect isn't retried automatically by Socket.IO
+      if (reason === "io server disconnect") socket.connect()
+      this.setState({
+        ...this.state,
+        status: reason === "io client disconnect" ? "disconnected" : "reconnecting",
+        disconnectReason: reason,
+      })
+    })
+
+    socket.on("connect_error", (error) => {
+      logError(`[REALTIME] Connection error: ${error.message}`)
+      this.socketFailures++
+      this.setState({ ...this.state, lastError: error.message })
+      if (this.state.transport === "websocket" && this.socketFailures >= SOCKET_FAILURES_BEFORE_FALLBACK) {
+        this.startEventStream()
+      }
+    })
+
+    socket.io.on("reconnect_attempt", (attempt) => {
+      const retryDelayMs = Math.min(RECONNECT_DELAY_MS * 2 ** (attempt - 1), RECONNECT_DELAY_MAX_MS)
+      logDebug(`[REALTIME] Reconnection attempt ${attempt}`)
+      // While a fallback is delivering updates, the socket retrying in the background doesn't change the status
+      const status = this.state.transport === "websocket" ? "reconnecting" : this.state.status
+      this.setState({ ...this.state, status, attempt, retryDelayMs })
+    })
+
+    socket.on("connected", (data) => {
+      logDebug("[REALTIME] Server acknowledged connection:", data.message)
+    })
+
+    socket.on("session_update", (data) => {
+      logDebug(`[REALTIME] Session update: ${data.jobs?.length || 0} jobs`)
+      this.handleSessionUpdate(data)
+    })
+
+    socket.on("job_status", (data) => {
+      logDebug(`[REALTIME] Job status for ${data.job_id}: ${data.status}`)
+      this.handleJobStatus(data)
+    })
+
+    socket.on("error", (error) => {
+      const message = typeof error === "string" ? error : error?.message
+      logError("[REALTIME] Server error:", message)
+      if (message) this.setState({ ...this.state, lastError: message })
+
+      if (message?.toLowerCase().includes("job") && message.toLowerCase().includes("not found")) {
+        setTimeout(() => {
+          this.jobListeners.forEach((_, jobId) => this.emit("subscribe_job", { job_id: jobId }))
+        }, JOB_NOT_FOUND_RETRY_MS)
+      }
+    })
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline)
+    }
+  }
+
+  disconnect(): void {
+    if (!this.socket) return
+    log("[REALTIME] Closing connection")
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline)
+    }
+    this.stopFallback()
+    this.socketFailures = 0
+    this.sseFailures = 0
+    this.socket.removeAllListeners()
+    this.socket.io.removeAllListeners()
+    this.socket.disconnect()
+    this.socket = null
+    this.sessionKey = null
+    this.lastSessionStatus = null
+    this.lastJobStatuses.clear()
+    this.setState({ status: "idle", attempt: 0, transport: "websocket" })
+  }
+
+  /**
+   * Listen for session-wide queue updates. The latest known update is delivered immediately.
+   * @returns Function that removes the listener
+   */
+  onSessionUpdate(listener: Listener<QueueStatus>): () => void {
+    this.sessionListeners.add(listener)
+    if (this.lastSessionStatus) listener(this.lastSessionStatus)
+    return () => {
+      this.sessionListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Listen for connection state changes. The current state is delivered immediately.
+   * @returns Function that removes the listener
+   */
+  onStateChange(listener: Listener<ConnectionState>): () => void {
+    this.stateListeners.add(listener)
+    listener(this.state)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to status updates for one job. The backend subscription is shared between
+   * listeners and only dropped when the last one unsubscribes.
+   * @returns Function that removes the listener
+   */
+  subscribeToJob(jobId: string, listener: Listener<JobStatus>): () => void {
+    let listeners = this.jobListeners.get(jobId)
+    if (!listeners) {
+      listeners = new Set()
+      this.jobListeners.set(jobId, listeners)
+      log(`[REALTIME] Subscribing to job ${jobId}`)
+      this.emit("subscribe_job", { job_id: jobId })
+    }
+    listeners.add(listener)
+
+    const latest = this.lastJobStatuses.get(jobId)
+    if (latest) listener(latest)
+
+    return () => this.removeJobListener(jobId, listener)
+  }
+
+  /**
+   * Drop every listener for a job, e.g. once it has been dismissed or cancelled
+   */
+  unsubscribeFromJob(jobId: string): void {
+    if (!this.jobListeners.delete(jobId)) return
+    this.lastJobStatuses.delete(jobId)
+    log(`[REALTIME] Unsubscribing from job ${jobId}`)
+    this.emit("unsubscribe_job", { job_id: jobId })
+  }
+
+  /**
+   * Ask the backend to push the current session status now
+   */
+  requestSessionStatus(): void {
+    if (this.sessionKey) this.emit("request_session_status", { session_key: this.sessionKey })
+  }
+
+  sendUploadProgress(jobId: string, bytesUploaded: number): void {
+    // Upload progress is best effort; skip silently while disconnected
+    this.emit("upload_progress", { job_id: jobId, bytes_uploaded: bytesUploaded })
+  }
+
+  private handleSessionUpdate(data: QueueStatus): void {
+    // A snapshot can be older than what we've already seen for some jobs (the socket, event stream and
+    // polls race each other); those jobs keep their newer entry
+    const previous = new Map(this.lastSessionStatus?.jobs.map((job) => [job.job_id, job]))
+    const jobs = data.jobs.map((job) => {
+      const known = previous.get(job.job_id)
+      if (!known || nextJobState(known.status, job.status) === job.status) return job
+      logDebug(`[REALTIME] Ignoring stale ${job.status} for job ${job.job_id}, already ${known.status}`)
+      return known
+    })
+    const update = { ...data, jobs }
+    this.lastSessionStatus = update
+    this.sessionListeners.forEach((listener) => listener(update))
+  }
+
+  private handleJobStatus(data: JobStatus): void {
+    const listeners = this.jobListeners.get(data.job_id)
+    if (!listeners) return
+    const known = this.lastJobStatuses.get(data.job_id)?.status
+    if (known && nextJobState(known, data.status) !== data.status) {
+      logDebug(`[REALTIME] Ignoring out-of-order ${data.status} for job ${data.job_id}, already ${known}`)
+      return
+    }
+    this.lastJobStatuses.set(data.job_id, data)
+    listeners.forEach((listener) => listener(data))
+  }
+
+  private startEventStream(): void {
+    this.stopFallback()
+    const controller = new AbortController()
+    this.streamAbort = controller
+    logWarn("[REALTIME] WebSocket unavailable, falling back to Server-Sent Events")
+    this.setState({ ...this.state, status: "connecting", transport: "sse" })
+    // The stream only carries session snapshots; subscribed jobs are polled alongside it
+    this.startPollTimer()
+
+    this.readEventStream(controller.signal)
+      .catch((error) => {
+        if (!controller.signal.aborted) logError("[REALTIME] Event stream failed:", error)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        this.sseFailures++
+        if (this.sseFailures >= SSE_FAILURES_BEFORE_POLLING) {
+          this.startPolling()
+        } else {
+          setTimeout(() => {
+            if (this.streamAbort === controller) this.startEventStream()
+          }, FALLBACK_POLL_INTERVAL_MS)
+        }
+      })
+  }
+
+  // fetch() rather than EventSource so the session key travels in a header, not the URL
+  private async readEventStream(signal: AbortSignal): Promise<void> {
+    if (!this.sessionKey) return
+    const response = await fetch("/api/queue-status/stream", {
+      headers: { Accept: "text/event-stream", "X-Session-Key": this.sessionKey },
+      cache: "no-store",
+      signal,
+    })
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream unavailable (HTTP ${response.status})`)
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ""
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      buffer += value
+
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        this.handleStreamEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+  }
+
+  private handleStreamEvent(block: string): void {
+    let event = "message"
+    const data: string[] = []
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim()
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+    }
+    if (data.length === 0) return
+
+    if (event === "session_update") {
+      this.sseFailures = 0
+      if (this.state.status !== "connected") {
+        this.setState({ ...this.state, status: "connected", connectedAt: Date.now() })
+      }
+      this.handleSessionUpdate(JSON.parse(data.join("\n")))
+    } else if (event === "error") {
+      const message = JSON.parse(data.join("\n"))?.message
+      logError("[REALTIME] Event stream error:", message)
+      this.setState({ ...this.state, lastError: message })
+    }
+  }
+
+  private startPolling(): void {
+    this.stopFallback()
+    logWarn("[REALTIME] Event stream unavailable, falling back to interval polling")
+    this.setState({ ...this.state, status: "connecting", transport: "polling" })
+    this.startPollTimer()
+  }
+
+  private startPollTimer(): void {
+    this.pollTimer = setInterval(() => this.poll(), FALLBACK_POLL_INTERVAL_MS)
+    this.poll()
+  }
+
+  private stopFallback(): void {
+    this.streamAbort?.abort()
+    this.streamAbort = null
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    this.pollTimer = null
+  }
+
+  private async poll(): Promise<void> {
+    const sessionKey = this.sessionKey
+    if (!sessionKey || this.pollInFlight) return
+    this.pollInFlight = true
+    const headers = { "X-Session-Key": sessionKey }
+
+    try {
+      if (this.state.transport === "polling") {
+        const response = await fetch("/api/queue-status", { headers, cache: "no-store" })
+        if (!response.ok) throw new Error(`Queue status unavailable (HTTP ${response.status})`)
+        const data: QueueStatus = await response.json()
+        if (this.state.transport !== "polling") return
+        if (this.state.status !== "connected") {
+          this.setState({ ...this.state, status: "connected", connectedAt: Date.now() })
+        }
+        this.handleSessionUpdate(data)
+      }
+
+      // Finished jobs don't change any more, so only unfinished ones are polled
+      const jobIds = Array.from(this.jobListeners.keys()).filter(
+        (jobId) => !isTerminalJobState(this.lastJobStatuses.get(jobId)?.status),
+      )
+      await Promise.all(jobIds.map((jobId) => this.pollJobStatus(jobId, headers)))
+    } catch (error) {
+      logError("[REALTIME] Polling failed:", error)
+      // Job polls failing next to a working event stream don't make the connection unhealthy
+      if (this.state.transport === "polling") {
+        this.setState({
+          ...this.state,
+          status: "reconnecting",
+          lastError: error instanceof Error ? error.message : String(error),
+        })
+      }
+    } finally {
+      this.pollInFlight = false
+    }
+  }
+
+  private async pollJobStatus(jobId: string, headers: Record<string, string>): Promise<void> {
+    const response = await fetch(`/api/job-status/${jobId}`, { headers, cache: "no-store" })
+    if (!response.ok) return
+    const data = await response.json()
+    if (!isJobState(data.status) || this.state.transport === "websocket") return
+
+    // Same fields as the socket's job_status event, from /api/job-status's response shape
+    this.handleJobStatus({
+      job_id: jobId,
+      status: data.status,
+      output_filename: data.filename,
+      input_filename: data.input_filename,
+      input_file_size: data.input_file_size,
+      output_file_size: data.output_file_size,
+      progress_percent: data.progress_percent,
+      projected_eta: data.projected_eta,
+      remaining_seconds: data.remaining_seconds,
+      error: data.error,
+      failure_category: data.failure_category,
+    })
+  }
+
+  private removeJobListener(jobId: string, listener: Listener<JobStatus>): void {
+    const listeners = this.jobListeners.get(jobId)
+    if (!listeners) return
+    listeners.delete(listener)
+    if (listeners.size === 0) this.unsubscribeFromJob(jobId)
+  }
+
+  // After (re)connecting the server has no subscriptions for this socket, and may have missed
+  // updates while we were away: subscribe again and ask for a fresh snapshot
+  private restoreSubscriptions(): void {
+    if (!this.sessionKey) return
+    this.emit("subscribe_session", { session_key: this.sessionKey })
+    this.jobListeners.forEach((_, jobId) => this.emit("subscribe_job", { job_id: jobId }))
+    this.requestSessionStatus()
+  }
+
+  private emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>): void {
+    if (!this.socket?.connected) return
+    this.socket.emit(event, ...args)
+  }
+
+  private handleOnline = () => {
+    if (this.socket && !this.socket.connected) {
+      log("[REALTIME] Network connection restored, reconnecting...")
+      this.socket.connect()
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    this.state = state
+    this.stateListeners.forEach((listener) => listener(state))
+  }
+}
@@ -1,5 +1,6 @@
+import { claimSession, getOrCreateUserSession, registerAnonymousSession, type SessionResponse } from "./apiClient"
+
 const LICENSE_KEY = "mangaconverter_session_key"
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5500"
 
 /**
  * Get session key from localStorage
@@ -41,17 +42,9 @@ export async function getOrCreateAnonymousSession(force = false): Promise<string
 
   // Create new anonymous session via backend
   try {
-    const response = await fetch(`${API_BASE_URL}/register`, {
-      method: "GET",
-    })
-
-    const data = await response.json()
-    if (data.success && data.session_key) {
-      setSessionKey(data.session_key)
-      return data.session_key
-    }
-
-    throw new Error(data.error || "Failed to create session")
+    const data = await registerAnonymousSession()
+    setSessionKey(data.session_key)
+    return data.session_key
   } catch (error) {
     console.error("Error creating anonymous session:", error)
     throw error
@@ -68,41 +61,24 @@ export async function claimLicense(
   email?: string,
   firstName?: string,
   lastName?: string
-): Promise<{ success: boolean; session_key: string; jobs_merged?: number }> {
+): Promise<SessionResponse> {
   console.log('[claimLicense] Calling claim-session endpoint', {
-    url: `${API_BASE_URL}/api/auth/claim-session`,
     hasToken: !!clerkToken,
     anonymousLicenseKey: anonymousLicenseKey.substring(0, 8) + '...',
     email
   })
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/auth/claim-session`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${clerkToken}`,
-      },
-      body: JSON.stringify({
-        session_key: anonymousLicenseKey,
-        email,
-        first_name: firstName,
-        last_name: lastName,
-      }),
+    const data = await claimSession(clerkToken, anonymousLicenseKey, {
+      email,
+      first_name: firstName,
+      last_name: lastName,
     })
 
-    console.log('[claimLicense] Response status:', response.status)
-    const data = await response.json()
-    console.log('[claimLicense] Response data:', data)
-
-    if (data.success) {
-      // Update localStorage with the claimed session (might be same or merged)
-      setSessionKey(data.session_key)
-      console.log("[claimLicense] Session claimed successfully:", data)
-      return data
-    }
-
-    throw new Error(data.error || "Failed to claim session")
+    // Update localStorage with the claimed session (might be same or merged)
+    setSessionKey(data.session_key)
+    console.log("[claimLicense] Session claimed successfully:", data)
+    return data
   } catch (error) {
     console.error("[claimLicense] Error claiming session:", error)
     throw error
@@ -120,36 +96,20 @@ export async function getOrCreateUserLicense(
   lastName?: string
 ): Promise<string> {
   console.log('[getOrCreateUserLicense] Calling get-or-create-session endpoint', {
-    url: `${API_BASE_URL}/api/auth/get-or-create-session`,
     hasToken: !!clerkToken,
     email
   })
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/auth/get-or-create-session`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${clerkToken}`,
-      },
-      body: JSON.stringify({
-        email,
-        first_name: firstName,
-        last_name: lastName,
-      }),
+    const data = await getOrCreateUserSession(clerkToken, {
+      email,
+      first_name: firstName,
+      last_name: lastName,
     })
 
-    console.log('[getOrCreateUserLicense] Response status:', response.status)
-    const data = await response.json()
-    console.log('[getOrCreateUserLicense] Response data:', data)
-
-    if (data.success && data.session_key) {
-      setSessionKey(data.session_key)
-      console.log('[getOrCreateUserLicense] Session created/retrieved successfully')
-      return data.session_key
-    }
-
-    throw new Error(data.error || "Failed to get or create session")
+    setSessionKey(data.session_key)
+    console.log('[getOrCreateUserLicense] Session created/retrieved successfully')
+    return data.session_key
   } catch (error) {
     console.error("[getOrCreateUserLicense] Error getting/creating user session:", error)
     throw error
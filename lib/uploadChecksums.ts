@@ -0,0 +1,73 @@
+// Checksums for multipart uploads. Each part is sent with its Content-MD5, which storage checks before
+// accepting it, and reported to the backend with the part; finalize gets the checksum of the whole upload.
+
+import { logWarn } from "./logger"
+import { Md5 } from "./md5"
+
+interface PendingChecksum {
+  resolve: (md5: string | null) => void
+}
+
+type ChecksumWorkerMessage = { id: number; type: "done"; md5: string } | { id: number; type: "error"; error: string }
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingChecksums = new Map<number, PendingChecksum>()
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./uploadChecksums.worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<ChecksumWorkerMessage>) => {
+      const message = event.data
+      const pending = pendingChecksums.get(message.id)
+      if (!pending) return
+
+      pendingChecksums.delete(message.id)
+      if (message.type === "done") {
+        pending.resolve(message.md5)
+      } else {
+        logWarn("[CHECKSUM] Part checksum failed", { error: message.error })
+        pending.resolve(null)
+      }
+    }
+
+    worker.onerror = (event) => {
+      logWarn("[CHECKSUM] Checksum worker crashed", { error: event.message })
+      for (const pending of pendingChecksums.values()) pending.resolve(null)
+      pendingChecksums.clear()
+      worker?.terminate()
+      worker = null
+    }
+  }
+
+  return worker
+}
+
+/**
+ * Base64 MD5 of an upload part (the Content-MD5 header value), computed off the main thread.
+ * Resolves to null if it can't be computed; the part is then uploaded without one.
+ */
+export function partChecksum(blob: Blob): Promise<string | null> {
+  if (typeof Worker === "undefined") return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const id = nextRequestId++
+    pendingChecksums.set(id, { resolve })
+    getWorker().postMessage({ id, blob })
+  })
+}
+
+/**
+ * Checksum of a whole multipart upload from its part checksums, in part order: the hex MD5 of the parts'
+ * binary MD5s followed by "-" and the part count. This is the ETag storage gives the completed object,
+ * so the backend can compare the two without reading the file back.
+ */
+export function multipartChecksum(partChecksums: string[]): string {
+  const hash = new Md5()
+  for (const checksum of partChecksums) {
+    hash.update(Uint8Array.from(atob(checksum), (char) => char.charCodeAt(0)))
+  }
+  const hex = Array.from(hash.digest(), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return `${hex}-${partChecksums.length}`
+}
@@ -0,0 +1,26 @@
+import { Md5 } from "./md5"
+
+// Chunk size for reading the part; a whole 50 MB part is never held in memory twice
+const CHUNK_SIZE = 4 * 1024 * 1024
+
+interface ChecksumRequest {
+  id: number
+  blob: Blob
+}
+
+const ctx = self as unknown as Worker
+
+ctx.onmessage = async (event: MessageEvent<ChecksumRequest>) => {
+  const { id, blob } = event.data
+
+  try {
+    const hash = new Md5()
+    for (let offset = 0; offset < blob.size; offset += CHUNK_SIZE) {
+      hash.update(new Uint8Array(await blob.slice(offset, offset + CHUNK_SIZE).arrayBuffer()))
+    }
+
+    ctx.postMessage({ id, type: "done", md5: btoa(String.fromCharCode(...hash.digest())) })
+  } catch (error) {
+    ctx.postMessage({ id, type: "error", error: error instanceof Error ? error.message : String(error) })
+  }
+}
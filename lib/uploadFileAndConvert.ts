@@ -1,6 +1,10 @@
 import { ensureSessionKey } from "@/lib/utils" // you already have this
+import { ApiError, createJob as createJobRequest, getJobStatus, isApiError } from "./apiClient"
 import { log, logError, logWarn } from "./logger"
 import { MultipartUploadClient } from "./MultipartUploadClient"
+import { saveUploadSpeed } from "./netSpeed"
+import { uploadScheduler } from "./uploadScheduler"
+import { clearUploadState, computeFileFingerprint, loadUploadState, type MultipartUploadState } from "./uploadStateStore"
 
 // Track active jobs to prevent duplicates
 const activeJobs = new Set<string>()
@@ -8,6 +12,16 @@ const activeJobs = new Set<string>()
 // Track active uploads for cancellation (jobId -> {fileKey, client})
 const activeUploads = new Map<string, { fileKey: string; client: MultipartUploadClient }>()
 
+// Latest measured throughput per active upload (jobId -> bytes/sec); together they're the connection's speed
+const uploadThroughputs = new Map<string, number>()
+
+function recordUploadThroughput(jobId: string, bytesPerSecond: number) {
+  uploadThroughputs.set(jobId, bytesPerSecond)
+  let total = 0
+  for (const bps of uploadThroughputs.values()) total += bps
+  saveUploadSpeed(total)
+}
+
 // Export function to abort an active upload
 export function abortUpload(jobId: string): boolean {
   const uploadInfo = activeUploads.get(jobId)
@@ -26,6 +40,54 @@ export function abortUpload(jobId: string): boolean {
   return false
 }
 
+// Look up a saved multipart upload for this file whose job is still waiting for its upload
+async function findResumableUpload(
+  file: File,
+  sessionKey: string,
+): Promise<{ fingerprint: string | null; savedState: MultipartUploadState | null }> {
+  let fingerprint: string | null = null
+  try {
+    fingerprint = await computeFileFingerprint(file)
+  } catch (error) {
+    logWarn("[UPLOAD] Could not fingerprint file, upload will not be resumable", {
+      filename: file.name,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return { fingerprint: null, savedState: null }
+  }
+
+  const savedState = await loadUploadState(fingerprint)
+  if (!savedState) {
+    return { fingerprint, savedState: null }
+  }
+
+  try {
+    const statusData = await getJobStatus(sessionKey, savedState.jobId).catch((error) => {
+      if (isApiError(error) && error.status !== undefined) return null
+      throw error
+    })
+    if (statusData?.status === "UPLOADING") {
+      log("[UPLOAD] Found resumable upload for file", savedState.jobId, {
+        filename: file.name,
+        completed_parts: savedState.completedParts.length,
+      })
+      return { fingerprint, savedState }
+    }
+
+    log("[UPLOAD] Saved upload's job is no longer uploading, starting a new job", savedState.jobId, {
+      status: statusData?.status,
+    })
+  } catch (error) {
+    logWarn("[UPLOAD] Could not check saved upload's job, starting a new job", {
+      job_id: savedState.jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  await clearUploadState(fingerprint)
+  return { fingerprint, savedState: null }
+}
+
 // Multipart upload function (now used for ALL files)
 async function uploadFileViaMultipart(
   file: File,
@@ -34,6 +96,8 @@ async function uploadFileViaMultipart(
   fileKey: string,
   onProgress: (progress: number, fullProgressData?: any) => void,
   sendUploadProgress?: (jobId: string, bytesUploaded: number) => void,
+  fingerprint?: string | null,
+  savedState?: MultipartUploadState | null,
 ): Promise<void> {
   // Dynamic part sizing: use measured client upload speed (if available) and
   // current global upload load to choose part size and per-file concurrency
@@ -71,7 +135,11 @@ async function uploadFileViaMultipart(
   // If file is very small, just single part
   let partSize: number
   let numParts: number
-  if (file.size <= MIN_PART_SIZE) {
+  if (savedState) {
+    // A resumed upload has to keep the part size it was started with
+    partSize = savedState.partSize
+    numParts = Math.max(1, Math.ceil(file.size / partSize))
+  } else if (file.size <= MIN_PART_SIZE) {
     partSize = file.size
     numParts = 1
   } else {
@@ -101,10 +169,9 @@ async function uploadFileViaMultipart(
   else if (effectiveBps < 5 * 1024 * 1024) maxConcurrent = 5
   else maxConcurrent = 6
 
-  // Share a global concurrency budget across simultaneous uploads
-  const globalMax = Number(process.env.NEXT_PUBLIC_GLOBAL_MAX_CONCURRENT_PARTS || "8")
-  const perUploadShare = Math.max(1, Math.floor(globalMax / concurrentUploads))
-  maxConcurrent = Math.max(1, Math.min(maxConcurrent, perUploadShare))
+  // Only a starting point: the client's tuner adjusts it from measured throughput, and the upload
+  // scheduler decides which upload's parts get the global slots (queue order, pauses, bandwidth cap)
+  maxConcurrent = Math.min(maxConcurrent, uploadScheduler.getMaxParts())
 
   // Derive upload timeout: roughly 3x expected per-part time to account for S3 latency, with bounds
   const expectedPartSeconds = partSize / Math.max(1, effectiveBps * SAFETY)
@@ -117,11 +184,11 @@ async function uploadFileViaMultipart(
 
   const uploadTimeoutMs = envTimeout || Math.min(300_000, Math.max(180_000, calculatedTimeout))
 
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8060"
-  const client = new MultipartUploadClient(apiUrl, sessionKey, {
+  const client = new MultipartUploadClient(sessionKey, {
     partSize: partSize,
     maxConcurrentParts: maxConcurrent,
     uploadTimeoutMs,
+    onThroughput: (bps) => recordUploadThroughput(jobId, bps),
   })
 
   log("[MULTIPART UPLOAD] Load-aware settings", {
@@ -129,7 +196,7 @@ async function uploadFileViaMultipart(
     concurrent_uploads: concurrentUploads,
     effective_bps: effectiveBps,
     per_upload_concurrency: maxConcurrent,
-    global_max_concurrency: Number(process.env.NEXT_PUBLIC_GLOBAL_MAX_CONCURRENT_PARTS || "8"),
+    global_max_concurrency: uploadScheduler.getMaxParts(),
     upload_timeout_ms: uploadTimeoutMs,
     upload_timeout_seconds: Math.round(uploadTimeoutMs / 1000),
     timeout_source: envTimeout ? "env_var" : "calculated",
@@ -142,27 +209,34 @@ async function uploadFileViaMultipart(
   let lastLoggedThreshold = -1
 
   try {
-    await client.uploadFile(file, jobId, (progress) => {
-      // Update local progress with full progress data for ETA calculation
-      onProgress(progress.percentage, progress)
-
-      // Send progress via WebSocket
-      if (sendUploadProgress) {
-        sendUploadProgress(jobId, progress.uploadedBytes)
-      }
+    await client.uploadFile(
+      file,
+      jobId,
+      (progress) => {
+        // Update local progress with full progress data for ETA calculation
+        onProgress(progress.percentage, progress)
+
+        // Send progress via WebSocket
+        if (sendUploadProgress) {
+          sendUploadProgress(jobId, progress.uploadedBytes)
+        }
 
-      // Only log every 10% increment
-      const currentThreshold = Math.floor(progress.percentage / 10)
-      if (currentThreshold !== lastLoggedThreshold) {
-        lastLoggedThreshold = currentThreshold
-        log(`[MULTIPART UPLOAD] Progress update`, {
-          job_id: jobId,
-          completed_parts: progress.completedParts,
-          total_parts: progress.totalParts,
-          percentage: progress.percentage.toFixed(1),
-        })
-      }
-    })
+        // Only log every 10% increment
+        const currentThreshold = Math.floor(progress.percentage / 10)
+        if (currentThreshold !== lastLoggedThreshold) {
+          lastLoggedThreshold = currentThreshold
+          log(`[MULTIPART UPLOAD] Progress update`, {
+            job_id: jobId,
+            completed_parts: progress.completedParts,
+            total_parts: progress.totalParts,
+            percentage: progress.percentage.toFixed(1),
+            concurrency: progress.tuning?.concurrency,
+            throughput_bps: progress.tuning?.throughputBps && Math.round(progress.tuning.throughputBps),
+          })
+        }
+      },
+      { fingerprint, savedState },
+    )
 
     log(`[MULTIPART UPLOAD] Upload completed successfully`, {
       job_id: jobId,
@@ -171,7 +245,7 @@ async function uploadFileViaMultipart(
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     // Only log as error if it's not an expected abort/cancellation
-    if (errorMessage.includes("Upload aborted") || errorMessage.includes("cancelled by user")) {
+    if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
       log(`[MULTIPART UPLOAD] Upload cancelled`, {
         job_id: jobId,
       })
@@ -185,6 +259,7 @@ async function uploadFileViaMultipart(
   } finally {
     // Cleanup
     activeUploads.delete(jobId)
+    uploadThroughputs.delete(jobId)
   }
 }
 
@@ -196,6 +271,8 @@ export async function uploadFileAndConvert(
   onUploadProgress?: (progress: number, fullProgressData?: any) => void,
   onJobCreated?: (jobId: string) => void,
   sendUploadProgress?: (jobId: string, bytesUploaded: number) => void,
+  contentHash?: string,
+  metadata?: Record<string, string | number>,
 ) {
   const startTime = performance.now()
   log(`[TIMING] uploadFileAndConvert started for file: ${file.name} (${file.size} bytes)`)
@@ -229,6 +306,8 @@ export async function uploadFileAndConvert(
       device_profile: deviceProfile,
       advanced_options: advancedOptions,
       file_key: fileKey,
+      content_hash: contentHash,
+      metadata,
       flow_step: "upload_start",
     })
 
@@ -239,97 +318,53 @@ export async function uploadFileAndConvert(
 
     async function createJob(currentLicenseKey: string) {
       const jobCreateStart = performance.now()
+      const body = {
+        filename: file.name,
+        file_size: file.size,
+        device_profile: deviceProfile,
+        advanced_options: advancedOptions,
+        content_hash: contentHash,
+        metadata,
+      }
       log(`[${new Date().toISOString()}] Sending POST request to /api/jobs`)
-      const jobRes = await fetch("/api/jobs", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Session-Key": currentLicenseKey,
-        },
-        body: JSON.stringify({
-          filename: file.name,
-          file_size: file.size,
-          device_profile: deviceProfile,
-          advanced_options: advancedOptions,
-        }),
-      })
 
-      if (!jobRes.ok) {
-        let errorMessage = `Failed to create job (HTTP ${jobRes.status})`
-        try {
-          const errorData = await jobRes.json()
-          if (errorData.error) {
-            errorMessage = errorData.error
-
-            if (
-              (jobRes.status === 401 || jobRes.status === 403) &&
-              (errorData.error.includes("Invalid session key") || errorData.error.includes("Unauthorized"))
-            ) {
-              logWarn("Invalid/unauthorized session key, clearing localStorage and obtaining fresh session", {
-                status: jobRes.status,
-                error: errorData.error,
-              })
-              localStorage.removeItem("mangaconverter_session_key")
-
-              // Obtain fresh session from backend
-              const newLicenseKey = await ensureSessionKey(true)
-              log("Fresh session obtained from backend, retrying job creation", {
-                hasNewLicense: !!newLicenseKey,
-              })
-
-              // Retry the request with new session
-              const retryRes = await fetch("/api/jobs", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  "X-Session-Key": newLicenseKey,
-                },
-                body: JSON.stringify({
-                  filename: file.name,
-                  file_size: file.size,
-                  device_profile: deviceProfile,
-                  advanced_options: advancedOptions,
-                }),
-              })
-
-              if (!retryRes.ok) {
-                const retryError = await retryRes
-                  .json()
-                  .catch(() => ({ error: "Failed to create job after session refresh" }))
-                throw new Error(
-                  retryError.error || `Failed to create job after session refresh (HTTP ${retryRes.status})`,
-                )
-              }
-
-              const retryData = await retryRes.json()
-              log(
-                `[${new Date().toISOString()}] POST /jobs response received after session refresh for job: ${retryData.job_id}`,
-              )
-              log(`[TIMING] Job creation with retry took ${(performance.now() - jobCreateStart).toFixed(2)}ms`)
-
-              // Update the outer sessionKey variable
-              sessionKey = newLicenseKey
-
-              return retryData
-            }
-          }
-        } catch (error) {
-          // If this is our retry error, throw it
-          if (error instanceof Error && error.message.includes("session refresh")) {
-            throw error
-          }
-          // Otherwise, use the default message
-        }
-        throw new Error(errorMessage)
-      }
+      try {
+        const jobData = await createJobRequest(currentLicenseKey, body)
+        log(`[${new Date().toISOString()}] POST /jobs response received for job: ${jobData.job_id}`)
+        log(`[TIMING] Job creation took ${(performance.now() - jobCreateStart).toFixed(2)}ms`)
+        return jobData
+      } catch (error) {
+        if (!isApiError(error, "UNAUTHORIZED")) throw error
+
+        logWarn("Invalid/unauthorized session key, clearing localStorage and obtaining fresh session", {
+          status: error.status,
+          error: error.message,
+        })
+        localStorage.removeItem("mangaconverter_session_key")
+
+        // Obtain fresh session from backend
+        const newLicenseKey = await ensureSessionKey(true)
+        log("Fresh session obtained from backend, retrying job creation", {
+          hasNewLicense: !!newLicenseKey,
+        })
 
-      const jobData = await jobRes.json()
-      log(`[${new Date().toISOString()}] POST /jobs response received for job: ${jobData.job_id}`)
-      log(`[TIMING] Job creation took ${(performance.now() - jobCreateStart).toFixed(2)}ms`)
-      return jobData
+        // Retry the request with new session
+        const retryData = await createJobRequest(newLicenseKey, body)
+        log(
+          `[${new Date().toISOString()}] POST /jobs response received after session refresh for job: ${retryData.job_id}`,
+        )
+        log(`[TIMING] Job creation with retry took ${(performance.now() - jobCreateStart).toFixed(2)}ms`)
+
+        // Update the outer sessionKey variable
+        sessionKey = newLicenseKey
+
+        return retryData
+      }
     }
 
-    const jobData = await createJob(sessionKey)
+    // Reuse the job of an interrupted upload of the same file instead of starting from scratch
+    const { fingerprint, savedState } = await findResumableUpload(file, sessionKey)
+    const jobData = savedState ? { job_id: savedState.jobId } : await createJob(sessionKey)
 
     // Notify that job was created - session updates will track status immediately
     log("Job creation successful, notifying callback", jobData.job_id, {
@@ -364,6 +399,8 @@ export async function uploadFileAndConvert(
           }
         },
         sendUploadProgress,
+        fingerprint,
+        savedState,
       )
 
       const totalTime = performance.now() - startTime
@@ -384,13 +421,13 @@ export async function uploadFileAndConvert(
       const errorMessage = error instanceof Error ? error.message : String(error)
 
       // Check if it was a user cancellation or abort
-      if (errorMessage.includes("cancelled by user") || errorMessage.includes("Upload aborted")) {
+      if (isApiError(error, "ABORTED", "JOB_CANCELLED")) {
         log("Upload cancelled by user", jobData.job_id)
-        throw new Error("Upload cancelled by user")
+        throw new ApiError("ABORTED", "Upload cancelled by user", { cause: error })
       }
 
       // Check if it's an authentication error - reload the page to get a fresh session
-      if (errorMessage.includes("Invalid session key") || errorMessage.includes("Unauthorized")) {
+      if (isApiError(error, "UNAUTHORIZED")) {
         logWarn("Authentication error during upload, reloading page to refresh session", {
           job_id: jobData.job_id,
           error: errorMessage,
@@ -409,7 +446,13 @@ export async function uploadFileAndConvert(
       logError("Multipart upload failed", jobData.job_id, {
         error: errorMessage,
       })
-      throw new Error(`Upload failed: ${errorMessage}`)
+      throw isApiError(error)
+        ? new ApiError(error.code, `Upload failed: ${errorMessage}`, {
+            status: error.status,
+            details: error.details,
+            cause: error,
+          })
+        : new Error(`Upload failed: ${errorMessage}`)
     }
   } finally {
     // Always remove the file from active jobs tracking when done
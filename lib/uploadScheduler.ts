@@ -0,0 +1,234 @@
+// Owns every part upload in the tab. Part slots (NEXT_PUBLIC_GLOBAL_MAX_CONCURRENT_PARTS) go to uploads in
+// queue order, so the file at the top finishes first and the ones below pick up whatever it leaves free;
+// a slot freed by a finished file goes straight to the next one. Files can be paused and resumed, and an
+// optional bandwidth cap keeps uploads from saturating the connection.
+
+import { ApiError } from "./apiClient"
+import { log } from "./logger"
+
+const DEFAULT_MAX_PARTS = 8
+const BANDWIDTH_LIMIT_KEY = "upload_bandwidth_limit_bps"
+// How far the bandwidth cap lets a burst run ahead after a quiet period
+const BANDWIDTH_BURST_SECONDS = 2
+
+export interface UploadSchedulerSnapshot {
+  paused: ReadonlySet<string>
+  // Job IDs with an upload registered, highest priority first
+  uploads: readonly string[]
+  bandwidthLimitBps: number | null
+}
+
+interface Waiter {
+  bytes: number
+  resolve: (release: () => void) => void
+  reject: (error: unknown) => void
+}
+
+interface ScheduledUpload {
+  jobId: string
+  activeParts: number
+  waiters: Waiter[]
+}
+
+export class UploadScheduler {
+  private readonly maxParts: number
+  private readonly uploads = new Map<string, ScheduledUpload>()
+  private readonly paused = new Set<string>()
+  // Queue order from the UI; uploads it doesn't mention follow in the order they started
+  private priority: string[] = []
+  private bandwidthLimitBps: number | null
+  private tokens = 0
+  private lastRefill = 0
+  private refillTimer: ReturnType<typeof setTimeout> | null = null
+  private readonly listeners = new Set<() => void>()
+  private snapshot: UploadSchedulerSnapshot
+
+  constructor(maxParts = DEFAULT_MAX_PARTS) {
+    this.maxParts = Math.max(1, maxParts)
+    this.bandwidthLimitBps = readBandwidthLimit()
+    this.snapshot = this.createSnapshot()
+  }
+
+  /**
+   * Parts allowed in flight across all uploads; also the most any single upload can use
+   */
+  getMaxParts(): number {
+    return this.maxParts
+  }
+
+  register(jobId: string): void {
+    if (this.uploads.has(jobId)) return
+    this.uploads.set(jobId, { jobId, activeParts: 0, waiters: [] })
+    this.changed()
+  }
+
+  /**
+   * Forget an upload (finished, failed or cancelled); parts still waiting for a slot are rejected
+   */
+  unregister(jobId: string): void {
+    const upload = this.uploads.get(jobId)
+    if (!upload) return
+    this.uploads.delete(jobId)
+    this.paused.delete(jobId)
+    upload.waiters.forEach((waiter) => waiter.reject(new ApiError("ABORTED", "Upload aborted")))
+    this.changed()
+    this.dispatch()
+  }
+
+  /**
+   * Wait for a slot to upload a part of `bytes`. Resolves with the function that gives the slot back.
+   */
+  acquire(jobId: string, bytes: number): Promise<() => void> {
+    const upload = this.uploads.get(jobId)
+    if (!upload) return Promise.reject(new ApiError("ABORTED", "Upload aborted"))
+
+    return new Promise((resolve, reject) => {
+      upload.waiters.push({ bytes, resolve, reject })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Stop starting new parts for this upload; parts already in flight finish
+   */
+  pause(jobId: string): void {
+    if (!this.uploads.has(jobId) || this.paused.has(jobId)) return
+    this.paused.add(jobId)
+    log("[UPLOAD SCHEDULER] Upload paused", { job_id: jobId })
+    this.changed()
+    // Its share goes to the uploads below it
+    this.dispatch()
+  }
+
+  resume(jobId: string): void {
+    if (!this.paused.delete(jobId)) return
+    log("[UPLOAD SCHEDULER] Upload resumed", { job_id: jobId })
+    this.changed()
+    this.dispatch()
+  }
+
+  /**
+   * Queue order, highest priority first
+   */
+  setPriority(jobIds: string[]): void {
+    this.priority = jobIds
+    this.changed()
+    this.dispatch()
+  }
+
+  /**
+   * Cap total upload throughput (bytes/sec), or null for no cap. Remembered across visits.
+   */
+  setBandwidthLimit(bytesPerSecond: number | null): void {
+    this.bandwidthLimitBps = bytesPerSecond && bytesPerSecond > 0 ? bytesPerSecond : null
+    this.tokens = 0
+    this.lastRefill = performance.now()
+    try {
+      if (this.bandwidthLimitBps) localStorage.setItem(BANDWIDTH_LIMIT_KEY, String(this.bandwidthLimitBps))
+      else localStorage.removeItem(BANDWIDTH_LIMIT_KEY)
+    } catch {}
+    log("[UPLOAD SCHEDULER] Bandwidth limit changed", { bandwidth_limit_bps: this.bandwidthLimitBps })
+    this.changed()
+    this.dispatch()
+  }
+
+  // Arrow properties so they can be handed to useSyncExternalStore as they are
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getSnapshot = (): UploadSchedulerSnapshot => this.snapshot
+
+  private prioritized(): ScheduledUpload[] {
+    const rank = (jobId: string) => {
+      const index = this.priority.indexOf(jobId)
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index
+    }
+    // Map iteration follows registration order, and sort is stable, so unranked uploads keep it
+    return Array.from(this.uploads.values()).sort((a, b) => rank(a.jobId) - rank(b.jobId))
+  }
+
+  private dispatch(): void {
+    let free = this.maxParts
+    for (const upload of this.uploads.values()) free -= upload.activeParts
+
+    for (const upload of this.prioritized()) {
+      if (this.paused.has(upload.jobId)) continue
+      while (free > 0 && upload.waiters.length > 0) {
+        if (!this.takeBandwidth(upload.waiters[0].bytes)) {
+          this.scheduleRefill()
+          return
+        }
+        const waiter = upload.waiters.shift()!
+        upload.activeParts++
+        free--
+        waiter.resolve(this.releaser(upload))
+      }
+    }
+  }
+
+  private releaser(upload: ScheduledUpload): () => void {
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      upload.activeParts--
+      this.dispatch()
+    }
+  }
+
+  // Token bucket that may go into debt: a part starts as soon as the bucket isn't negative, and the next
+  // one waits until its bytes are paid off. Each part still goes at full speed; the cap holds on average.
+  private takeBandwidth(bytes: number): boolean {
+    if (!this.bandwidthLimitBps) return true
+
+    const now = performance.now()
+    const burst = this.bandwidthLimitBps * BANDWIDTH_BURST_SECONDS
+    this.tokens = Math.min(burst, this.tokens + ((now - this.lastRefill) / 1000) * this.bandwidthLimitBps)
+    this.lastRefill = now
+
+    if (this.tokens < 0) return false
+    this.tokens -= bytes
+    return true
+  }
+
+  private scheduleRefill(): void {
+    if (this.refillTimer || !this.bandwidthLimitBps) return
+    const waitMs = Math.ceil((-this.tokens / this.bandwidthLimitBps) * 1000)
+    this.refillTimer = setTimeout(
+      () => {
+        this.refillTimer = null
+        this.dispatch()
+      },
+      Math.max(50, waitMs),
+    )
+  }
+
+  private createSnapshot(): UploadSchedulerSnapshot {
+    return {
+      paused: new Set(this.paused),
+      uploads: this.prioritized().map((upload) => upload.jobId),
+      bandwidthLimitBps: this.bandwidthLimitBps,
+    }
+  }
+
+  private changed(): void {
+    this.snapshot = this.createSnapshot()
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+function readBandwidthLimit(): number | null {
+  try {
+    const saved = Number(localStorage.getItem(BANDWIDTH_LIMIT_KEY))
+    return saved > 0 ? saved : null
+  } catch {
+    return null
+  }
+}
+
+// One scheduler per tab, shared by every MultipartUploadClient
+export const uploadScheduler = new UploadScheduler(
+  Number(process.env.NEXT_PUBLIC_GLOBAL_MAX_CONCURRENT_PARTS) || DEFAULT_MAX_PARTS,
+)
@@ -0,0 +1,143 @@
+import { log, logWarn } from "./logger"
+
+const DB_NAME = "mangaconverter_uploads"
+const DB_VERSION = 1
+const STORE_NAME = "multipart_uploads"
+
+// Saved uploads older than this are dropped (the backend expires abandoned multipart uploads as well)
+const MAX_STATE_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+// Bytes hashed from the start and end of the file for the fingerprint
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024
+
+interface CompletedPart {
+  partNumber: number
+  etag: string
+  // Base64 MD5 the part was uploaded with, for the whole upload's checksum at finalize
+  checksum?: string
+}
+
+interface MultipartUploadState {
+  fingerprint: string
+  jobId: string
+  uploadId: string
+  partSize: number
+  fileName: string
+  fileSize: number
+  completedParts: CompletedPart[]
+  updatedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "fingerprint" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      // Allow a later call to retry opening the database
+      dbPromise = null
+      throw error
+    })
+  }
+
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/**
+ * Cheap file fingerprint: name, size, mtime and a hash of the first and last MB.
+ * Good enough to recognise the same file being picked again without reading all of it.
+ */
+export async function computeFileFingerprint(file: File): Promise<string> {
+  const head = file.slice(0, FINGERPRINT_SAMPLE_BYTES)
+  const tail = file.size > FINGERPRINT_SAMPLE_BYTES ? file.slice(-FINGERPRINT_SAMPLE_BYTES) : new Blob()
+  const sample = await new Blob([head, tail]).arrayBuffer()
+  const sampleHash = await sha256Hex(sample)
+  return `${file.name}:${file.size}:${file.lastModified}:${sampleHash}`
+}
+
+/**
+ * Load the saved upload state for a fingerprint, dropping it if it has expired
+ */
+export async function loadUploadState(fingerprint: string): Promise<MultipartUploadState | null> {
+  try {
+    const state = await withStore<MultipartUploadState | undefined>("readonly", (store) => store.get(fingerprint))
+    if (!state) return null
+
+    if (Date.now() - state.updatedAt > MAX_STATE_AGE_MS) {
+      log("[UPLOAD STATE] Dropping expired upload state", { job_id: state.jobId })
+      await clearUploadState(fingerprint)
+      return null
+    }
+
+    return state
+  } catch (error) {
+    logWarn("[UPLOAD STATE] Failed to load upload state", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
+
+/**
+ * Create or replace the saved upload state
+ */
+export async function saveUploadState(state: MultipartUploadState): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.put({ ...state, updatedAt: Date.now() }))
+  } catch (error) {
+    logWarn("[UPLOAD STATE] Failed to save upload state", {
+      job_id: state.jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Remove the saved upload state for a fingerprint
+ */
+export async function clearUploadState(fingerprint: string): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.delete(fingerprint))
+  } catch (error) {
+    logWarn("[UPLOAD STATE] Failed to clear upload state", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+export type { CompletedPart, MultipartUploadState }
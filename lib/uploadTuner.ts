@@ -0,0 +1,155 @@
+// Adjusts how many parts of an upload are in flight while it runs, AIMD-style: one more while that keeps
+// raising throughput, half as many after a part fails, one fewer when parts get slow enough to risk
+// timing out. The starting point still comes from the stored speed estimate (see uploadFileAndConvert).
+
+import { log } from "./logger"
+
+// Parts finished at a concurrency level before it's judged
+const MIN_SAMPLES = 2
+// One more part in flight has to raise throughput by this much to be kept
+const MIN_GAIN = 1.1
+// Parts taking longer than this share of the part timeout mean each stream is starved
+const SLOW_PART_RATIO = 0.5
+// After backing off, no probing upwards for this long
+const HOLD_AFTER_BACKOFF_MS = 15_000
+
+export type TuningDecision = "initial" | "probe" | "no_gain" | "slow_parts" | "part_failed" | "budget"
+
+export interface UploadTuningState {
+  concurrency: number
+  // The most parts this upload may have in flight; the scheduler decides how many it actually gets
+  budget: number
+  lastDecision: TuningDecision
+  // Over the last measurement window, across all parts in flight
+  throughputBps?: number
+  averagePartMs?: number
+  failures: number
+}
+
+export interface UploadTunerOptions {
+  initialConcurrency: number
+  budget: () => number
+  partTimeoutMs: number
+  // Called with each new throughput measurement, to keep the stored speed estimate current
+  onThroughput?: (bytesPerSecond: number) => void
+  // Identifies the upload in logs
+  label?: string
+}
+
+interface MeasurementWindow {
+  startedAt: number
+  bytes: number
+  parts: number
+  partMs: number
+}
+
+export class UploadTuner {
+  private readonly options: UploadTunerOptions
+  private concurrency: number
+  private lastDecision: TuningDecision = "initial"
+  private window: MeasurementWindow
+  // Where we were before the last probe, to go back to if it didn't help
+  private beforeProbe: { concurrency: number; throughputBps: number } | null = null
+  private holdUntil = 0
+  private failures = 0
+  private throughputBps?: number
+  private averagePartMs?: number
+
+  constructor(options: UploadTunerOptions) {
+    this.options = options
+    this.concurrency = Math.max(1, Math.min(options.initialConcurrency, options.budget()))
+    this.window = this.newWindow()
+  }
+
+  /**
+   * Parts allowed in flight right now
+   */
+  getConcurrency(): number {
+    const budget = Math.max(1, this.options.budget())
+    if (this.concurrency > budget) this.setConcurrency(budget, "budget")
+    return this.concurrency
+  }
+
+  getState(): UploadTuningState {
+    return {
+      concurrency: this.concurrency,
+      budget: Math.max(1, this.options.budget()),
+      lastDecision: this.lastDecision,
+      throughputBps: this.throughputBps,
+      averagePartMs: this.averagePartMs,
+      failures: this.failures,
+    }
+  }
+
+  /**
+   * A part reached storage; `durationMs` covers the transfer only
+   */
+  recordPart(bytes: number, durationMs: number): void {
+    this.window.bytes += bytes
+    this.window.parts++
+    this.window.partMs += durationMs
+    if (this.window.parts >= Math.max(MIN_SAMPLES, this.concurrency)) this.evaluate()
+  }
+
+  /**
+   * A part attempt failed (error or timeout); it will be retried
+   */
+  recordFailure(): void {
+    this.failures++
+    // Parts in flight tend to fail together; back off once per window rather than once per part
+    if (this.lastDecision === "part_failed" && this.window.parts === 0) return
+    this.holdUntil = Date.now() + HOLD_AFTER_BACKOFF_MS
+    this.setConcurrency(Math.max(1, Math.floor(this.concurrency / 2)), "part_failed")
+  }
+
+  private evaluate(): void {
+    const elapsedSeconds = Math.max(0.001, (performance.now() - this.window.startedAt) / 1000)
+    const throughputBps = this.window.bytes / elapsedSeconds
+    const averagePartMs = this.window.partMs / this.window.parts
+    this.throughputBps = throughputBps
+    this.averagePartMs = averagePartMs
+    this.options.onThroughput?.(throughputBps)
+
+    const budget = Math.max(1, this.options.budget())
+    if (averagePartMs > this.options.partTimeoutMs * SLOW_PART_RATIO && this.concurrency > 1) {
+      this.holdUntil = Date.now() + HOLD_AFTER_BACKOFF_MS
+      this.setConcurrency(this.concurrency - 1, "slow_parts")
+    } else if (
+      this.lastDecision === "probe" &&
+      this.beforeProbe &&
+      throughputBps < this.beforeProbe.throughputBps * MIN_GAIN
+    ) {
+      this.holdUntil = Date.now() + HOLD_AFTER_BACKOFF_MS
+      this.setConcurrency(this.beforeProbe.concurrency, "no_gain")
+    } else if (Date.now() >= this.holdUntil && this.concurrency < budget) {
+      this.beforeProbe = { concurrency: this.concurrency, throughputBps }
+      this.setConcurrency(this.concurrency + 1, "probe")
+    } else {
+      // Nothing to change; keep measuring at this level
+      this.window = this.newWindow()
+    }
+  }
+
+  private setConcurrency(concurrency: number, decision: TuningDecision): void {
+    const previous = this.concurrency
+    this.concurrency = concurrency
+    this.lastDecision = decision
+    this.window = this.newWindow()
+    if (decision !== "probe") this.beforeProbe = null
+
+    if (concurrency !== previous) {
+      log("[UPLOAD TUNER] Concurrency changed", {
+        upload: this.options.label,
+        from: previous,
+        to: concurrency,
+        decision,
+        throughput_bps: this.throughputBps !== undefined ? Math.round(this.throughputBps) : undefined,
+        average_part_ms: this.averagePartMs !== undefined ? Math.round(this.averagePartMs) : undefined,
+      })
+    }
+  }
+
+  private newWindow(): MeasurementWindow {
+    return { startedAt: performance.now(), bytes: 0, parts: 0, partMs: 0 }
+  }
+}
@@ -0,0 +1,219 @@
+// Merge several CBZs into one volume, or split one CBZ into several, entirely in the browser
+
+import { serializeComicInfo, type ComicInfoPage } from "./comicInfo"
+import { getFileExtension } from "./fileValidation"
+import { log } from "./logger"
+import { isImagePath, naturalCompare } from "./pagePreview"
+import { isJunkPath, readZipEntries, readZipEntry, type ZipEntry } from "./zipReader"
+import { createStoredZip, type ZipWriterEntry } from "./zipWriter"
+
+const EDITABLE_EXTENSIONS = [".cbz", ".zip"]
+
+export type SplitMode = "pages" | "size"
+
+export interface SplitOptions {
+  mode: SplitMode
+  // Pages per volume, or maximum bytes per volume
+  limit: number
+}
+
+export function canEditVolume(file: File): boolean {
+  return EDITABLE_EXTENSIONS.includes(getFileExtension(file.name))
+}
+
+function baseName(filename: string): string {
+  const extension = getFileExtension(filename)
+  return extension ? filename.slice(0, -extension.length) : filename
+}
+
+function padNumber(value: number, total: number): string {
+  return String(value).padStart(Math.max(2, String(total).length), "0")
+}
+
+/**
+ * Name for volume `index` (0-based) of a split, e.g. "Title v01"
+ */
+export function volumeName(title: string, index: number, total: number): string {
+  return `${title} v${padNumber(index + 1, total)}`
+}
+
+// "Title ch01" + "Title ch10" -> "Title ch01-10"; unrelated names -> "A - B"
+function mergedName(names: string[]): string {
+  const first = names[0]
+  const last = names[names.length - 1]
+  if (names.length === 1) return first
+
+  let prefix = 0
+  while (prefix < first.length && prefix < last.length && first[prefix] === last[prefix]) prefix++
+  // Don't cut a number in half ("ch1" / "ch12" share "ch1")
+  while (prefix > 0 && /\d/.test(first[prefix - 1])) prefix--
+
+  return prefix >= 3 ? `${first}-${last.slice(prefix)}` : `${first} - ${last}`
+}
+
+async function readPages(file: File): Promise<ZipEntry[]> {
+  if (!canEditVolume(file)) {
+    throw new Error(`${file.name}: only CBZ/ZIP archives can be merged or split in the browser`)
+  }
+
+  const pages = (await readZipEntries(file))
+    .filter((entry) => !entry.isDirectory && isImagePath(entry.name) && !isJunkPath(entry.name))
+    .sort((a, b) => naturalCompare(a.name, b.name))
+
+  const encrypted = pages.find((entry) => entry.encrypted)
+  if (encrypted) {
+    throw new Error(`${file.name}: page '${encrypted.name}' is encrypted`)
+  }
+  if (pages.length === 0) {
+    throw new Error(`${file.name}: no images found`)
+  }
+
+  return pages
+}
+
+// Page paths inside the source archive, without a folder every page sits in (usually named after the archive)
+function relativePagePaths(pages: ZipEntry[]): string[] {
+  const parts = pages.map((page) => page.name.split("/"))
+  let shared = 0
+  while (parts.every((path) => path.length > shared + 1 && path[shared] === parts[0][shared])) {
+    shared++
+  }
+  return parts.map((path) => path.slice(shared).join("/"))
+}
+
+async function readComicInfo(file: File): Promise<string | null> {
+  const entry = (await readZipEntries(file)).find(
+    (candidate) => !candidate.isDirectory && candidate.name.toLowerCase() === "comicinfo.xml",
+  )
+  return entry ? (await readZipEntry(file, entry)).text() : null
+}
+
+// The source's ComicInfo.xml for one part of a split: the same metadata with the part's page count, keeping
+// only the bookmarks inside the part, renumbered from its first page
+function comicInfoForPart(xml: string, firstPage: number, pageCount: number): string {
+  const doc = new DOMParser().parseFromString(xml, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) return xml
+
+  const root = doc.documentElement
+  let count = root.getElementsByTagName("PageCount")[0]
+  if (!count) {
+    count = doc.createElement("PageCount")
+    root.appendChild(count)
+  }
+  count.textContent = String(pageCount)
+
+  for (const page of Array.from(root.getElementsByTagName("Page"))) {
+    const image = Number(page.getAttribute("Image")) - firstPage
+    if (Number.isInteger(image) && image >= 0 && image < pageCount) {
+      page.setAttribute("Image", String(image))
+    } else {
+      page.remove()
+    }
+  }
+
+  return new XMLSerializer().serializeToString(doc)
+}
+
+function toCbz(blob: Blob, name: string): File {
+  return new File([blob], `${name}.cbz`, { type: "application/vnd.comicbook+zip" })
+}
+
+/**
+ * Combine archives into one volume, in the given order.
+ * Each source becomes a chapter directory and a bookmarked entry in the ComicInfo.xml table of contents;
+ * pages keep their folders inside it, so same-named pages from different subfolders don't collide.
+ *
+ * @param files - CBZ/ZIP archives in chapter order
+ * @param onProgress - Called with 0-100 while the volume is packed
+ * @throws {Error} If a file isn't a readable CBZ/ZIP or holds no images
+ */
+export async function mergeVolumes(files: File[], onProgress?: (percentage: number) => void): Promise<File> {
+  const names = files.map((file) => baseName(file.name))
+  const entries: ZipWriterEntry[] = []
+  const tocPages: ComicInfoPage[] = []
+
+  for (const [index, file] of files.entries()) {
+    const chapterDir = `${padNumber(index + 1, files.length)} ${names[index]}`
+    const pages = await readPages(file)
+
+    tocPages.push({ image: entries.length, bookmark: names[index] })
+    const paths = relativePagePaths(pages)
+    for (const [pageIndex, page] of pages.entries()) {
+      entries.push({
+        name: `${chapterDir}/${paths[pageIndex]}`,
+        data: await readZipEntry(file, page),
+      })
+    }
+  }
+
+  const title = mergedName(names)
+  const comicInfo = serializeComicInfo({ title, pageCount: entries.length, pages: tocPages })
+  entries.push({ name: "ComicInfo.xml", data: new Blob([comicInfo], { type: "application/xml" }) })
+
+  const volume = toCbz(await createStoredZip(entries, onProgress), title)
+  log("[VOLUMES] Merged archives", { sources: files.length, pages: entries.length - 1, name: volume.name })
+  return volume
+}
+
+/**
+ * Cut an archive into consecutive volumes by page count or by size.
+ * Pages keep their paths, so chapter directories survive the split, and each volume gets its own copy of
+ * the source's ComicInfo.xml.
+ *
+ * @param file - CBZ/ZIP archive
+ * @param options - Pages per volume, or maximum bytes per volume (a single larger page still gets its own volume)
+ * @param onProgress - Called with 0-100 across all volumes
+ * @returns The volumes, named "<title> v01", "<title> v02", ...
+ * @throws {Error} If the file isn't a readable CBZ/ZIP or holds no images
+ */
+export async function splitVolume(
+  file: File,
+  options: SplitOptions,
+  onProgress?: (percentage: number) => void,
+): Promise<File[]> {
+  if (!(options.limit > 0)) {
+    throw new Error("Split limit must be greater than zero")
+  }
+
+  const pages = await readPages(file)
+  const groups: ZipEntry[][] = [[]]
+  let groupBytes = 0
+
+  for (const page of pages) {
+    const current = groups[groups.length - 1]
+    const full =
+      options.mode === "pages"
+        ? current.length >= options.limit
+        : current.length > 0 && groupBytes + page.uncompressedSize > options.limit
+    if (full) {
+      groups.push([page])
+      groupBytes = page.uncompressedSize
+    } else {
+      current.push(page)
+      groupBytes += page.uncompressedSize
+    }
+  }
+
+  const title = baseName(file.name)
+  const comicInfo = await readComicInfo(file)
+  const volumes: File[] = []
+  let firstPage = 0
+  for (const [index, group] of groups.entries()) {
+    const entries: ZipWriterEntry[] = []
+    for (const page of group) {
+      entries.push({ name: page.name, data: await readZipEntry(file, page) })
+    }
+    if (comicInfo) {
+      const partInfo = comicInfoForPart(comicInfo, firstPage, group.length)
+      entries.push({ name: "ComicInfo.xml", data: new Blob([partInfo], { type: "application/xml" }) })
+    }
+    firstPage += group.length
+    const zip = await createStoredZip(entries, (percentage) =>
+      onProgress?.(((index + percentage / 100) / groups.length) * 100),
+    )
+    volumes.push(toCbz(zip, volumeName(title, index, groups.length)))
+  }
+
+  log("[VOLUMES] Split archive", { source: file.name, pages: pages.length, volumes: volumes.length })
+  return volumes
+}
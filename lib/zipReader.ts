@@ -0,0 +1,203 @@
+// Minimal ZIP reader that works on File/Blob slices, so multi-GB archives never have to be read into memory
+
+const EOCD_SIGNATURE = 0x06054b50
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_EOCD_SIGNATURE = 0x06064b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+
+const EOCD_MIN_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+const ZIP64_EXTRA_FIELD_ID = 0x0001
+
+export const COMPRESSION_STORED = 0
+export const COMPRESSION_DEFLATE = 8
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  uncompressedSize: number
+  compressionMethod: number
+  encrypted: boolean
+  isDirectory: boolean
+  localHeaderOffset: number
+}
+
+/**
+ * Custom error for archives whose structure can't be read
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ZipFormatError"
+  }
+}
+
+/**
+ * OS metadata that ends up in archives but is never content (__MACOSX, dotfiles, Thumbs.db)
+ */
+export function isJunkPath(path: string): boolean {
+  const basename = path.split("/").pop() || ""
+  return path.startsWith("__MACOSX/") || basename.startsWith(".") || basename.toLowerCase() === "thumbs.db"
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  const buffer = await blob.slice(start, end).arrayBuffer()
+  return new DataView(buffer)
+}
+
+function getUint64(view: DataView, offset: number): number {
+  // Safe up to 2^53, far beyond any archive we accept
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000
+}
+
+async function findCentralDirectory(blob: Blob): Promise<{ offset: number; size: number; entries: number }> {
+  if (blob.size < EOCD_MIN_SIZE) {
+    throw new ZipFormatError("File is too small to be a ZIP archive")
+  }
+
+  // The end-of-central-directory record sits at the end, followed by an optional comment
+  const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE)
+  const tail = await readBytes(blob, tailStart, blob.size)
+
+  let eocd = -1
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw new ZipFormatError("End of central directory not found")
+  }
+
+  let entries = tail.getUint16(eocd + 10, true)
+  let size = tail.getUint32(eocd + 12, true)
+  let offset = tail.getUint32(eocd + 16, true)
+
+  // ZIP64: the real values live in the ZIP64 end-of-central-directory record
+  if (entries === 0xffff || size === 0xffffffff || offset === 0xffffffff) {
+    const locatorPos = eocd - 20
+    if (locatorPos >= 0 && tail.getUint32(locatorPos, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64Offset = getUint64(tail, locatorPos + 8)
+      const zip64 = await readBytes(blob, zip64Offset, zip64Offset + 56)
+      if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new ZipFormatError("Invalid ZIP64 end of central directory")
+      }
+      entries = getUint64(zip64, 32)
+      size = getUint64(zip64, 40)
+      offset = getUint64(zip64, 48)
+    }
+  }
+
+  if (offset + size > blob.size) {
+    throw new ZipFormatError("Central directory lies outside the file (truncated archive?)")
+  }
+
+  return { offset, size, entries }
+}
+
+/**
+ * Read the entry list from a ZIP archive's central directory.
+ * Only the directory is read; entry data stays on disk until `readZipEntry` is called.
+ *
+ * @param blob - The archive
+ * @returns All entries, in central directory order
+ * @throws {ZipFormatError} If the archive structure is invalid
+ */
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const directory = await findCentralDirectory(blob)
+  const view = await readBytes(blob, directory.offset, directory.offset + directory.size)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  let pos = 0
+  while (pos + 46 <= view.byteLength && entries.length < directory.entries) {
+    if (view.getUint32(pos, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt central directory entry at offset ${directory.offset + pos}`)
+    }
+
+    const flags = view.getUint16(pos + 8, true)
+    const compressionMethod = view.getUint16(pos + 10, true)
+    let compressedSize = view.getUint32(pos + 20, true)
+    let uncompressedSize = view.getUint32(pos + 24, true)
+    const nameLength = view.getUint16(pos + 28, true)
+    const extraLength = view.getUint16(pos + 30, true)
+    const commentLength = view.getUint16(pos + 32, true)
+    let localHeaderOffset = view.getUint32(pos + 42, true)
+
+    const nameBytes = new Uint8Array(view.buffer, view.byteOffset + pos + 46, nameLength)
+    const name = decoder.decode(nameBytes)
+
+    // ZIP64 extra field carries the sizes/offset that overflowed 32 bits, in this order
+    let extraPos = pos + 46 + nameLength
+    const extraEnd = extraPos + extraLength
+    while (extraPos + 4 <= extraEnd) {
+      const id = view.getUint16(extraPos, true)
+      const length = view.getUint16(extraPos + 2, true)
+      if (id === ZIP64_EXTRA_FIELD_ID) {
+        let fieldPos = extraPos + 4
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = getUint64(view, fieldPos)
+          fieldPos += 8
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = getUint64(view, fieldPos)
+          fieldPos += 8
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = getUint64(view, fieldPos)
+        }
+      }
+      extraPos += 4 + length
+    }
+
+    entries.push({
+      name,
+      compressedSize,
+      uncompressedSize,
+      compressionMethod,
+      encrypted: (flags & 0x1) !== 0,
+      isDirectory: name.endsWith("/"),
+      localHeaderOffset,
+    })
+
+    pos += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Extract a single entry's content.
+ *
+ * @param blob - The archive the entry was read from
+ * @param entry - Entry from `readZipEntries`
+ * @param type - MIME type for the returned blob
+ * @throws {ZipFormatError} If the entry is encrypted, uses an unsupported compression method or is corrupt
+ */
+export async function readZipEntry(blob: Blob, entry: ZipEntry, type = ""): Promise<Blob> {
+  if (entry.encrypted) {
+    throw new ZipFormatError(`Entry '${entry.name}' is encrypted`)
+  }
+
+  const header = await readBytes(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30)
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipFormatError(`Corrupt local header for '${entry.name}'`)
+  }
+
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize)
+
+  if (entry.compressionMethod === COMPRESSION_STORED) {
+    return new Blob([data], { type })
+  }
+
+  if (entry.compressionMethod === COMPRESSION_DEFLATE) {
+    const stream = data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+    const inflated = await new Response(stream).blob()
+    return new Blob([inflated], { type })
+  }
+
+  throw new ZipFormatError(`Entry '${entry.name}' uses unsupported compression method ${entry.compressionMethod}`)
+}
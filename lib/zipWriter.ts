@@ -0,0 +1,292 @@
+// Store-mode (uncompressed) ZIP writers. createStoredZip references entry data as Blob slices, so packing
+// gigabytes of pages only reads each page once (for its CRC) and never holds it in memory. ZipStream writes
+// an archive front to back as entry data arrives, for data that isn't on hand as a Blob.
+
+const CRC_CHUNK_SIZE = 4 * 1024 * 1024
+const ZIP64_LIMIT = 0xffffffff
+
+export interface ZipWriterEntry {
+  name: string
+  data: Blob
+  lastModified?: number
+}
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+// Running CRC-32 state: start from CRC_INITIAL and finish with finalCrc32
+const CRC_INITIAL = 0xffffffff
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  const table = getCrcTable()
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return crc
+}
+
+function finalCrc32(crc: number): number {
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * CRC-32 of a blob, read in chunks
+ */
+export async function crc32(blob: Blob): Promise<number> {
+  let crc = CRC_INITIAL
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK_SIZE) {
+    crc = updateCrc32(crc, new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK_SIZE).arrayBuffer()))
+  }
+  return finalCrc32(crc)
+}
+
+function dosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp)
+  const year = Math.max(1980, d.getFullYear())
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+function setUint64(view: DataView, offset: number, value: number) {
+  view.setUint32(offset, value % 0x100000000, true)
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true)
+}
+
+// General purpose flags
+const UTF8_NAMES = 0x0800
+const DATA_DESCRIPTOR = 0x0008
+
+interface CentralRecordFields {
+  name: Uint8Array
+  crc: number
+  size: number
+  // Of the entry's local header
+  offset: number
+  time: number
+  date: number
+  flags: number
+}
+
+interface OpenEntry extends Omit<CentralRecordFields, "flags"> {
+  // Running CRC state, finished when the entry ends
+  crc: number
+}
+
+function centralRecord({ name, crc, size, offset, time, date, flags }: CentralRecordFields): Uint8Array<ArrayBuffer> {
+  const needsZip64 = size >= ZIP64_LIMIT || offset >= ZIP64_LIMIT
+  const extraLength = needsZip64 ? 28 : 0
+  const central = new DataView(new ArrayBuffer(46 + name.length + extraLength))
+  central.setUint32(0, 0x02014b50, true)
+  central.setUint16(4, needsZip64 ? 45 : 20, true) // version made by
+  central.setUint16(6, needsZip64 ? 45 : 20, true) // version needed
+  central.setUint16(8, flags, true)
+  central.setUint16(10, 0, true)
+  central.setUint16(12, time, true)
+  central.setUint16(14, date, true)
+  central.setUint32(16, crc, true)
+  central.setUint32(20, needsZip64 ? ZIP64_LIMIT : size, true)
+  central.setUint32(24, needsZip64 ? ZIP64_LIMIT : size, true)
+  central.setUint16(28, name.length, true)
+  central.setUint16(30, extraLength, true)
+  central.setUint32(42, needsZip64 ? ZIP64_LIMIT : offset, true)
+  new Uint8Array(central.buffer).set(name, 46)
+  if (needsZip64) {
+    central.setUint16(46 + name.length, 0x0001, true)
+    central.setUint16(48 + name.length, 24, true)
+    setUint64(central, 50 + name.length, size)
+    setUint64(central, 58 + name.length, size)
+    setUint64(central, 66 + name.length, offset)
+  }
+  return new Uint8Array(central.buffer)
+}
+
+// End of central directory, preceded by the ZIP64 end record and locator when the counts or offsets need them
+function endRecords(entryCount: number, directorySize: number, directoryOffset: number): Uint8Array<ArrayBuffer> {
+  const needsZip64End = entryCount >= 0xffff || directoryOffset >= ZIP64_LIMIT || directorySize >= ZIP64_LIMIT
+  const zip64Length = needsZip64End ? 56 + 20 : 0
+  const records = new DataView(new ArrayBuffer(zip64Length + 22))
+  if (needsZip64End) {
+    records.setUint32(0, 0x06064b50, true)
+    setUint64(records, 4, 44) // size of the remaining record
+    records.setUint16(12, 45, true)
+    records.setUint16(14, 45, true)
+    setUint64(records, 24, entryCount)
+    setUint64(records, 32, entryCount)
+    setUint64(records, 40, directorySize)
+    setUint64(records, 48, directoryOffset)
+    // Locator pointing at the record above
+    records.setUint32(56, 0x07064b50, true)
+    setUint64(records, 64, directoryOffset + directorySize)
+    records.setUint32(72, 1, true)
+  }
+
+  const end = zip64Length
+  records.setUint32(end, 0x06054b50, true)
+  records.setUint16(end + 8, Math.min(entryCount, 0xffff), true)
+  records.setUint16(end + 10, Math.min(entryCount, 0xffff), true)
+  records.setUint32(end + 12, Math.min(directorySize, ZIP64_LIMIT), true)
+  records.setUint32(end + 16, Math.min(directoryOffset, ZIP64_LIMIT), true)
+  return new Uint8Array(records.buffer)
+}
+
+/**
+ * Build an uncompressed ZIP archive from the given entries, in the given order.
+ *
+ * @param entries - Entry names (with "/" separators) and their data
+ * @param onProgress - Called with 0-100 while entry checksums are computed
+ * @returns The archive as a Blob that references the entry data
+ */
+export async function createStoredZip(
+  entries: ZipWriterEntry[],
+  onProgress?: (percentage: number) => void,
+): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const centralDirectory: Uint8Array[] = []
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.data.size, 0)
+  let processedBytes = 0
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = await crc32(entry.data)
+    const size = entry.data.size
+    const { time, date } = dosDateTime(entry.lastModified ?? Date.now())
+    const needsZip64 = size >= ZIP64_LIMIT || offset >= ZIP64_LIMIT
+
+    // Local header; ZIP64 sizes go in an extra field
+    const localExtraLength = needsZip64 ? 20 : 0
+    const local = new DataView(new ArrayBuffer(30 + name.length + localExtraLength))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, needsZip64 ? 45 : 20, true) // version needed
+    local.setUint16(6, UTF8_NAMES, true)
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, needsZip64 ? ZIP64_LIMIT : size, true)
+    local.setUint32(22, needsZip64 ? ZIP64_LIMIT : size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, localExtraLength, true)
+    new Uint8Array(local.buffer).set(name, 30)
+    if (needsZip64) {
+      local.setUint16(30 + name.length, 0x0001, true)
+      local.setUint16(32 + name.length, 16, true)
+      setUint64(local, 34 + name.length, size)
+      setUint64(local, 42 + name.length, size)
+    }
+
+    parts.push(local.buffer, entry.data)
+    centralDirectory.push(centralRecord({ name, crc, size, offset, time, date, flags: UTF8_NAMES }))
+    offset += local.byteLength + size
+
+    processedBytes += size
+    onProgress?.(totalBytes > 0 ? (processedBytes / totalBytes) * 100 : 100)
+  }
+
+  const directorySize = centralDirectory.reduce((sum, record) => sum + record.length, 0)
+  parts.push(...centralDirectory.map((record) => record.buffer as ArrayBuffer))
+  parts.push(endRecords(entries.length, directorySize, offset).buffer as ArrayBuffer)
+
+  return new Blob(parts, { type: "application/zip" })
+}
+
+/**
+ * Writes a ZIP archive front to back, one entry at a time, as the entry data arrives. Sizes and CRCs
+ * go in a data descriptor after each entry's data, so nothing has to be buffered or rewritten, and the
+ * archive can grow past 4 GB.
+ */
+export class ZipStream {
+  private offset = 0
+  private directory: Uint8Array<ArrayBuffer>[] = []
+  private current: OpenEntry | null = null
+
+  constructor(private readonly output: (chunk: Uint8Array<ArrayBuffer>) => Promise<void>) {}
+
+  // Bytes written so far
+  get size(): number {
+    return this.offset
+  }
+
+  /**
+   * Start an entry. An entry that is still open is abandoned: its bytes stay in the output, but the
+   * central directory never points at them, so readers skip them.
+   */
+  async startEntry(entryName: string, lastModified = Date.now()): Promise<void> {
+    const name = new TextEncoder().encode(entryName)
+    const { time, date } = dosDateTime(lastModified)
+
+    // The size isn't known up front, so every entry is marked ZIP64: the CRC and sizes follow the data in a
+    // descriptor with 8-byte sizes, which is what readers expect once a local header has a ZIP64 field
+    const local = new DataView(new ArrayBuffer(30 + name.length + 20))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 45, true) // version needed
+    local.setUint16(6, UTF8_NAMES | DATA_DESCRIPTOR, true)
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(18, ZIP64_LIMIT, true)
+    local.setUint32(22, ZIP64_LIMIT, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 20, true)
+    new Uint8Array(local.buffer).set(name, 30)
+    local.setUint16(30 + name.length, 0x0001, true)
+    local.setUint16(32 + name.length, 16, true)
+
+    this.current = { name, time, date, offset: this.offset, size: 0, crc: CRC_INITIAL }
+    await this.write(new Uint8Array(local.buffer))
+  }
+
+  async writeData(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    const entry = this.current
+    if (!entry) throw new Error("No ZIP entry is open")
+    entry.crc = updateCrc32(entry.crc, chunk)
+    entry.size += chunk.byteLength
+    await this.write(chunk)
+  }
+
+  // Finish the open entry with its data descriptor and add it to the central directory
+  async endEntry(): Promise<void> {
+    const entry = this.current
+    if (!entry) throw new Error("No ZIP entry is open")
+    this.current = null
+    const crc = finalCrc32(entry.crc)
+
+    const descriptor = new DataView(new ArrayBuffer(24))
+    descriptor.setUint32(0, 0x08074b50, true)
+    descriptor.setUint32(4, crc, true)
+    setUint64(descriptor, 8, entry.size)
+    setUint64(descriptor, 16, entry.size)
+    await this.write(new Uint8Array(descriptor.buffer))
+
+    this.directory.push(centralRecord({ ...entry, crc, flags: UTF8_NAMES | DATA_DESCRIPTOR }))
+  }
+
+  // Write the central directory; an entry that is still open is left out
+  async finish(): Promise<void> {
+    this.current = null
+    const directoryOffset = this.offset
+    for (const record of this.directory) await this.write(record)
+    await this.write(endRecords(this.directory.length, this.offset - directoryOffset, directoryOffset))
+  }
+
+  private async write(bytes: Uint8Array<ArrayBuffer>): Promise<void> {
+    await this.output(bytes)
+    this.offset += bytes.byteLength
+  }
+}
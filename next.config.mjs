@@ -16,6 +16,18 @@ const nextConfig = {
     unoptimized: true,
   },
   output: 'standalone',
+  async headers() {
+    return [
+      {
+        // The browser checks for a new service worker on every visit; don't let a cache answer for it
+        source: '/sw.js',
+        headers: [
+          { key: 'Cache-Control', value: 'no-cache, no-store, must-revalidate' },
+          { key: 'Content-Type', value: 'application/javascript; charset=utf-8' },
+        ],
+      },
+    ]
+  },
   experimental: {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
@@ -0,0 +1,514 @@
+// Service worker: caches the app shell so the converter opens offline, finishes multipart uploads
+// whose tab closed (handed over by lib/backgroundUploads.ts), streams downloads too large for the tab
+// to hold (handed over by lib/downloadClient.ts), and announces jobs that finish.
+// Served as-is from /sw.js and not bundled, so nothing here can import from lib/.
+
+const CACHE_VERSION = "v1"
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const STATIC_CACHE = `static-${CACHE_VERSION}`
+const SHELL_URLS = [
+  "/",
+  "/manga",
+  "/comic",
+  "/site.webmanifest",
+  "/favicon.svg",
+  "/favicon-96x96.png",
+  "/web-app-manifest-192x192.png",
+]
+
+// Same names as lib/backgroundUploads.ts
+const DB_NAME = "mangaconverter_background"
+const DB_VERSION = 1
+const STORE_NAME = "uploads"
+const RELEASE_UPLOAD_MESSAGE = "release-upload"
+
+const SYNC_TAG = "background-uploads"
+const BACKGROUND_FETCH_PREFIX = "upload:"
+const PART_BATCH_SIZE = 20
+// After an upload finishes here, how long to keep checking the job so its result can be announced
+const JOB_POLL_INTERVAL_MS = 10_000
+const JOB_POLL_MAX_MS = 4 * 60 * 1000
+
+// Same names as lib/downloadClient.ts
+const STREAM_DOWNLOAD_MESSAGE = "stream-download"
+const STREAM_DOWNLOAD_PATH = "/download-stream/"
+
+const ICON = "/web-app-manifest-192x192.png"
+const BADGE = "/favicon-96x96.png"
+
+// App shell
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // One missing page shouldn't keep the worker from installing
+      .then((cache) => Promise.allSettled(SHELL_URLS.map((url) => cache.add(url))))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== STATIC_CACHE).map((key) => caches.delete(key))),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+  if (url.pathname.startsWith(STREAM_DOWNLOAD_PATH)) {
+    event.respondWith(streamDownload(url.pathname.slice(STREAM_DOWNLOAD_PATH.length)))
+    return
+  }
+  // API calls, downloads and error reporting always go to the network
+  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/monitoring")) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request))
+  } else if (url.pathname.startsWith("/_next/static/") || /\.(?:png|svg|ico|ttf|woff2?)$/.test(url.pathname)) {
+    // Build assets are content-hashed, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request))
+  }
+})
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    // Offline: the page as we last saw it, else the home page (the converter lives there)
+    const cached = (await cache.match(request)) || (await cache.match("/"))
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) cache.put(request, response.clone())
+  return response
+}
+
+// Streamed downloads
+
+// token -> a converted file to fetch here ({ downloadId, sessionKey }), or a file the page builds and
+// feeds through a port ({ filename, contentType, port }); each is used by a single navigation
+const streamDownloads = new Map()
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== STREAM_DOWNLOAD_MESSAGE) return
+  const { token, downloadId, sessionKey, filename, contentType } = event.data
+  const port = event.ports[0]
+  streamDownloads.set(token, downloadId ? { downloadId, sessionKey } : { filename, contentType, port })
+  port?.postMessage({ type: "ready" })
+})
+
+// An attachment Content-Disposition makes the browser save the body as it arrives. Anything else is
+// answered with 204, which leaves the tab on the converter instead of showing an error page.
+async function streamDownload(token) {
+  const download = streamDownloads.get(token)
+  streamDownloads.delete(token)
+  if (!download) return new Response(null, { status: 204 })
+  if (download.port) return pageFedResponse(download)
+
+  try {
+    const response = await fetch(`/api/download/${download.downloadId}`, {
+      headers: { "X-Session-Key": download.sessionKey },
+      cache: "no-store",
+    })
+    if (response.ok) return response
+  } catch {
+    // Answered below
+  }
+  return new Response(null, { status: 204 })
+}
+
+// The page sends one chunk per "pull", so a slow disk holds the page back instead of filling memory here
+function pageFedResponse({ filename, contentType, port }) {
+  let chunkArrived = null
+  const body = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.type === "chunk") controller.enqueue(data.chunk)
+        else if (data.type === "close") controller.close()
+        else if (data.type === "abort") controller.error(new Error("Download cancelled"))
+        if (data.type !== "chunk") port.close()
+        chunkArrived?.()
+      }
+    },
+    pull() {
+      port.postMessage({ type: "pull" })
+      return new Promise((resolve) => (chunkArrived = resolve))
+    },
+    cancel() {
+      port.postMessage({ type: "cancel" })
+      port.close()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType || "application/octet-stream",
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    },
+  })
+}
+
+// Background uploads
+
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "jobId" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore(mode, run) {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const getUpload = (jobId) => withStore("readonly", (store) => store.get(jobId))
+const getAllUploads = () => withStore("readonly", (store) => store.getAll())
+const putUpload = (upload) => withStore("readwrite", (store) => store.put({ ...upload, updatedAt: Date.now() }))
+const deleteUpload = (jobId) => withStore("readwrite", (store) => store.delete(jobId))
+
+// A tab that resumes the upload registers it again without `releasedAt`, which takes it back from us
+async function isStillOurs(jobId) {
+  const upload = await getUpload(jobId)
+  return !!upload?.releasedAt
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== RELEASE_UPLOAD_MESSAGE) return
+  event.waitUntil(releaseUpload(event.data.jobId))
+})
+
+async function releaseUpload(jobId) {
+  const upload = await getUpload(jobId)
+  if (!upload) return
+  await putUpload({ ...upload, releasedAt: Date.now() })
+  await self.registration.sync.register(SYNC_TAG)
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return
+  event.waitUntil(runReleasedUploads(event.lastChance))
+})
+
+async function runReleasedUploads(lastChance) {
+  const uploads = (await getAllUploads()).filter((upload) => upload.releasedAt)
+  const results = await Promise.allSettled(uploads.map(runUpload))
+
+  const failed = uploads.filter((_, index) => results[index].status === "rejected")
+  if (failed.length === 0) return
+
+  if (lastChance) {
+    // The browser won't retry again; the tab resumes these from its own saved state when it's reopened
+    await Promise.all(
+      failed.map((upload) =>
+        self.registration.showNotification("Upload paused", {
+          body: `${upload.file.name} will continue when you open the converter again`,
+          icon: ICON,
+          badge: BADGE,
+          tag: `job-${upload.jobId}`,
+          data: { url: "/", jobId: upload.jobId },
+        }),
+      ),
+    )
+    return
+  }
+  // Rejecting makes the browser retry the sync later; parts that made it aren't uploaded again
+  throw new Error(`${failed.length} background upload(s) did not finish`)
+}
+
+async function runUpload(upload) {
+  const missing = await missingParts(upload)
+  if (missing === null) {
+    // Finished, cancelled or replaced since the tab closed
+    await deleteUpload(upload.jobId)
+    return
+  }
+
+  if (missing.length > 0) {
+    const urls = await partUrls(upload, missing)
+    if (self.registration.backgroundFetch && !upload.backgroundFetchFailed) {
+      if (await startBackgroundFetch(upload, urls)) return
+    }
+
+    for (const partNumber of missing) {
+      if (!(await isStillOurs(upload.jobId))) return
+      const etag = await putPart(upload, partNumber, urls.get(partNumber))
+      await completePart(upload, partNumber, etag)
+    }
+  }
+
+  await finishUpload(upload)
+}
+
+async function backendJson(upload, path, init = {}) {
+  const headers = { "X-Session-Key": upload.sessionKey }
+  if (init.body !== undefined) headers["Content-Type"] = "application/json"
+
+  const response = await fetch(`${upload.apiUrl}${path}`, {
+    method: init.method || "GET",
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  })
+  if (!response.ok) {
+    const error = new Error(`${path} failed (HTTP ${response.status})`)
+    error.status = response.status
+    throw error
+  }
+  return response.json().catch(() => null)
+}
+
+function partCount(upload) {
+  return Math.max(1, Math.ceil(upload.file.size / upload.partSize))
+}
+
+function partBlob(upload, partNumber) {
+  const start = (partNumber - 1) * upload.partSize
+  return upload.file.slice(start, Math.min(start + upload.partSize, upload.file.size))
+}
+
+/**
+ * Part numbers the backend hasn't confirmed yet, or null when the upload can't be resumed any more
+ */
+async function missingParts(upload) {
+  let data
+  try {
+    data = await backendJson(upload, `/jobs/${upload.jobId}/multipart/parts`)
+  } catch (error) {
+    if (error.status >= 400 && error.status < 500) return null
+    throw error
+  }
+  if (data?.upload_id && data.upload_id !== upload.uploadId) return null
+
+  const confirmed = new Set((data?.parts ?? []).map((part) => part.part_number))
+  const missing = []
+  for (let partNumber = 1; partNumber <= partCount(upload); partNumber++) {
+    if (!confirmed.has(partNumber)) missing.push(partNumber)
+  }
+  return missing
+}
+
+/**
+ * Presigned URLs for the given parts, fetched in batches that start at the first part still needed
+ */
+async function partUrls(upload, partNumbers) {
+  const urls = new Map()
+  let next = partNumbers[0]
+  while (next !== undefined) {
+    const batch = await backendJson(upload, `/jobs/${upload.jobId}/multipart/get-parts`, {
+      method: "POST",
+      body: { start_part: next, batch_size: PART_BATCH_SIZE },
+    })
+    for (const part of batch.parts) urls.set(part.part_number, part.url)
+    next = batch.has_more_parts ? partNumbers.find((partNumber) => !urls.has(partNumber)) : undefined
+  }
+  return urls
+}
+
+async function putPart(upload, partNumber, url) {
+  if (!url) throw new Error(`No upload URL for part ${partNumber}`)
+  const response = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: partBlob(upload, partNumber),
+  })
+  const etag = response.headers.get("ETag")
+  if (!response.ok || !etag) throw new Error(`Part ${partNumber} upload failed (HTTP ${response.status})`)
+  return etag
+}
+
+function completePart(upload, partNumber, etag) {
+  return backendJson(upload, `/jobs/${upload.jobId}/multipart/complete-part`, {
+    method: "POST",
+    body: { part_number: partNumber, etag },
+  })
+}
+
+// Parts sent from here carry no checksums (the backend treats them as optional); the tab sends them
+async function finishUpload(upload) {
+  await backendJson(upload, `/jobs/${upload.jobId}/multipart/finalize`, { method: "POST" })
+  await deleteUpload(upload.jobId)
+
+  await showJobNotification(upload.jobId, "Upload finished", `${upload.file.name} is converting`)
+  await watchJob(upload)
+}
+
+/**
+ * Upload the parts with Background Fetch, which keeps going (with the browser's own progress UI) even
+ * after this worker is stopped. Returns false when the browser can't, so the caller uploads them itself.
+ */
+async function startBackgroundFetch(upload, urls) {
+  const id = `${BACKGROUND_FETCH_PREFIX}${upload.jobId}`
+  // Already running from an earlier attempt of this sync
+  if (await self.registration.backgroundFetch.get(id)) return true
+
+  const parts = Array.from(urls, ([partNumber, url]) => ({ partNumber, url }))
+  const requests = parts.map(
+    ({ partNumber, url }) =>
+      new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: partBlob(upload, partNumber),
+      }),
+  )
+  const uploadTotal = parts.reduce((total, { partNumber }) => total + partBlob(upload, partNumber).size, 0)
+
+  await putUpload({ ...upload, backgroundFetchParts: parts })
+  try {
+    await self.registration.backgroundFetch.fetch(id, requests, {
+      title: `Uploading ${upload.file.name}`,
+      icons: [{ src: ICON, sizes: "192x192", type: "image/png" }],
+      uploadTotal,
+    })
+    return true
+  } catch (error) {
+    // Some browsers only support downloads with Background Fetch
+    await putUpload({ ...upload, backgroundFetchFailed: true })
+    return false
+  }
+}
+
+function uploadIdFor(registration) {
+  return registration.id.startsWith(BACKGROUND_FETCH_PREFIX)
+    ? registration.id.slice(BACKGROUND_FETCH_PREFIX.length)
+    : null
+}
+
+self.addEventListener("backgroundfetchsuccess", (event) => {
+  const jobId = uploadIdFor(event.registration)
+  if (!jobId) return
+  event.waitUntil(finishBackgroundFetch(event, jobId))
+})
+
+async function finishBackgroundFetch(event, jobId) {
+  const upload = await getUpload(jobId)
+  if (!upload?.releasedAt) return
+
+  try {
+    const partByUrl = new Map((upload.backgroundFetchParts ?? []).map((part) => [part.url, part.partNumber]))
+    for (const record of await event.registration.matchAll()) {
+      const response = await record.responseReady
+      const partNumber = partByUrl.get(record.request.url)
+      const etag = response.headers.get("ETag")
+      if (!partNumber || !response.ok || !etag) throw new Error(`Part upload failed (HTTP ${response.status})`)
+      await completePart(upload, partNumber, etag)
+    }
+    await event.updateUI({ title: `Uploaded ${upload.file.name}` })
+    await finishUpload(upload)
+  } catch {
+    await retryWithoutBackgroundFetch(upload)
+  }
+}
+
+self.addEventListener("backgroundfetchfail", (event) => {
+  const jobId = uploadIdFor(event.registration)
+  if (!jobId) return
+  event.waitUntil(getUpload(jobId).then((upload) => upload?.releasedAt && retryWithoutBackgroundFetch(upload)))
+})
+
+// Cancelled from the browser's download UI: leave it for the tab to resume
+self.addEventListener("backgroundfetchabort", (event) => {
+  const jobId = uploadIdFor(event.registration)
+  if (!jobId) return
+  event.waitUntil(deleteUpload(jobId))
+})
+
+// Parts that did arrive are confirmed by the backend, so the retry only uploads the rest
+async function retryWithoutBackgroundFetch(upload) {
+  await putUpload({ ...upload, backgroundFetchFailed: true })
+  await self.registration.sync.register(SYNC_TAG)
+}
+
+// Notifications
+
+async function hasVisibleClient() {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true })
+  return windows.some((client) => client.visibilityState === "visible")
+}
+
+async function showJobNotification(jobId, title, body) {
+  // An open tab announces jobs itself (lib/jobNotifications.ts)
+  if (await hasVisibleClient()) return
+  await self.registration.showNotification(title, {
+    body,
+    icon: ICON,
+    badge: BADGE,
+    tag: `job-${jobId}`,
+    data: { url: "/", jobId },
+  })
+}
+
+/**
+ * Check the job for a while after its upload so the conversion result can be announced with no tab open
+ */
+async function watchJob(upload) {
+  const deadline = Date.now() + JOB_POLL_MAX_MS
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+    let job
+    try {
+      const response = await fetch(`/api/job-status/${upload.jobId}`, {
+        headers: { "X-Session-Key": upload.sessionKey },
+      })
+      if (!response.ok) return
+      job = await response.json()
+    } catch {
+      continue
+    }
+
+    if (job.status === "COMPLETE") {
+      const name = job.filename || job.input_filename || upload.file.name
+      await showJobNotification(upload.jobId, "Conversion complete", `${name} is ready to download`)
+      return
+    }
+    if (job.status === "ERRORED") {
+      await showJobNotification(upload.jobId, "Conversion failed", job.error || upload.file.name)
+      return
+    }
+    if (job.status === "CANCELLED") return
+  }
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = event.notification.data?.url || "/"
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      return existing ? existing.focus() : self.clients.openWindow(url)
+    }),
+  )
+})